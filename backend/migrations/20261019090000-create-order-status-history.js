@@ -0,0 +1,26 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS order_status_history (
+        id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+        order_id UUID NOT NULL REFERENCES orders(id) ON UPDATE CASCADE ON DELETE CASCADE,
+        from_status VARCHAR(20) CHECK (from_status IN ('PENDING', 'CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED')),
+        to_status VARCHAR(20) NOT NULL CHECK (to_status IN ('PENDING', 'CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED')),
+        changed_by_admin_id CHAR(36) REFERENCES admin_users(id) ON UPDATE CASCADE ON DELETE SET NULL,
+        note TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await queryInterface.sequelize.query(`
+      CREATE INDEX IF NOT EXISTS idx_order_status_history_order_created
+      ON order_status_history(order_id, created_at);
+    `);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable("order_status_history");
+  },
+};
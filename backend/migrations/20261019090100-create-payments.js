@@ -0,0 +1,36 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS payments (
+        id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+        order_id UUID NOT NULL REFERENCES orders(id) ON UPDATE CASCADE ON DELETE CASCADE,
+        type VARCHAR(10) NOT NULL DEFAULT 'PAYMENT' CHECK (type IN ('PAYMENT', 'REFUND')),
+        method VARCHAR(20) NOT NULL CHECK (method IN ('cash', 'credit_card', 'debit_card', 'bank_transfer', 'momo', 'zalopay')),
+        amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+        status VARCHAR(10) NOT NULL DEFAULT 'COMPLETED' CHECK (status IN ('PENDING', 'COMPLETED', 'FAILED')),
+        reference_code VARCHAR(100),
+        paid_at TIMESTAMPTZ,
+        note TEXT,
+        recorded_by_admin_id CHAR(36) REFERENCES admin_users(id) ON UPDATE CASCADE ON DELETE SET NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_payments_order_id ON payments(order_id);`);
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_payments_reference_code ON payments(reference_code);`);
+
+    await queryInterface.sequelize.query(
+      `ALTER TABLE orders ADD COLUMN IF NOT EXISTS payment_method VARCHAR(20)`
+    );
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.sequelize.query(
+      `ALTER TABLE orders DROP COLUMN IF EXISTS payment_method`
+    );
+    await queryInterface.dropTable("payments");
+  },
+};
@@ -0,0 +1,26 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      ALTER TABLE orders
+        ADD COLUMN IF NOT EXISTS shipping_provider VARCHAR(30),
+        ADD COLUMN IF NOT EXISTS tracking_code VARCHAR(100),
+        ADD COLUMN IF NOT EXISTS shipping_label_url VARCHAR(500),
+        ADD COLUMN IF NOT EXISTS shipping_status VARCHAR(50);
+    `);
+
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_orders_tracking_code ON orders(tracking_code);`);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS idx_orders_tracking_code;`);
+    await queryInterface.sequelize.query(`
+      ALTER TABLE orders
+        DROP COLUMN IF EXISTS shipping_status,
+        DROP COLUMN IF EXISTS shipping_label_url,
+        DROP COLUMN IF EXISTS tracking_code,
+        DROP COLUMN IF EXISTS shipping_provider;
+    `);
+  },
+};
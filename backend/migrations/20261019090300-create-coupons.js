@@ -0,0 +1,62 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS coupons (
+        id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+        code VARCHAR(50) NOT NULL UNIQUE,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        type VARCHAR(20) NOT NULL CHECK (type IN ('PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING')),
+        value DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (value >= 0),
+        max_discount_amount DECIMAL(10,2),
+        min_order_value DECIMAL(10,2),
+        valid_from TIMESTAMPTZ,
+        valid_until TIMESTAMPTZ,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        usage_limit INTEGER CHECK (usage_limit > 0),
+        usage_limit_per_customer INTEGER CHECK (usage_limit_per_customer > 0),
+        product_ids JSON NOT NULL DEFAULT '[]',
+        category_ids JSON NOT NULL DEFAULT '[]',
+        created_by_admin_id CHAR(36) REFERENCES admin_users(id) ON UPDATE CASCADE ON DELETE SET NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_coupons_active_valid_until ON coupons(is_active, valid_until);`);
+
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS coupon_redemptions (
+        id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+        coupon_id UUID NOT NULL REFERENCES coupons(id) ON UPDATE CASCADE ON DELETE RESTRICT,
+        order_id UUID NOT NULL UNIQUE REFERENCES orders(id) ON UPDATE CASCADE ON DELETE CASCADE,
+        customer_id UUID NOT NULL REFERENCES customers(id) ON UPDATE CASCADE ON DELETE CASCADE,
+        code VARCHAR(50) NOT NULL,
+        discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+        shipping_discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_customer ON coupon_redemptions(coupon_id, customer_id);`);
+
+    await queryInterface.sequelize.query(`
+      ALTER TABLE orders
+        ADD COLUMN IF NOT EXISTS coupon_code VARCHAR(50),
+        ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+    `);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      ALTER TABLE orders
+        DROP COLUMN IF EXISTS discount_amount,
+        DROP COLUMN IF EXISTS coupon_code;
+    `);
+    await queryInterface.dropTable("coupon_redemptions");
+    await queryInterface.dropTable("coupons");
+  },
+};
@@ -0,0 +1,43 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS product_price_history (
+        id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+        product_id UUID NOT NULL REFERENCES products(id) ON UPDATE CASCADE ON DELETE CASCADE,
+        old_price DECIMAL(10,2),
+        new_price DECIMAL(10,2) NOT NULL,
+        source VARCHAR(20) NOT NULL CHECK (source IN ('MANUAL_EDIT', 'ORDER_OVERRIDE', 'BULK_IMPORT')),
+        changed_by_admin_id CHAR(36) REFERENCES admin_users(id) ON UPDATE CASCADE ON DELETE SET NULL,
+        order_id UUID REFERENCES orders(id) ON UPDATE CASCADE ON DELETE SET NULL,
+        note TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_product_price_history_product_created ON product_price_history(product_id, created_at);`);
+
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS product_scheduled_prices (
+        id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+        product_id UUID NOT NULL REFERENCES products(id) ON UPDATE CASCADE ON DELETE CASCADE,
+        price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+        starts_at TIMESTAMPTZ NOT NULL,
+        ends_at TIMESTAMPTZ,
+        label VARCHAR(255),
+        created_by_admin_id CHAR(36) REFERENCES admin_users(id) ON UPDATE CASCADE ON DELETE SET NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CHECK (ends_at IS NULL OR ends_at > starts_at)
+      );
+    `);
+
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_product_scheduled_prices_product_starts ON product_scheduled_prices(product_id, starts_at);`);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable("product_scheduled_prices");
+    await queryInterface.dropTable("product_price_history");
+  },
+};
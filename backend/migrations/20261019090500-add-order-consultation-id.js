@@ -0,0 +1,17 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      ALTER TABLE orders
+        ADD COLUMN IF NOT EXISTS consultation_id UUID UNIQUE REFERENCES consultations(id) ON UPDATE CASCADE ON DELETE SET NULL;
+    `);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      ALTER TABLE orders
+        DROP COLUMN IF EXISTS consultation_id;
+    `);
+  },
+};
@@ -0,0 +1,35 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS stock_movements (
+        id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+        product_id UUID NOT NULL REFERENCES products(id) ON UPDATE CASCADE ON DELETE CASCADE,
+        delta INTEGER NOT NULL,
+        quantity_after INTEGER NOT NULL,
+        reason VARCHAR(20) NOT NULL CHECK (reason IN ('SALE', 'CANCELLATION', 'MANUAL_ADJUSTMENT', 'RESTOCK', 'WRITE_OFF')),
+        reference_id UUID,
+        note TEXT,
+        created_by_admin_id CHAR(36) REFERENCES admin_users(id) ON UPDATE CASCADE ON DELETE SET NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_stock_movements_product_created ON stock_movements(product_id, created_at);`);
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_stock_movements_reference ON stock_movements(reference_id);`);
+
+    // Opening balance so the ledger of existing products sums to their stock
+    await queryInterface.sequelize.query(`
+      INSERT INTO stock_movements (product_id, delta, quantity_after, reason, note)
+      SELECT p.id, p.stock_quantity, p.stock_quantity, 'MANUAL_ADJUSTMENT', 'Opening balance'
+      FROM products p
+      WHERE p.stock_quantity <> 0
+        AND NOT EXISTS (SELECT 1 FROM stock_movements m WHERE m.product_id = p.id);
+    `);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable("stock_movements");
+  },
+};
@@ -0,0 +1,25 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      ALTER TABLE products
+        ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER CHECK (low_stock_threshold >= 0),
+        ADD COLUMN IF NOT EXISTS stock_alert_state VARCHAR(20) NOT NULL DEFAULT 'IN_STOCK'
+          CHECK (stock_alert_state IN ('IN_STOCK', 'LOW_STOCK', 'OUT_OF_STOCK'));
+    `);
+
+    // Products already out of stock should not alert again on their next sale
+    await queryInterface.sequelize.query(`
+      UPDATE products SET stock_alert_state = 'OUT_OF_STOCK' WHERE stock_quantity <= 0;
+    `);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      ALTER TABLE products
+        DROP COLUMN IF EXISTS stock_alert_state,
+        DROP COLUMN IF EXISTS low_stock_threshold;
+    `);
+  },
+};
@@ -0,0 +1,31 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS product_waitlist_entries (
+        id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+        product_id UUID NOT NULL REFERENCES products(id) ON UPDATE CASCADE ON DELETE CASCADE,
+        contact_type VARCHAR(20) NOT NULL CHECK (contact_type IN ('PHONE', 'ZALO', 'MESSENGER')),
+        contact_value VARCHAR(255) NOT NULL,
+        customer_name VARCHAR(255),
+        notified_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_product_waitlist_entries_product_notified ON product_waitlist_entries(product_id, notified_at);`);
+
+    // One pending entry per contact and product
+    await queryInterface.sequelize.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_product_waitlist_entries_pending_contact
+        ON product_waitlist_entries(product_id, contact_type, contact_value)
+        WHERE notified_at IS NULL;
+    `);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable("product_waitlist_entries");
+  },
+};
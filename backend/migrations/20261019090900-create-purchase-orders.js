@@ -0,0 +1,64 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS suppliers (
+        id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        contact_name VARCHAR(255),
+        phone_number VARCHAR(50),
+        email VARCHAR(255),
+        address TEXT,
+        notes TEXT,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_suppliers_name ON suppliers(name);`);
+
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS purchase_orders (
+        id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+        po_number VARCHAR(50) NOT NULL UNIQUE,
+        supplier_id UUID NOT NULL REFERENCES suppliers(id) ON UPDATE CASCADE ON DELETE RESTRICT,
+        status VARCHAR(20) NOT NULL DEFAULT 'DRAFT' CHECK (status IN ('DRAFT', 'ORDERED', 'PARTIALLY_RECEIVED', 'RECEIVED')),
+        total_cost DECIMAL(12,2) NOT NULL DEFAULT 0,
+        expected_arrival_at TIMESTAMPTZ,
+        ordered_at TIMESTAMPTZ,
+        received_at TIMESTAMPTZ,
+        notes TEXT,
+        created_by_admin_id CHAR(36) REFERENCES admin_users(id) ON UPDATE CASCADE ON DELETE SET NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON purchase_orders(supplier_id);`);
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_purchase_orders_status_expected_arrival ON purchase_orders(status, expected_arrival_at);`);
+
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS purchase_order_items (
+        id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+        purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON UPDATE CASCADE ON DELETE CASCADE,
+        product_id UUID NOT NULL REFERENCES products(id) ON UPDATE CASCADE ON DELETE RESTRICT,
+        quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+        quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0 AND quantity_received <= quantity_ordered),
+        unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_purchase_order_items_purchase_order_id ON purchase_order_items(purchase_order_id);`);
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_purchase_order_items_product_id ON purchase_order_items(product_id);`);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable("purchase_order_items");
+    await queryInterface.dropTable("purchase_orders");
+    await queryInterface.dropTable("suppliers");
+  },
+};
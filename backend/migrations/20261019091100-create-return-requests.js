@@ -0,0 +1,63 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS return_requests (
+        id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+        order_id UUID NOT NULL REFERENCES orders(id) ON UPDATE CASCADE ON DELETE CASCADE,
+        status VARCHAR(20) NOT NULL DEFAULT 'REQUESTED' CHECK (status IN ('REQUESTED', 'APPROVED', 'REJECTED', 'RECEIVED', 'REFUNDED')),
+        reason VARCHAR(20) NOT NULL CHECK (reason IN ('BROKEN', 'WRONG_COLOR', 'WRONG_ITEM', 'DEFECTIVE', 'CHANGED_MIND', 'OTHER')),
+        reason_note TEXT,
+        admin_note TEXT,
+        refund_amount DECIMAL(10,2) CHECK (refund_amount >= 0),
+        refund_payment_id UUID REFERENCES payments(id) ON UPDATE CASCADE ON DELETE SET NULL,
+        approved_at TIMESTAMPTZ,
+        rejected_at TIMESTAMPTZ,
+        received_at TIMESTAMPTZ,
+        refunded_at TIMESTAMPTZ,
+        created_by_admin_id CHAR(36) REFERENCES admin_users(id) ON UPDATE CASCADE ON DELETE SET NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_return_requests_order_id ON return_requests(order_id);`);
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_return_requests_status_created ON return_requests(status, created_at);`);
+
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS return_request_items (
+        id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+        return_request_id UUID NOT NULL REFERENCES return_requests(id) ON UPDATE CASCADE ON DELETE CASCADE,
+        order_item_id UUID NOT NULL REFERENCES order_items(id) ON UPDATE CASCADE ON DELETE CASCADE,
+        product_id UUID NOT NULL REFERENCES products(id) ON UPDATE CASCADE ON DELETE RESTRICT,
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        unit_price DECIMAL(10,2) NOT NULL DEFAULT 0,
+        disposition VARCHAR(20) CHECK (disposition IN ('RESTOCK', 'WRITE_OFF')),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_return_request_items_return_request_id ON return_request_items(return_request_id);`);
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_return_request_items_order_item_id ON return_request_items(order_item_id);`);
+
+    // Restocked returns are a stock movement of their own
+    await queryInterface.sequelize.query(`
+      ALTER TABLE stock_movements DROP CONSTRAINT IF EXISTS stock_movements_reason_check;
+      ALTER TABLE stock_movements ADD CONSTRAINT stock_movements_reason_check
+        CHECK (reason IN ('SALE', 'CANCELLATION', 'MANUAL_ADJUSTMENT', 'RESTOCK', 'RETURN', 'WRITE_OFF'));
+    `);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      UPDATE stock_movements SET reason = 'MANUAL_ADJUSTMENT' WHERE reason = 'RETURN';
+      ALTER TABLE stock_movements DROP CONSTRAINT IF EXISTS stock_movements_reason_check;
+      ALTER TABLE stock_movements ADD CONSTRAINT stock_movements_reason_check
+        CHECK (reason IN ('SALE', 'CANCELLATION', 'MANUAL_ADJUSTMENT', 'RESTOCK', 'WRITE_OFF'));
+    `);
+    await queryInterface.dropTable("return_request_items");
+    await queryInterface.dropTable("return_requests");
+  },
+};
@@ -0,0 +1,19 @@
+"use strict";
+
+// Customers created by the public checkout have no admin behind them
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      ALTER TABLE customers
+        ALTER COLUMN created_by_admin_id DROP NOT NULL;
+    `);
+  },
+
+  down: async (queryInterface) => {
+    // Fails while guest-created customers exist; reassign them first
+    await queryInterface.sequelize.query(`
+      ALTER TABLE customers
+        ALTER COLUMN created_by_admin_id SET NOT NULL;
+    `);
+  },
+};
@@ -0,0 +1,33 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    // One counter per shop calendar date (Asia/Ho_Chi_Minh)
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS order_number_sequences (
+        sequence_date DATE NOT NULL PRIMARY KEY,
+        last_value INTEGER NOT NULL DEFAULT 0 CHECK (last_value >= 0),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    // Continue after the highest number already issued for each date, so
+    // numbers freed by deleted orders are never handed out again
+    await queryInterface.sequelize.query(`
+      INSERT INTO order_number_sequences (sequence_date, last_value, updated_at)
+      SELECT
+        TO_DATE(SUBSTRING(order_number FROM 4 FOR 6), 'YYMMDD'),
+        MAX(SUBSTRING(order_number FROM 10)::integer),
+        NOW()
+      FROM orders
+      WHERE order_number ~ '^ORD[0-9]{10,}$'
+      GROUP BY 1
+      ON CONFLICT (sequence_date) DO UPDATE
+        SET last_value = GREATEST(order_number_sequences.last_value, EXCLUDED.last_value);
+    `);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable("order_number_sequences");
+  },
+};
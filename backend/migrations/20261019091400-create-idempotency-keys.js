@@ -0,0 +1,26 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+        scope VARCHAR(200) NOT NULL,
+        idempotency_key VARCHAR(255) NOT NULL,
+        fingerprint VARCHAR(64) NOT NULL,
+        status_code INTEGER,
+        response_body JSONB,
+        expires_at TIMESTAMPTZ NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await queryInterface.sequelize.query(`CREATE UNIQUE INDEX IF NOT EXISTS idx_idempotency_keys_scope_key ON idempotency_keys(scope, idempotency_key);`);
+    await queryInterface.sequelize.query(`CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);`);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable("idempotency_keys");
+  },
+};
@@ -0,0 +1,51 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      ALTER TABLE products
+        ADD COLUMN IF NOT EXISTS availability VARCHAR(20) NOT NULL DEFAULT 'IN_STOCK'
+          CHECK (availability IN ('IN_STOCK', 'COMING_SOON', 'PRE_ORDER')),
+        ADD COLUMN IF NOT EXISTS expected_release_date DATE;
+    `);
+
+    await queryInterface.sequelize.query(`
+      ALTER TABLE order_items
+        ADD COLUMN IF NOT EXISTS is_pre_order BOOLEAN NOT NULL DEFAULT false,
+        ADD COLUMN IF NOT EXISTS allocated_quantity INTEGER NOT NULL DEFAULT 0
+          CHECK (allocated_quantity >= 0);
+    `);
+
+    await queryInterface.sequelize.query(`
+      ALTER TABLE orders
+        ADD COLUMN IF NOT EXISTS deposit_amount DECIMAL(10, 2) NOT NULL DEFAULT 0
+          CHECK (deposit_amount >= 0);
+    `);
+
+    // Fulfilment queue: pre-order lines of a product still waiting for stock
+    await queryInterface.sequelize.query(`
+      CREATE INDEX IF NOT EXISTS idx_order_items_pre_order_queue
+        ON order_items (product_id, created_at)
+        WHERE is_pre_order = true AND allocated_quantity < quantity;
+    `);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      DROP INDEX IF EXISTS idx_order_items_pre_order_queue;
+    `);
+    await queryInterface.sequelize.query(`
+      ALTER TABLE orders DROP COLUMN IF EXISTS deposit_amount;
+    `);
+    await queryInterface.sequelize.query(`
+      ALTER TABLE order_items
+        DROP COLUMN IF EXISTS allocated_quantity,
+        DROP COLUMN IF EXISTS is_pre_order;
+    `);
+    await queryInterface.sequelize.query(`
+      ALTER TABLE products
+        DROP COLUMN IF EXISTS expected_release_date,
+        DROP COLUMN IF EXISTS availability;
+    `);
+  },
+};
@@ -0,0 +1,29 @@
+"use strict";
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      ALTER TABLE products
+        ADD COLUMN IF NOT EXISTS max_quantity_per_order INTEGER CHECK (max_quantity_per_order > 0),
+        ADD COLUMN IF NOT EXISTS max_quantity_per_customer INTEGER CHECK (max_quantity_per_customer > 0),
+        ADD COLUMN IF NOT EXISTS purchase_limit_window_days INTEGER CHECK (purchase_limit_window_days > 0);
+    `);
+
+    await queryInterface.sequelize.query(`
+      ALTER TABLE orders
+        ADD COLUMN IF NOT EXISTS purchase_limit_override BOOLEAN NOT NULL DEFAULT false;
+    `);
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.sequelize.query(`
+      ALTER TABLE orders DROP COLUMN IF EXISTS purchase_limit_override;
+    `);
+    await queryInterface.sequelize.query(`
+      ALTER TABLE products
+        DROP COLUMN IF EXISTS purchase_limit_window_days,
+        DROP COLUMN IF EXISTS max_quantity_per_customer,
+        DROP COLUMN IF EXISTS max_quantity_per_order;
+    `);
+  },
+};
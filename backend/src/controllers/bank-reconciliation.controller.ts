@@ -0,0 +1,125 @@
+import { logger } from "@/utils/logger";
+import { Request, Response } from "express";
+import multer from "multer";
+import { z } from "zod";
+import { ResponseHelper } from "../types/api";
+import {
+  confirmReconciliationMatches,
+  parseBankStatement,
+  reconcileStatement,
+} from "../services/bank-reconciliation.service";
+
+// Configure multer for memory storage
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB is plenty for a monthly statement
+  },
+  fileFilter: (req, file, cb) => {
+    if (!/\.(csv|txt)$/i.test(file.originalname)) {
+      return cb(new Error("Only CSV bank statements are allowed"));
+    }
+    cb(null, true);
+  },
+});
+
+// Validation schemas
+const confirmMatchesSchema = z.object({
+  matches: z
+    .array(
+      z.object({
+        orderId: z.string().uuid("Invalid order ID"),
+        amount: z.coerce.number().positive("Amount must be positive"),
+        reference: z.string().trim().max(100).nullable().optional(),
+        transactionDate: z.coerce.date().nullable().optional(),
+        description: z.string().optional(),
+      })
+    )
+    .min(1, "At least one match is required")
+    .max(200),
+});
+
+/**
+ * Upload a bank statement CSV and match its credits against open orders
+ */
+export const importBankStatement = async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res
+        .status(400)
+        .json(ResponseHelper.error("Statement file is required", "NO_FILE"));
+    }
+
+    const rows = parseBankStatement(req.file.buffer.toString("utf8"));
+    const result = await reconcileStatement(rows);
+
+    return res.status(200).json(ResponseHelper.success(result));
+  } catch (error: any) {
+    logger.error("Import bank statement error:", error);
+
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to import bank statement",
+          "IMPORT_BANK_STATEMENT_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Confirm statement matches: record payments and confirm pending orders
+ */
+export const confirmBankStatementMatches = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const validationResult = confirmMatchesSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const results = await confirmReconciliationMatches(
+      validationResult.data.matches,
+      req.user?.userId ?? null
+    );
+
+    return res.status(200).json(
+      ResponseHelper.success({
+        results,
+        confirmed: results.filter((result) => result.success).length,
+        failed: results.filter((result) => !result.success).length,
+      })
+    );
+  } catch (error: any) {
+    logger.error("Confirm bank statement matches error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to confirm bank statement matches",
+          "CONFIRM_BANK_STATEMENT_ERROR"
+        )
+      );
+  }
+};
+
+// Export multer middleware
+export const statementUploadMiddleware = upload.single("file");
@@ -0,0 +1,70 @@
+import { logger } from "@/utils/logger";
+import { Request, Response } from "express";
+import { z } from "zod";
+import { ResponseHelper } from "../types/api";
+import { placeGuestOrder } from "../services/checkout.service";
+import { isValidPhoneNumber } from "../utils/phoneValidation";
+
+// Validation schemas
+const checkoutSchema = z.object({
+  fullName: z.string().trim().min(1, "Full name is required").max(200),
+  phoneNumber: z
+    .string()
+    .trim()
+    .min(9, "Phone number is required")
+    .max(20)
+    .refine(isValidPhoneNumber, "Invalid phone number"),
+  deliveryAddress: z.object({
+    addressLine: z.string().trim().min(1, "Address line is required").max(500),
+    ward: z.string().trim().max(100).optional(),
+    district: z.string().trim().max(100).optional(),
+    city: z.string().trim().min(1, "City is required").max(100),
+  }),
+  items: z
+    .array(
+      z.object({
+        productId: z.string().uuid("Invalid product ID"),
+        quantity: z.coerce.number().int().positive("Quantity must be positive").max(100),
+        colorId: z.string().uuid("Invalid color ID").optional(),
+        unitPrice: z.coerce.number().nonnegative().optional(),
+      })
+    )
+    .min(1, "Cart is empty")
+    .max(50),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+/**
+ * Place an order from the storefront cart (public)
+ */
+export const checkout = async (req: Request, res: Response) => {
+  try {
+    const validationResult = checkoutSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const order = await placeGuestOrder(validationResult.data);
+
+    return res.status(201).json(ResponseHelper.success(order));
+  } catch (error: any) {
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+
+    logger.error("Checkout error:", error);
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to place order", "CHECKOUT_ERROR"));
+  }
+};
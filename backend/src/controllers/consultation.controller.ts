@@ -4,12 +4,25 @@ import { models, ConsultationStatus } from "../models";
 import { ConsultationService } from "../services/consultation.service";
 import { ApiResponse, ResponseHelper } from "../types/api";
 import { validateAndFormatPhone } from "../utils/phoneValidation";
+import { z } from "zod";
 
 import { socketService } from "../services/socket.service";
 
 // Initialize consultation service
 const consultationService = new ConsultationService();
 
+const convertToOrderSchema = z.object({
+  address: z
+    .object({
+      addressLine: z.string().trim().min(1, "Address line is required"),
+      ward: z.string().trim().nullable().optional(),
+      district: z.string().trim().nullable().optional(),
+      city: z.string().trim().min(1, "City is required"),
+    })
+    .optional(),
+  notes: z.string().optional(),
+});
+
 /**
  * Create a new consultation
  */
@@ -322,3 +335,69 @@ export const getPendingConsultationsCount = async (
     res.status(500).json(response);
   }
 };
+
+/**
+ * Convert a consultation into a pending order
+ */
+export const convertConsultationToOrder = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res
+        .status(401)
+        .json(ResponseHelper.error("Authentication required", "UNAUTHORIZED"));
+    }
+
+    const validationResult = convertToOrderSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const { order } = await consultationService.convertToOrder(
+      String(req.params.id),
+      { ...validationResult.data, adminId: req.user.userId }
+    );
+
+    const createdOrder = await models.Order.findByPk(order.id, {
+      include: [
+        {
+          model: models.Customer,
+          as: "customer",
+          attributes: ["id", "fullName"],
+          include: [
+            {
+              model: models.CustomerPhone,
+              as: "customerPhones",
+              attributes: ["id", "phoneNumber", "isMain"],
+            },
+          ],
+        },
+        { model: models.OrderItem, as: "items" },
+      ],
+    });
+
+    return res.status(201).json(ResponseHelper.success(createdOrder));
+  } catch (error: any) {
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+    logger.error("Error converting consultation to order:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to convert consultation to order",
+          "CONSULTATION_CONVERT_ERROR"
+        )
+      );
+  }
+};
@@ -0,0 +1,451 @@
+import { logger } from "@/utils/logger";
+import { Request, Response } from "express";
+import { Op } from "sequelize";
+import { z } from "zod";
+import { AdminUser, Coupon, CouponRedemption, CouponType, Product } from "../models";
+import { ResponseHelper } from "../types/api";
+import {
+  evaluateCoupon,
+  getCouponRedemptionCounts,
+  getCouponUsageReport as buildCouponUsageReport,
+  normalizeCouponCode,
+} from "../services/coupon.service";
+
+// Validation schemas
+const couponFieldsSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(3, "Code must be at least 3 characters")
+    .max(50)
+    .regex(/^[A-Za-z0-9_-]+$/, "Code may only contain letters, digits, - and _"),
+  name: z.string().trim().min(1).max(255),
+  description: z.string().trim().nullable().optional(),
+  type: z.nativeEnum(CouponType),
+  value: z.coerce.number().nonnegative().default(0),
+  maxDiscountAmount: z.coerce.number().positive().nullable().optional(),
+  minOrderValue: z.coerce.number().nonnegative().nullable().optional(),
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  isActive: z.boolean().optional(),
+  usageLimit: z.coerce.number().int().positive().nullable().optional(),
+  usageLimitPerCustomer: z.coerce.number().int().positive().nullable().optional(),
+  productIds: z.array(z.string().uuid("Invalid product ID")).max(500).optional(),
+  categoryIds: z.array(z.string().uuid("Invalid category ID")).max(100).optional(),
+});
+
+const validateCouponRules = (
+  data: Partial<z.infer<typeof couponFieldsSchema>>,
+  ctx: z.RefinementCtx
+) => {
+  if (data.type === CouponType.PERCENTAGE && data.value !== undefined) {
+    if (data.value <= 0 || data.value > 100) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["value"],
+        message: "Percentage must be between 0 and 100",
+      });
+    }
+  }
+  if (data.type === CouponType.FIXED_AMOUNT && data.value !== undefined && data.value <= 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["value"],
+      message: "Fixed discount must be greater than 0",
+    });
+  }
+  if (data.validFrom && data.validUntil && data.validFrom > data.validUntil) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["validUntil"],
+      message: "validUntil must be after validFrom",
+    });
+  }
+};
+
+const createCouponSchema = couponFieldsSchema.superRefine(validateCouponRules);
+const updateCouponSchema = couponFieldsSchema.partial().superRefine(validateCouponRules);
+
+const validateCouponSchema = z.object({
+  code: z.string().trim().min(1).max(50),
+  customerId: z.string().uuid("Invalid customer ID"),
+  items: z
+    .array(
+      z.object({
+        productId: z.string().uuid("Invalid product ID"),
+        quantity: z.coerce.number().int().positive(),
+        unitPrice: z.coerce.number().nonnegative().optional(),
+      })
+    )
+    .default([]),
+  // Custom orders have no items; their value is passed directly
+  subtotal: z.coerce.number().nonnegative().optional(),
+  originalShippingCost: z.coerce.number().nonnegative().default(0),
+  orderId: z.string().uuid().optional(),
+});
+
+const usageReportSchema = z.object({
+  couponId: z.string().uuid().optional(),
+  dateFrom: z.coerce.date().optional(),
+  dateTo: z.coerce.date().optional(),
+});
+
+/**
+ * Get all coupons with pagination, filters and live redemption counts
+ */
+export const getCoupons = async (req: Request, res: Response) => {
+  try {
+    const { page = "1", limit = "20", status = "all", search = "" } = req.query;
+
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const offset = (pageNum - 1) * limitNum;
+
+    const where: any = {};
+
+    if (status === "active") {
+      where.isActive = true;
+    } else if (status === "inactive") {
+      where.isActive = false;
+    }
+
+    if (search) {
+      where[Op.or] = [
+        { code: { [Op.iLike]: `%${search}%` } },
+        { name: { [Op.iLike]: `%${search}%` } },
+      ];
+    }
+
+    const { rows: coupons, count: totalCount } = await Coupon.findAndCountAll({
+      where,
+      order: [["createdAt", "DESC"]],
+      offset,
+      limit: limitNum,
+    });
+
+    const totalPages = Math.ceil(totalCount / limitNum);
+    const redemptionCounts = await getCouponRedemptionCounts(
+      coupons.map((coupon) => coupon.id)
+    );
+
+    return res.status(200).json(
+      ResponseHelper.paginated(
+        coupons.map((coupon) => ({
+          ...(coupon.toJSON() as any),
+          redemptionCount: redemptionCounts.get(coupon.id) ?? 0,
+        })),
+        {
+          current_page: pageNum,
+          per_page: limitNum,
+          total_pages: totalPages,
+          total_items: totalCount,
+          has_next: pageNum < totalPages,
+          has_prev: pageNum > 1,
+        }
+      )
+    );
+  } catch (error: any) {
+    logger.error("Get coupons error:", error);
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to retrieve coupons", "GET_COUPONS_ERROR"));
+  }
+};
+
+/**
+ * Get coupon by ID
+ */
+export const getCouponById = async (req: Request, res: Response) => {
+  try {
+    const coupon = await Coupon.findByPk(req.params.id, {
+      include: [
+        {
+          model: AdminUser,
+          as: "createdByAdmin",
+          attributes: ["id", "username"],
+        },
+      ],
+    });
+
+    if (!coupon) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Coupon not found", "COUPON_NOT_FOUND"));
+    }
+
+    const redemptionCounts = await getCouponRedemptionCounts([coupon.id]);
+
+    return res.status(200).json(
+      ResponseHelper.success({
+        ...(coupon.toJSON() as any),
+        redemptionCount: redemptionCounts.get(coupon.id) ?? 0,
+      })
+    );
+  } catch (error: any) {
+    logger.error("Get coupon error:", error);
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to retrieve coupon", "GET_COUPON_ERROR"));
+  }
+};
+
+/**
+ * Create coupon
+ */
+export const createCoupon = async (req: Request, res: Response) => {
+  try {
+    const validationResult = createCouponSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const data = validationResult.data;
+    const code = normalizeCouponCode(data.code);
+
+    if (await Coupon.findOne({ where: { code } })) {
+      return res
+        .status(409)
+        .json(ResponseHelper.error(`Coupon ${code} already exists`, "COUPON_CODE_EXISTS"));
+    }
+
+    const coupon = await Coupon.create({
+      code,
+      name: data.name,
+      description: data.description ?? null,
+      type: data.type,
+      value: data.type === CouponType.FREE_SHIPPING ? 0 : data.value,
+      maxDiscountAmount: data.maxDiscountAmount ?? null,
+      minOrderValue: data.minOrderValue ?? null,
+      validFrom: data.validFrom ?? null,
+      validUntil: data.validUntil ?? null,
+      isActive: data.isActive ?? true,
+      usageLimit: data.usageLimit ?? null,
+      usageLimitPerCustomer: data.usageLimitPerCustomer ?? null,
+      productIds: data.productIds ?? [],
+      categoryIds: data.categoryIds ?? [],
+      createdByAdminId: req.user?.userId ?? null,
+    });
+
+    return res.status(201).json(ResponseHelper.success(coupon));
+  } catch (error: any) {
+    logger.error("Create coupon error:", error);
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to create coupon", "CREATE_COUPON_ERROR"));
+  }
+};
+
+/**
+ * Update coupon. Changes apply to future orders only; existing orders keep
+ * the discount they were given.
+ */
+export const updateCoupon = async (req: Request, res: Response) => {
+  try {
+    const coupon = await Coupon.findByPk(req.params.id);
+    if (!coupon) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Coupon not found", "COUPON_NOT_FOUND"));
+    }
+
+    // Check type-dependent rules against the merged coupon
+    const validationResult = updateCouponSchema.safeParse({
+      type: coupon.type,
+      ...req.body,
+    });
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const { code: rawCode, ...data } = validationResult.data;
+    const updates: any = { ...data };
+
+    if (rawCode !== undefined) {
+      const code = normalizeCouponCode(rawCode);
+      const existing = await Coupon.findOne({
+        where: { code, id: { [Op.ne]: coupon.id } },
+      });
+      if (existing) {
+        return res
+          .status(409)
+          .json(ResponseHelper.error(`Coupon ${code} already exists`, "COUPON_CODE_EXISTS"));
+      }
+      updates.code = code;
+    }
+
+    if ((data.type ?? coupon.type) === CouponType.FREE_SHIPPING) {
+      updates.value = 0;
+    }
+
+    await coupon.update(updates);
+
+    return res.status(200).json(ResponseHelper.success(coupon));
+  } catch (error: any) {
+    logger.error("Update coupon error:", error);
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to update coupon", "UPDATE_COUPON_ERROR"));
+  }
+};
+
+/**
+ * Delete coupon. Coupons used by an order are kept for reporting and
+ * should be deactivated instead.
+ */
+export const deleteCoupon = async (req: Request, res: Response) => {
+  try {
+    const coupon = await Coupon.findByPk(req.params.id);
+    if (!coupon) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Coupon not found", "COUPON_NOT_FOUND"));
+    }
+
+    const redemptions = await CouponRedemption.count({ where: { couponId: coupon.id } });
+    if (redemptions > 0) {
+      return res
+        .status(409)
+        .json(
+          ResponseHelper.error(
+            "Coupon has been used by orders; deactivate it instead",
+            "COUPON_IN_USE",
+            { redemptions }
+          )
+        );
+    }
+
+    await coupon.destroy();
+
+    return res.status(200).json(ResponseHelper.success({ id: coupon.id }));
+  } catch (error: any) {
+    logger.error("Delete coupon error:", error);
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to delete coupon", "DELETE_COUPON_ERROR"));
+  }
+};
+
+/**
+ * Check a coupon against a prospective order and preview its discount
+ */
+export const validateCoupon = async (req: Request, res: Response) => {
+  try {
+    const validationResult = validateCouponSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const { code, customerId, items, subtotal, originalShippingCost, orderId } =
+      validationResult.data;
+
+    // Fill in catalogue prices for items without an explicit price
+    const missingPrices = items.filter((item) => item.unitPrice === undefined);
+    const products = missingPrices.length
+      ? await Product.findAll({
+          where: { id: { [Op.in]: missingPrices.map((item) => item.productId) } },
+          attributes: ["id", "unitPrice"],
+        })
+      : [];
+    const catalogue = new Map(products.map((p) => [p.id, Number(p.unitPrice)]));
+
+    const pricedItems = items.map((item) => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice ?? catalogue.get(item.productId) ?? 0,
+    }));
+
+    const evaluation = await evaluateCoupon(code, {
+      customerId,
+      items: pricedItems,
+      subtotal:
+        subtotal ??
+        pricedItems.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0),
+      originalShippingCost,
+      orderId,
+    });
+
+    return res.status(200).json(
+      ResponseHelper.success({
+        coupon: {
+          id: evaluation.coupon.id,
+          code: evaluation.coupon.code,
+          name: evaluation.coupon.name,
+          type: evaluation.coupon.type,
+        },
+        eligibleSubtotal: evaluation.eligibleSubtotal,
+        discountAmount: evaluation.discountAmount,
+        shippingDiscountAmount: evaluation.shippingDiscountAmount,
+      })
+    );
+  } catch (error: any) {
+    logger.error("Validate coupon error:", error);
+
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to validate coupon", "VALIDATE_COUPON_ERROR"));
+  }
+};
+
+/**
+ * Redemptions, discounts given and order revenue per coupon
+ */
+export const getCouponUsageReport = async (req: Request, res: Response) => {
+  try {
+    const validationResult = usageReportSchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const report = await buildCouponUsageReport(validationResult.data);
+
+    return res.status(200).json(ResponseHelper.success(report));
+  } catch (error: any) {
+    logger.error("Coupon usage report error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to build coupon usage report",
+          "COUPON_USAGE_REPORT_ERROR"
+        )
+      );
+  }
+};
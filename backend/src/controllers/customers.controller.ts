@@ -10,6 +10,8 @@ const {
   Order,
   OrderItem,
   Product,
+  ReturnRequest,
+  ReturnRequestItem,
 } = models;
 
 import { ResponseHelper } from "../types/api";
@@ -790,10 +792,23 @@ export const getCustomerOrders = async (req: Request, res: Response) => {
             },
           ],
         },
+        {
+          model: ReturnRequest,
+          as: "returnRequests",
+          attributes: ["id", "status", "reason", "refundAmount", "createdAt"],
+          include: [
+            {
+              model: ReturnRequestItem,
+              as: "items",
+              attributes: ["id", "orderItemId", "quantity", "disposition"],
+            },
+          ],
+        },
       ],
       order: [["createdAt", "DESC"]],
       offset,
       limit: limitNum,
+      distinct: true,
     });
 
     const totalPages = Math.ceil(totalCount / limitNum);
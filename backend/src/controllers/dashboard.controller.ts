@@ -8,6 +8,15 @@ import { ResponseHelper } from "../types/api";
 import { Op, QueryTypes } from "sequelize";
 import { sequelize } from "../config/database";
 import { productAnalyticsService } from "../services/productAnalytics.service";
+import {
+  getCategoryProfits,
+  getMonthlyProfits,
+  getOrderProfits,
+  getProductProfits,
+  getProfitSummary,
+  ProfitRange,
+} from "../services/profit.service";
+import { getRefundedAmount } from "../services/return.service";
 
 interface TopCustomerQueryResult {
   customerId: number;
@@ -68,8 +77,17 @@ export const getRevenueData = async (req: Request, res: Response) => {
     const nextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
 
     // Get revenue data in parallel
-    const [totalRevenue, thisMonthRevenue, lastMonthRevenue] =
-      await Promise.all([
+    const [
+      totalRevenue,
+      thisMonthRevenue,
+      lastMonthRevenue,
+      totalProfit,
+      thisMonthProfit,
+      lastMonthProfit,
+      totalRefunds,
+      thisMonthRefunds,
+      lastMonthRefunds,
+    ] = await Promise.all([
         // Total revenue from all completed orders (DELIVERED or other completion statuses)
         Order.sum("totalAmount", {
           where: {
@@ -98,11 +116,21 @@ export const getRevenueData = async (req: Request, res: Response) => {
             },
           },
         }),
+
+        // Gross profit for the same periods
+        getProfitSummary(),
+        getProfitSummary({ dateFrom: currentMonth, dateTo: nextMonth }),
+        getProfitSummary({ dateFrom: lastMonth, dateTo: currentMonth }),
+
+        // Refunds on returns, netted off the revenue
+        getRefundedAmount(),
+        getRefundedAmount({ dateFrom: currentMonth, dateTo: nextMonth }),
+        getRefundedAmount({ dateFrom: lastMonth, dateTo: currentMonth }),
       ]);
 
-    const total = Number(totalRevenue || 0);
-    const thisMonth = Number(thisMonthRevenue || 0);
-    const lastMonthAmount = Number(lastMonthRevenue || 0);
+    const total = Number(totalRevenue || 0) - totalRefunds;
+    const thisMonth = Number(thisMonthRevenue || 0) - thisMonthRefunds;
+    const lastMonthAmount = Number(lastMonthRevenue || 0) - lastMonthRefunds;
 
     // Calculate growth percentage
     const growth =
@@ -117,6 +145,14 @@ export const getRevenueData = async (req: Request, res: Response) => {
       thisMonthRevenue: thisMonth,
       lastMonthRevenue: lastMonthAmount,
       growth: Math.round(growth * 10) / 10, // Round to 1 decimal place
+      totalRefunds,
+      thisMonthRefunds,
+      totalGrossProfit: totalProfit.grossProfit,
+      thisMonthGrossProfit: thisMonthProfit.grossProfit,
+      lastMonthGrossProfit: lastMonthProfit.grossProfit,
+      totalMargin: totalProfit.margin,
+      thisMonthMargin: thisMonthProfit.margin,
+      lastMonthMargin: lastMonthProfit.margin,
     };
 
     return res.status(200).json(ResponseHelper.success(revenueData));
@@ -207,6 +243,15 @@ export const getStatistics = async (req: Request, res: Response) => {
       topAddToCartProducts,
       topConversionProducts,
       analyticsummary,
+
+      // Gross profit
+      totalProfit,
+      currentPeriodProfit,
+
+      // Refunds on returns
+      totalRefunds,
+      currentPeriodRefunds,
+      lastPeriodRefunds,
     ] = await Promise.all([
       // Total products sold (all time)
       sequelize
@@ -369,8 +414,26 @@ export const getStatistics = async (req: Request, res: Response) => {
       productAnalyticsService.getTopAddedToCartProducts(10),
       productAnalyticsService.getTopConversionProducts(10),
       productAnalyticsService.getAnalyticsSummary(),
+
+      // Gross profit
+      getProfitSummary(),
+      getProfitSummary({ dateFrom: dateRange.current.gte }),
+
+      // Refunds on returns
+      getRefundedAmount(),
+      getRefundedAmount({ dateFrom: dateRange.current.gte }),
+      getRefundedAmount({
+        dateFrom: dateRange.last.gte,
+        dateTo: dateRange.last.lt,
+      }),
     ]);
 
+    // Net revenue after refunds
+    const netTotalRevenue = Number(totalRevenue || 0) - totalRefunds;
+    const netCurrentPeriodRevenue =
+      Number(currentPeriodRevenue || 0) - currentPeriodRefunds;
+    const netLastPeriodRevenue = Number(lastPeriodRevenue || 0) - lastPeriodRefunds;
+
     const topProductsDetails = (topSellingProducts as any[]).map((item: any) => ({
       id: item.productId,
       name: item.productName || "Unknown",
@@ -399,12 +462,11 @@ export const getStatistics = async (req: Request, res: Response) => {
           : 0;
 
     const revenueGrowth =
-      Number(lastPeriodRevenue || 0) > 0
-        ? ((Number(currentPeriodRevenue || 0) -
-            Number(lastPeriodRevenue || 0)) /
-            Number(lastPeriodRevenue || 1)) *
+      netLastPeriodRevenue > 0
+        ? ((netCurrentPeriodRevenue - netLastPeriodRevenue) /
+            netLastPeriodRevenue) *
           100
-        : Number(currentPeriodRevenue || 0) > 0
+        : netCurrentPeriodRevenue > 0
           ? 100
           : 0;
 
@@ -419,13 +481,19 @@ export const getStatistics = async (req: Request, res: Response) => {
       period,
       overview: {
         totalProductsSold: Number(totalSoldProducts || 0),
-        totalRevenue: Number(totalRevenue || 0),
+        totalRevenue: netTotalRevenue,
         currentPeriodSales: Number(currentPeriodSales || 0),
-        currentPeriodRevenue: Number(currentPeriodRevenue || 0),
+        currentPeriodRevenue: netCurrentPeriodRevenue,
+        currentPeriodRefunds,
         currentPeriodOrders: currentPeriodOrders,
         salesGrowth: Math.round(salesGrowth * 10) / 10,
         revenueGrowth: Math.round(revenueGrowth * 10) / 10,
         ordersGrowth: Math.round(ordersGrowth * 10) / 10,
+        totalGrossProfit: totalProfit.grossProfit,
+        totalMargin: totalProfit.margin,
+        currentPeriodGrossProfit: currentPeriodProfit.grossProfit,
+        currentPeriodMargin: currentPeriodProfit.margin,
+        currentPeriodShippingSubsidy: currentPeriodProfit.shippingSubsidy,
       },
       topSellingProducts: topProductsDetails,
       topCustomers: topCustomersDetails,
@@ -487,13 +555,25 @@ export const getTopSellingProducts = async (req: Request, res: Response) => {
       { replacements: [limit, offset], type: QueryTypes.SELECT }
     );
 
-    const validProducts = (topSellingProducts as any[]).map((item: any) => ({
-      id: item.productId,
-      name: item.productName || "Unknown",
-      slug: item.productSlug,
-      capacity: item.capacityName || "N/A",
-      totalSold: parseInt(item.totalQuantity),
-    }));
+    const profits = await getProductProfits(
+      {},
+      { productIds: (topSellingProducts as any[]).map((item: any) => item.productId) }
+    );
+    const profitsByProduct = new Map(profits.map((profit) => [profit.productId, profit]));
+
+    const validProducts = (topSellingProducts as any[]).map((item: any) => {
+      const profit = profitsByProduct.get(item.productId);
+      return {
+        id: item.productId,
+        name: item.productName || "Unknown",
+        slug: item.productSlug,
+        capacity: item.capacityName || "N/A",
+        totalSold: parseInt(item.totalQuantity),
+        revenue: profit?.revenue ?? 0,
+        grossProfit: profit?.grossProfit ?? 0,
+        margin: profit?.margin ?? 0,
+      };
+    });
 
     return res.json({
       success: true,
@@ -509,3 +589,132 @@ export const getTopSellingProducts = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * Parse the dateFrom / dateTo query of the profit reports
+ */
+const parseProfitRange = (query: Request["query"]): ProfitRange => {
+  const parseDate = (value: unknown) => {
+    if (typeof value !== "string" || !value) return undefined;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  };
+
+  return {
+    dateFrom: parseDate(query.dateFrom),
+    dateTo: parseDate(query.dateTo),
+  };
+};
+
+/**
+ * Get gross profit and margin of delivered orders
+ */
+export const getProfitByOrder = async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const page = parseInt(req.query.page as string) || 1;
+    const range = parseProfitRange(req.query);
+
+    const [{ orders, total }, summary] = await Promise.all([
+      getOrderProfits(range, { page, limit }),
+      getProfitSummary(range),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return res.status(200).json(
+      ResponseHelper.success({
+        summary,
+        orders,
+        pagination: {
+          current_page: page,
+          per_page: limit,
+          total_pages: totalPages,
+          total_items: total,
+          has_next: page < totalPages,
+          has_prev: page > 1,
+        },
+      })
+    );
+  } catch (error) {
+    logger.error("Get profit by order error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to get profit by order",
+          "GET_PROFIT_BY_ORDER_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Get gross profit and margin per product, most profitable first
+ */
+export const getProfitByProduct = async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const page = parseInt(req.query.page as string) || 1;
+    const offset = (page - 1) * limit;
+
+    const products = await getProductProfits(parseProfitRange(req.query), {
+      limit,
+      offset,
+    });
+
+    return res.status(200).json(ResponseHelper.success(products));
+  } catch (error) {
+    logger.error("Get profit by product error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to get profit by product",
+          "GET_PROFIT_BY_PRODUCT_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Get gross profit and margin per category
+ */
+export const getProfitByCategory = async (req: Request, res: Response) => {
+  try {
+    const categories = await getCategoryProfits(parseProfitRange(req.query));
+
+    return res.status(200).json(ResponseHelper.success(categories));
+  } catch (error) {
+    logger.error("Get profit by category error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to get profit by category",
+          "GET_PROFIT_BY_CATEGORY_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Get gross profit and margin per month
+ */
+export const getProfitByMonth = async (req: Request, res: Response) => {
+  try {
+    const months = await getMonthlyProfits(parseProfitRange(req.query));
+
+    return res.status(200).json(ResponseHelper.success(months));
+  } catch (error) {
+    logger.error("Get profit by month error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to get profit by month",
+          "GET_PROFIT_BY_MONTH_ERROR"
+        )
+      );
+  }
+};
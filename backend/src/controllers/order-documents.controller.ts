@@ -0,0 +1,102 @@
+import { logger } from "@/utils/logger";
+import { Request, Response } from "express";
+import { z } from "zod";
+import { ResponseHelper } from "../types/api";
+import {
+  OrderDocumentType,
+  renderOrderDocuments,
+} from "../services/order-document.service";
+
+const MAX_BULK_ORDERS = 100;
+
+// Validation schemas
+const printDocumentsSchema = z.object({
+  orderIds: z
+    .array(z.string().uuid("Invalid order ID"))
+    .min(1, "At least one order is required")
+    .max(MAX_BULK_ORDERS, `At most ${MAX_BULK_ORDERS} orders per print`),
+  document: z.enum(["invoice", "packing-slip"]),
+});
+
+const sendPdf = async (
+  res: Response,
+  orderIds: string[],
+  type: OrderDocumentType,
+  filename: string
+) => {
+  const pdf = await renderOrderDocuments(orderIds, type);
+
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+  return res.status(200).send(pdf);
+};
+
+const handleDocumentError = (res: Response, error: any) => {
+  if (error.status && error.code) {
+    return res
+      .status(error.status)
+      .json(ResponseHelper.error(error.message, error.code, error.details));
+  }
+
+  return res
+    .status(500)
+    .json(
+      ResponseHelper.error(
+        "Failed to generate order document",
+        "ORDER_DOCUMENT_ERROR"
+      )
+    );
+};
+
+/**
+ * Get invoice PDF of an order
+ */
+export const getOrderInvoicePdf = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    return await sendPdf(res, [id], "invoice", `invoice-${id}.pdf`);
+  } catch (error: any) {
+    logger.error("Get order invoice error:", error);
+    return handleDocumentError(res, error);
+  }
+};
+
+/**
+ * Get packing slip PDF of an order
+ */
+export const getOrderPackingSlipPdf = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    return await sendPdf(res, [id], "packing-slip", `packing-slip-${id}.pdf`);
+  } catch (error: any) {
+    logger.error("Get order packing slip error:", error);
+    return handleDocumentError(res, error);
+  }
+};
+
+/**
+ * Print invoices or packing slips of many orders into one PDF
+ */
+export const printOrderDocuments = async (req: Request, res: Response) => {
+  try {
+    const validationResult = printDocumentsSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const { orderIds, document } = validationResult.data;
+    return await sendPdf(res, orderIds, document, `${document}s.pdf`);
+  } catch (error: any) {
+    logger.error("Print order documents error:", error);
+    return handleDocumentError(res, error);
+  }
+};
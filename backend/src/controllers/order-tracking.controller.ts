@@ -0,0 +1,52 @@
+import { logger } from "@/utils/logger";
+import { Request, Response } from "express";
+import { z } from "zod";
+import { ResponseHelper } from "../types/api";
+import { trackOrder as findTrackedOrder } from "../services/order-tracking.service";
+
+// Validation schemas
+const trackOrderSchema = z.object({
+  orderNumber: z
+    .string()
+    .trim()
+    .min(1, "Order number is required")
+    .max(40)
+    .regex(/^[A-Z0-9-]+$/i, "Invalid order number"),
+  phone: z.string().trim().min(6, "Phone number is required").max(20),
+});
+
+/**
+ * Look up an order by its number and a phone on the order (public)
+ */
+export const trackOrder = async (req: Request, res: Response) => {
+  try {
+    const validationResult = trackOrderSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const { orderNumber, phone } = validationResult.data;
+    const order = await findTrackedOrder(orderNumber, phone);
+
+    return res.status(200).json(ResponseHelper.success(order));
+  } catch (error: any) {
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code));
+    }
+
+    logger.error("Track order error:", error);
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to look up order", "TRACK_ORDER_ERROR"));
+  }
+};
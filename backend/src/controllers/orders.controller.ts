@@ -1,25 +1,77 @@
 import { logger } from "@/utils/logger";
 import { Request, Response } from "express";
-import { models, OrderType, OrderStatus } from "../models";
+import {
+  models,
+  OrderType,
+  OrderStatus,
+  PaymentMethod,
+  PriceChangeSource,
+  ProductAvailability,
+  StockMovementReason,
+} from "../models";
 
 const {
+  AdminUser,
   Order,
   OrderItem,
+  OrderStatusHistory,
+  Payment,
   Customer,
   CustomerPhone,
   Product,
-  ProductImage,
-  Capacity,
-  Category,
-  ProductCategory,
-  ProductColor,
-  Color,
+  CouponRedemption,
 } = models;
 
 import { ResponseHelper } from "../types/api";
 import { z } from "zod";
 import { sequelize } from "../config/database";
 import { Op } from "sequelize";
+import {
+  bulkChangeOrderStatus,
+  changeOrderStatus,
+  getOrderStatusHistory,
+  recordOrderCreated,
+} from "../services/order-status.service";
+import {
+  getDepositDue,
+  getOrderPaymentSummaries,
+  summarizeOrderPayments,
+} from "../services/payment.service";
+import {
+  ShippingFeeBreakdown,
+  suggestShippingFee,
+} from "../services/shipping-fee.service";
+import {
+  CouponEvaluation,
+  evaluateCoupon,
+  recalculateRedeemedCoupon,
+  saveOrderCouponRedemption,
+} from "../services/coupon.service";
+import { getEffectivePrice, setProductPrice } from "../services/product-price.service";
+import { generateOrderNumber } from "../services/order-number.service";
+import { buildProductSnapshot } from "../services/order-items.service";
+import { adjustStock } from "../services/stock.service";
+import { getRestockedQuantities, hasActiveReturns } from "../services/return.service";
+import {
+  allocatePreOrders,
+  getStockedQuantity,
+  takeOrderItemStock,
+} from "../services/pre-order.service";
+import {
+  describePurchaseLimitOverride,
+  enforcePurchaseLimits,
+  PurchaseLimitLine,
+  PurchaseLimitViolation,
+} from "../services/purchase-limit.service";
+import {
+  getOrderExportHeader,
+  getOrderExportRows,
+} from "../services/order-export.service";
+import { formatCsvRow } from "../utils/csv";
+import { writeXlsx } from "../utils/xlsx";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { v4 as uuidv4 } from "uuid";
 
 // Validation schemas
 const createOrderItemSchema = z.object({
@@ -50,6 +102,11 @@ const createOrderSchema = z
     originalShippingCost: z.number().nonnegative().optional(),
     shippingDiscount: z.number().nonnegative().optional(),
     shippingCost: z.number().nonnegative().optional(),
+    couponCode: z.string().trim().min(1).max(50).optional(),
+    // Required up front, e.g. to secure a pre-order
+    depositAmount: z.number().nonnegative().optional(),
+    // Place the order even past the products' purchase limits
+    overridePurchaseLimits: z.boolean().optional(),
   })
   .refine(
     (data) => {
@@ -100,6 +157,17 @@ const updateOrderStatusSchema = z.object({
   notes: z.string().optional(),
 });
 
+const bulkUpdateOrdersSchema = z
+  .object({
+    orderIds: z.array(z.string().uuid("Invalid order ID")).min(1).max(100),
+    status: updateOrderStatusSchema.shape.status.optional(),
+    notes: z.string().trim().min(1).optional(),
+  })
+  .refine((data) => data.status || data.notes, {
+    message: "Provide a status, a note, or both",
+    path: ["status"],
+  });
+
 const updateOrderSchema = z.object({
   paymentMethod: z
     .enum([
@@ -134,90 +202,72 @@ const updateOrderSchema = z.object({
   originalShippingCost: z.number().nonnegative().optional(),
   shippingDiscount: z.number().nonnegative().optional(),
   shippingCost: z.number().nonnegative().optional(),
+  // null removes the coupon, omitted keeps the current one
+  couponCode: z.string().trim().min(1).max(50).nullable().optional(),
+  depositAmount: z.number().nonnegative().optional(),
+  overridePurchaseLimits: z.boolean().optional(),
 });
 
 /**
- * Generate unique order number (must be called inside a transaction)
+ * Order list filters from the query string, shared by the list and export
  */
-async function generateOrderNumber(transaction?: any): Promise<string> {
-  const date = new Date();
-  const year = date.getFullYear().toString().slice(-2);
-  const month = (date.getMonth() + 1).toString().padStart(2, "0");
-  const day = date.getDate().toString().padStart(2, "0");
-
-  // Count orders created today within the transaction to prevent race conditions
-  const startOfDay = new Date(
-    date.getFullYear(),
-    date.getMonth(),
-    date.getDate()
-  );
-  const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
+const buildOrderListWhere = (query: Request["query"]) => {
+  const {
+    status = "all",
+    customerId,
+    orderType = "all",
+    search = "",
+    dateFrom,
+    dateTo,
+  } = query;
+
+  const where: any = {};
+
+  if (status !== "all") {
+    where.status = (status as string).toUpperCase();
+  }
 
-  const todayOrderCount = await Order.count({
-    where: {
-      createdAt: {
-        [Op.gte]: startOfDay,
-        [Op.lt]: endOfDay,
-      },
-    },
-    ...(transaction ? { transaction, lock: true } : {}),
-  });
+  if (customerId) {
+    where.customerId = customerId;
+  }
 
-  const sequence = (todayOrderCount + 1).toString().padStart(4, "0");
-  return `ORD${year}${month}${day}${sequence}`;
-}
+  if (orderType !== "all") {
+    where.orderType = (orderType as string).toUpperCase();
+  }
+
+  if (search) {
+    where[Op.or] = [{ orderNumber: { [Op.like]: `%${search}%` } }];
+  }
+
+  // Date range filtering
+  if (dateFrom || dateTo) {
+    where.createdAt = {};
+    if (dateFrom) {
+      where.createdAt[Op.gte] = new Date(dateFrom as string);
+    }
+    if (dateTo) {
+      // Add 1 day to include the end date
+      const endDate = new Date(dateTo as string);
+      endDate.setDate(endDate.getDate() + 1);
+      where.createdAt[Op.lt] = endDate;
+    }
+  }
+
+  return where;
+};
 
 /**
  * Get all orders with pagination and filters
  */
 export const getOrders = async (req: Request, res: Response) => {
   try {
-    const {
-      page = "1",
-      limit = "20",
-      status = "all",
-      customerId,
-      orderType = "all",
-      search = "",
-      dateFrom,
-      dateTo,
-    } = req.query;
+    const { page = "1", limit = "20" } = req.query;
 
     const pageNum = parseInt(page as string);
     const limitNum = parseInt(limit as string);
     const offset = (pageNum - 1) * limitNum;
 
-    const where: any = {};
-
-    if (status !== "all") {
-      where.status = (status as string).toUpperCase();
-    }
-
-    if (customerId) {
-      where.customerId = customerId;
-    }
-
-    if (orderType !== "all") {
-      where.orderType = (orderType as string).toUpperCase();
-    }
-
-    if (search) {
-      where[Op.or] = [{ orderNumber: { [Op.like]: `%${search}%` } }];
-    }
-
-    // Date range filtering
-    if (dateFrom || dateTo) {
-      where.createdAt = {};
-      if (dateFrom) {
-        where.createdAt[Op.gte] = new Date(dateFrom as string);
-      }
-      if (dateTo) {
-        // Add 1 day to include the end date
-        const endDate = new Date(dateTo as string);
-        endDate.setDate(endDate.getDate() + 1);
-        where.createdAt[Op.lt] = endDate;
-      }
-    }
+    const where = buildOrderListWhere(req.query);
 
     const [orders, totalCount] = await Promise.all([
       Order.findAll({
@@ -255,12 +305,14 @@ export const getOrders = async (req: Request, res: Response) => {
     ]);
 
     const totalPages = Math.ceil(totalCount / limitNum);
+    const paymentSummaries = await getOrderPaymentSummaries(orders);
 
     // Add _count.items for frontend compatibility
     const ordersWithCount = orders.map((order) => {
       const orderJson = order.toJSON() as any;
       return {
         ...orderJson,
+        paymentStatus: paymentSummaries.get(order.id)?.paymentStatus,
         _count: {
           items: orderJson.items?.length || 0,
         },
@@ -287,6 +339,74 @@ export const getOrders = async (req: Request, res: Response) => {
   }
 };
 
+const exportOrdersQuerySchema = z.object({
+  format: z.enum(["csv", "xlsx"]).default("csv"),
+  rows: z.enum(["order", "item"]).default("order"),
+});
+
+/**
+ * Export the orders matching the list filters as CSV or XLSX, one row per
+ * order or per order item. The file is streamed as orders are read.
+ */
+export const exportOrders = async (req: Request, res: Response) => {
+  const validation = exportOrdersQuerySchema.safeParse(req.query);
+  if (!validation.success) {
+    return res
+      .status(400)
+      .json(
+        ResponseHelper.error(
+          "Validation failed",
+          "VALIDATION_ERROR",
+          validation.error.issues
+        )
+      );
+  }
+
+  const { format, rows } = validation.data;
+  const where = buildOrderListWhere(req.query);
+  const header = getOrderExportHeader(rows);
+  const exportRows = getOrderExportRows(where, rows);
+  const fileName = `orders-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  try {
+    res.status(200);
+    res.setHeader(
+      "Content-Type",
+      format === "xlsx"
+        ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        : "text/csv; charset=utf-8"
+    );
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+
+    if (format === "xlsx") {
+      await writeXlsx(res, { sheetName: "Orders", header, rows: exportRows });
+      return res.end();
+    }
+
+    return await pipeline(
+      Readable.from(
+        (async function* () {
+          // BOM so Excel opens the UTF-8 text correctly
+          yield "\uFEFF" + formatCsvRow(header);
+          for await (const row of exportRows) yield formatCsvRow(row);
+        })()
+      ),
+      res
+    );
+  } catch (error: any) {
+    logger.error("Export orders error:", error);
+    if (!res.headersSent) {
+      return res
+        .status(500)
+        .json(
+          ResponseHelper.error("Failed to export orders", "EXPORT_ORDERS_ERROR")
+        );
+    }
+    // Part of the file is already out; cut the download short
+    return res.destroy();
+  }
+};
+
 /**
  * Get order by ID
  */
@@ -331,6 +451,32 @@ export const getOrderById = async (req: Request, res: Response) => {
             },
           ],
         },
+        {
+          model: OrderStatusHistory,
+          as: "statusHistory",
+          include: [
+            {
+              model: AdminUser,
+              as: "changedByAdmin",
+              attributes: ["id", "username", "email"],
+            },
+          ],
+        },
+        {
+          model: Payment,
+          as: "payments",
+          include: [
+            {
+              model: AdminUser,
+              as: "recordedByAdmin",
+              attributes: ["id", "username", "email"],
+            },
+          ],
+        },
+      ],
+      order: [
+        [{ model: OrderStatusHistory, as: "statusHistory" }, "createdAt", "ASC"],
+        [{ model: Payment, as: "payments" }, "createdAt", "ASC"],
       ],
     });
 
@@ -340,7 +486,20 @@ export const getOrderById = async (req: Request, res: Response) => {
         .json(ResponseHelper.error("Order not found", "ORDER_NOT_FOUND"));
     }
 
-    return res.status(200).json(ResponseHelper.success(order));
+    const paymentSummary = summarizeOrderPayments(
+      order.totalAmount,
+      order.payments || []
+    );
+
+    return res.status(200).json(
+      ResponseHelper.success({
+        ...(order.toJSON() as any),
+        paymentSummary: {
+          ...paymentSummary,
+          depositDue: getDepositDue(order.depositAmount, paymentSummary),
+        },
+      })
+    );
   } catch (error: any) {
     logger.error("Get order error:", error);
     return res
@@ -351,6 +510,36 @@ export const getOrderById = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Get order status history (timeline)
+ */
+export const getOrderHistory = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const order = await Order.findByPk(id, { attributes: ["id"] });
+    if (!order) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Order not found", "ORDER_NOT_FOUND"));
+    }
+
+    const history = await getOrderStatusHistory(id);
+
+    return res.status(200).json(ResponseHelper.success(history));
+  } catch (error: any) {
+    logger.error("Get order history error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to retrieve order history",
+          "GET_ORDER_HISTORY_ERROR"
+        )
+      );
+  }
+};
+
 /**
  * Create new order
  */
@@ -378,17 +567,24 @@ export const createOrder = async (req: Request, res: Response) => {
       totalAmount,
       notes,
       items,
-      originalShippingCost = 0,
-      shippingDiscount = 0,
+      couponCode,
+      depositAmount,
+      overridePurchaseLimits,
     } = validationResult.data;
 
-    // Calculate shipping cost
-    const shippingCost = Math.max(0, originalShippingCost - shippingDiscount);
+    let shippingFeeSuggestion: ShippingFeeBreakdown | null = null;
 
     // Create order with items in a transaction (stock check + snapshot inside transaction)
     const order = await sequelize.transaction(async (t) => {
+      // Known up front so stock movements can reference the order
+      const orderId = uuidv4();
       let calculatedTotalAmount = totalAmount || 0;
       const orderItems: any[] = [];
+      // Base price changes requested with updateBasePrice, applied once the
+      // order exists so the history can point at it
+      const basePriceOverrides: { product: any; unitPrice: number }[] = [];
+      const limitLines: PurchaseLimitLine[] = [];
+      let overriddenLimits: PurchaseLimitViolation[] = [];
 
       if (orderType === "product" && items && items.length > 0) {
         // Validate products and calculate total inside transaction with row lock
@@ -403,75 +599,97 @@ export const createOrder = async (req: Request, res: Response) => {
             throw { status: 400, code: "PRODUCT_NOT_FOUND", message: `Product with ID ${item.productId} not found` };
           }
 
-          if (product.stockQuantity < item.quantity) {
-            throw { status: 400, code: "INSUFFICIENT_STOCK", message: `Insufficient stock for product ${product.name}. Available: ${product.stockQuantity}, Requested: ${item.quantity}` };
-          }
-
-          // Load associations inside transaction
-          const [capacity, productCategories, productColors, productImages] =
-            await Promise.all([
-              product.capacityId ? Capacity.findByPk(product.capacityId, { transaction: t }) : null,
-              ProductCategory.findAll({
-                where: { productId: item.productId },
-                include: [{ model: Category, as: "category" }],
-                transaction: t,
-              }),
-              ProductColor.findAll({
-                where: { productId: item.productId },
-                include: [{ model: Color, as: "color" }],
-                transaction: t,
-              }),
-              ProductImage.findAll({
-                where: { productId: item.productId },
-                limit: 1,
-                order: [["createdAt", "ASC"]],
-                transaction: t,
-              }),
-            ]);
+          // Pre-order items wait for stock instead of taking it now
+          const { isPreOrder } = await takeOrderItemStock(product, item.quantity, {
+            reason: StockMovementReason.SALE,
+            referenceId: orderId,
+            adminId: req.user?.userId ?? null,
+            transaction: t,
+          });
 
-          const unitPrice = item.unitPrice || product.unitPrice;
+          const unitPrice = item.unitPrice || (await getEffectivePrice(product, t));
+          if (item.updateBasePrice && item.unitPrice !== undefined) {
+            basePriceOverrides.push({ product, unitPrice: item.unitPrice });
+          }
           const itemTotal = unitPrice * item.quantity;
           calculatedTotalAmount += itemTotal;
 
           // Create complete product snapshot for historical record
-          const productSnapshot = {
-            id: product.id,
-            name: product.name,
-            slug: product.slug,
-            description: product.description,
-            basePrice: product.unitPrice,
-            unitPrice,
-            requestedColor: item.requestedColor,
-            capacity: capacity
-              ? { id: capacity.id, name: capacity.name, slug: capacity.slug, volumeMl: capacity.volumeMl }
-              : null,
-            categories: productCategories
-              .filter((pc) => pc.category)
-              .map((pc) => ({ id: pc.category.id, name: pc.category.name, slug: pc.category.slug })),
-            colors: productColors
-              .filter((pc) => pc.color)
-              .map((pc) => ({ id: pc.color.id, name: pc.color.name, slug: pc.color.slug, hexCode: pc.color.hexCode })),
-            image: productImages.length > 0
-              ? { id: productImages[0].id, url: productImages[0].url, altText: productImages[0].altText }
-              : null,
-            snapshotCreatedAt: new Date().toISOString(),
-          };
-
-          orderItems.push({ productId: item.productId, quantity: item.quantity, productSnapshot });
-
-          // Update stock immediately (row is already locked)
-          await product.update(
-            { stockQuantity: product.stockQuantity - item.quantity },
-            { transaction: t }
+          const productSnapshot = await buildProductSnapshot(
+            product,
+            { unitPrice, requestedColor: item.requestedColor },
+            t
           );
+
+          orderItems.push({ productId: item.productId, quantity: item.quantity, productSnapshot, isPreOrder });
+          limitLines.push({ product, quantity: item.quantity });
         }
+
+        overriddenLimits = await enforcePurchaseLimits(customerId, limitLines, {
+          override: overridePurchaseLimits,
+          transaction: t,
+        });
       }
 
+      // Suggest shipping from the fee rules; admin-entered values win
+      shippingFeeSuggestion = await suggestShippingFee(
+        customerId,
+        {
+          city: deliveryAddress.city,
+          district: deliveryAddress.district,
+          itemQuantity: orderItems.reduce((sum, item) => sum + item.quantity, 0),
+          subtotal: calculatedTotalAmount,
+          originalShippingCost: validationResult.data.originalShippingCost,
+        },
+        t
+      );
+
+      const originalShippingCost =
+        validationResult.data.originalShippingCost ??
+        shippingFeeSuggestion?.originalShippingCost ??
+        0;
+
+      // Coupon discounts the items; a free-shipping coupon replaces a smaller
+      // shipping discount rather than adding to it
+      const subtotal = calculatedTotalAmount;
+      const coupon = couponCode
+        ? await evaluateCoupon(
+            couponCode,
+            {
+              customerId,
+              items: orderItems.map((item) => ({
+                productId: item.productId,
+                quantity: item.quantity,
+                unitPrice: Number(item.productSnapshot.unitPrice),
+              })),
+              subtotal,
+              originalShippingCost,
+            },
+            t
+          )
+        : null;
+      const discountAmount = coupon?.discountAmount ?? 0;
+
+      const shippingDiscount = Math.min(
+        originalShippingCost,
+        Math.max(
+          validationResult.data.shippingDiscount ??
+            shippingFeeSuggestion?.shippingDiscount ??
+            0,
+          coupon?.shippingDiscountAmount ?? 0
+        )
+      );
+      const shippingCost = Math.max(0, originalShippingCost - shippingDiscount);
+
       // Add shipping cost to total
-      calculatedTotalAmount += shippingCost;
+      calculatedTotalAmount = subtotal - discountAmount + shippingCost;
 
-      // Generate order number inside transaction to prevent race conditions
-      const orderNumber = await generateOrderNumber(t);
+      if (depositAmount !== undefined && depositAmount > calculatedTotalAmount) {
+        throw { status: 400, code: "INVALID_DEPOSIT", message: "Deposit cannot exceed the order total" };
+      }
+
+      // Taken from the daily counter; unique even under concurrent orders
+      const orderNumber = await generateOrderNumber();
 
       // Convert orderType to proper enum
       const orderTypeEnum =
@@ -479,6 +697,7 @@ export const createOrder = async (req: Request, res: Response) => {
 
       const newOrder = await Order.create(
         {
+          id: orderId,
           orderNumber,
           customerId,
           orderType: orderTypeEnum,
@@ -489,11 +708,29 @@ export const createOrder = async (req: Request, res: Response) => {
           originalShippingCost,
           shippingDiscount,
           shippingCost,
+          couponCode: coupon?.coupon.code ?? null,
+          discountAmount,
+          depositAmount: depositAmount ?? 0,
+          purchaseLimitOverride: Boolean(overridePurchaseLimits),
           status: OrderStatus.PENDING,
         },
         { transaction: t }
       );
 
+      if (coupon) {
+        await saveOrderCouponRedemption(newOrder.id, customerId, coupon, t);
+      }
+
+      for (const override of basePriceOverrides) {
+        await setProductPrice(override.product, override.unitPrice, {
+          source: PriceChangeSource.ORDER_OVERRIDE,
+          adminId: req.user?.userId ?? null,
+          orderId: newOrder.id,
+          note: `Set while creating order ${orderNumber}`,
+          transaction: t,
+        });
+      }
+
       // Create order items
       if (orderItems.length > 0) {
         await OrderItem.bulkCreate(
@@ -502,11 +739,22 @@ export const createOrder = async (req: Request, res: Response) => {
             productId: item.productId,
             quantity: item.quantity,
             productSnapshot: item.productSnapshot,
+            isPreOrder: item.isPreOrder,
           })),
           { transaction: t }
         );
       }
 
+      // Overridden limits go on the timeline so they can be audited
+      await recordOrderCreated(
+        newOrder.id,
+        req.user?.userId ?? null,
+        t,
+        overriddenLimits.length > 0
+          ? describePurchaseLimitOverride(overriddenLimits)
+          : undefined
+      );
+
       return newOrder;
     });
 
@@ -539,7 +787,12 @@ export const createOrder = async (req: Request, res: Response) => {
       ],
     });
 
-    return res.status(201).json(ResponseHelper.success(createdOrder));
+    return res.status(201).json(
+      ResponseHelper.success({
+        ...(createdOrder?.toJSON() as any),
+        shippingFeeSuggestion,
+      })
+    );
   } catch (error: any) {
     logger.error("Create order error:", error);
 
@@ -547,7 +800,7 @@ export const createOrder = async (req: Request, res: Response) => {
     if (error.status && error.code) {
       return res
         .status(error.status)
-        .json(ResponseHelper.error(error.message, error.code));
+        .json(ResponseHelper.error(error.message, error.code, error.details));
     }
 
     return res
@@ -580,73 +833,13 @@ export const updateOrderStatus = async (req: Request, res: Response) => {
     }
 
     const { status, notes } = validationResult.data;
-
-    // Find existing order with items (use separate query for reliability)
-    const existingOrder = await Order.findByPk(id);
-    if (!existingOrder) {
-      return res
-        .status(404)
-        .json(ResponseHelper.error("Order not found", "ORDER_NOT_FOUND"));
-    }
-
-    // Load order items separately for better reliability
-    const orderItems = await OrderItem.findAll({
-      where: { orderId: id },
-      attributes: ["id", "productId", "quantity", "productSnapshot"],
-    });
-
-    // Handle stock restoration for cancelled orders
     const newStatus = OrderStatus[status as keyof typeof OrderStatus];
 
-    if (
-      newStatus === OrderStatus.CANCELLED &&
-      existingOrder.status !== OrderStatus.CANCELLED
-    ) {
-      await sequelize.transaction(async (t) => {
-        // Restore product stock
-        if (orderItems && orderItems.length > 0) {
-          for (const item of orderItems) {
-            // Find the current product by productId (don't rely on item.product association)
-            const currentProduct = await Product.findByPk(item.productId, {
-              transaction: t,
-            });
-
-            if (currentProduct) {
-              const currentStock = currentProduct.stockQuantity;
-              const newStock = currentStock + item.quantity;
-
-              // Get product name from snapshot or current product
-              const productName =
-                item.productSnapshot?.name ||
-                currentProduct.name ||
-                "Unknown Product";
-
-              await currentProduct.update(
-                {
-                  stockQuantity: newStock,
-                },
-                { transaction: t }
-              );
-            }
-          }
-        }
-
-        // Update order status
-        await existingOrder.update(
-          {
-            status: newStatus,
-            notes,
-          },
-          { transaction: t }
-        );
-      });
-    } else {
-      // Just update status for other cases
-      await existingOrder.update({
-        status: newStatus,
-        notes,
-      });
-    }
+    // Validates the transition and applies stock/timestamp side effects
+    await changeOrderStatus(id, newStatus, {
+      notes,
+      adminId: req.user?.userId,
+    });
 
     // Fetch updated order
     const updatedOrder = await Order.findByPk(id, {
@@ -680,6 +873,14 @@ export const updateOrderStatus = async (req: Request, res: Response) => {
     return res.status(200).json(ResponseHelper.success(updatedOrder));
   } catch (error: any) {
     logger.error("Update order status error:", error);
+
+    // Handle invalid transitions and stock errors from the status service
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+
     return res
       .status(500)
       .json(
@@ -691,6 +892,55 @@ export const updateOrderStatus = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Change the status of, or add a note to, several orders at once. Every
+ * order is handled like updateOrderStatus; failures are reported per order
+ * instead of failing the whole request.
+ */
+export const bulkUpdateOrders = async (req: Request, res: Response) => {
+  try {
+    const validationResult = bulkUpdateOrdersSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const { orderIds, status, notes } = validationResult.data;
+
+    const results = await bulkChangeOrderStatus(orderIds, {
+      status: status ? OrderStatus[status] : undefined,
+      notes,
+      adminId: req.user?.userId,
+    });
+    const succeeded = results.filter((result) => result.success).length;
+
+    return res.status(200).json(
+      ResponseHelper.success({
+        results,
+        summary: {
+          total: results.length,
+          succeeded,
+          failed: results.length - succeeded,
+        },
+      })
+    );
+  } catch (error: any) {
+    logger.error("Bulk update orders error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error("Failed to update orders", "BULK_UPDATE_ORDERS_ERROR")
+      );
+  }
+};
+
 /**
  * Delete order (admin only)
  */
@@ -698,20 +948,7 @@ export const deleteOrder = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    const existingOrder = await Order.findByPk(id, {
-      include: [
-        {
-          model: OrderItem,
-          as: "items",
-          include: [
-            {
-              model: Product,
-              as: "product",
-            },
-          ],
-        },
-      ],
-    });
+    const existingOrder = await Order.findByPk(id);
 
     if (!existingOrder) {
       return res
@@ -720,19 +957,40 @@ export const deleteOrder = async (req: Request, res: Response) => {
     }
 
     await sequelize.transaction(async (t) => {
+      // Re-read the status under lock so a concurrent cancel cannot restore twice
+      const current = await Order.findByPk(id, {
+        attributes: ["id", "status"],
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
+
       // Restore product stock if order was not cancelled
-      if (
-        existingOrder.status !== OrderStatus.CANCELLED &&
-        existingOrder.items
-      ) {
-        for (const item of existingOrder.items) {
-          if (item.product) {
-            await item.product.update(
-              {
-                stockQuantity: item.product.stockQuantity + item.quantity,
-              },
-              { transaction: t }
-            );
+      if (current?.status !== OrderStatus.CANCELLED) {
+        const items = await OrderItem.findAll({
+          where: { orderId: id },
+          transaction: t,
+        });
+
+        // Units a received return already put back are not restored again
+        const restocked = await getRestockedQuantities(id, t);
+
+        for (const item of items) {
+          const quantity = getStockedQuantity(item) - (restocked.get(item.id) ?? 0);
+          if (quantity <= 0) continue;
+
+          const product = await Product.findByPk(item.productId, {
+            transaction: t,
+            lock: t.LOCK.UPDATE,
+          });
+
+          if (product) {
+            await adjustStock(product, quantity, {
+              reason: StockMovementReason.CANCELLATION,
+              referenceId: existingOrder.id,
+              adminId: req.user?.userId ?? null,
+              note: `Order ${existingOrder.orderNumber} deleted`,
+              transaction: t,
+            });
           }
         }
       }
@@ -908,20 +1166,26 @@ export const updateOrder = async (req: Request, res: Response) => {
     }
 
     const updateData = validationResult.data;
+    let shippingFeeSuggestion: ShippingFeeBreakdown | null = null;
 
     // Update order in transaction
     const updatedOrder = await sequelize.transaction(async (t) => {
+      // Lock the order first so concurrent edits and cancels queue up
+      await Order.findByPk(id, {
+        attributes: ["id"],
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
+
       const existingOrder = await Order.findByPk(id, {
         include: [
           {
             model: OrderItem,
             as: "items",
-            include: [
-              {
-                model: Product,
-                as: "product",
-              },
-            ],
+          },
+          {
+            model: CouponRedemption,
+            as: "couponRedemption",
           },
         ],
         transaction: t,
@@ -935,32 +1199,68 @@ export const updateOrder = async (req: Request, res: Response) => {
       await existingOrder.update(
         {
           notes: updateData.notes,
+          paymentMethod: updateData.paymentMethod as PaymentMethod | undefined,
           deliveryAddress: updateData.shippingAddress,
-          shippingCost: updateData.shippingCost || existingOrder.shippingCost,
-          originalShippingCost:
-            updateData.originalShippingCost ||
-            existingOrder.originalShippingCost,
-          shippingDiscount:
-            updateData.shippingDiscount || existingOrder.shippingDiscount,
         },
         { transaction: t }
       );
 
+      // Merchandise subtotal and items, replaced below if items change
+      let subtotal =
+        Number(existingOrder.totalAmount) -
+        Number(existingOrder.shippingCost || 0) +
+        Number(existingOrder.discountAmount || 0);
+      let pricedItems = (existingOrder.items || []).map((item) => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        unitPrice: Number(item.productSnapshot?.unitPrice ?? 0),
+      }));
+
       // Update order items if provided
       if (updateData.orderItems) {
+        // Returns point at the current items and may have restocked them already
+        if (await hasActiveReturns(existingOrder.id, t)) {
+          throw {
+            status: 409,
+            code: "ORDER_HAS_RETURNS",
+            message: "Items of an order with returns cannot be edited",
+          };
+        }
+
         // Restore stock for old items before removing them (only if order is not cancelled)
         if (
           existingOrder.status !== "CANCELLED" &&
           existingOrder.items &&
           existingOrder.items.length > 0
         ) {
+          // One restore per product, locked in a stable order to avoid
+          // deadlocks with other orders
+          const restoreQuantities = new Map<string, number>();
           for (const oldItem of existingOrder.items) {
-            if (oldItem.product) {
-              await oldItem.product.update(
-                { stockQuantity: oldItem.product.stockQuantity + oldItem.quantity },
-                { transaction: t }
-              );
-            }
+            restoreQuantities.set(
+              oldItem.productId,
+              (restoreQuantities.get(oldItem.productId) ?? 0) + getStockedQuantity(oldItem)
+            );
+          }
+
+          const productIds = [...restoreQuantities.keys()].sort((a, b) => a.localeCompare(b));
+          for (const productId of productIds) {
+            const quantity = restoreQuantities.get(productId)!;
+            if (quantity === 0) continue;
+
+            const product = await Product.findByPk(productId, {
+              transaction: t,
+              lock: t.LOCK.UPDATE,
+            });
+            if (!product) continue;
+
+            await adjustStock(product, quantity, {
+              reason: StockMovementReason.CANCELLATION,
+              referenceId: existingOrder.id,
+              adminId: req.user?.userId ?? null,
+              note: "Order items edited",
+              transaction: t,
+            });
           }
         }
 
@@ -971,7 +1271,14 @@ export const updateOrder = async (req: Request, res: Response) => {
         });
 
         // Add new order items and calculate totals
-        let subtotal = 0;
+        subtotal = 0;
+        pricedItems = [];
+        const limitLines: PurchaseLimitLine[] = [];
+        const preOrderProductIds = new Set(
+          (existingOrder.items || [])
+            .filter((oldItem) => oldItem.isPreOrder)
+            .map((oldItem) => oldItem.productId)
+        );
         for (const item of updateData.orderItems) {
           const product = await Product.findByPk(item.productId, {
             transaction: t,
@@ -981,13 +1288,27 @@ export const updateOrder = async (req: Request, res: Response) => {
             throw new Error(`Product not found: ${item.productId}`);
           }
 
-          if (product.stockQuantity < item.quantity) {
-            throw new Error(`Insufficient stock for product ${product.name}. Available: ${product.stockQuantity}, Requested: ${item.quantity}`);
-          }
-
-          const itemTotal =
-            item.quantity * parseFloat(product.unitPrice.toString());
+          // Deduct stock for new items (only if order is not cancelled);
+          // pre-order items rejoin the queue at the order's place
+          const { isPreOrder } =
+            existingOrder.status !== "CANCELLED"
+              ? await takeOrderItemStock(product, item.quantity, {
+                  reason: StockMovementReason.SALE,
+                  referenceId: existingOrder.id,
+                  adminId: req.user?.userId ?? null,
+                  note: "Order items edited",
+                  transaction: t,
+                })
+              : { isPreOrder: product.availability === ProductAvailability.PRE_ORDER };
+
+          const unitPrice = await getEffectivePrice(product, t);
+          const itemTotal = item.quantity * unitPrice;
           subtotal += itemTotal;
+          pricedItems.push({
+            productId: item.productId,
+            quantity: item.quantity,
+            unitPrice,
+          });
 
           await OrderItem.create(
             {
@@ -996,33 +1317,165 @@ export const updateOrder = async (req: Request, res: Response) => {
               quantity: item.quantity,
               productSnapshot: {
                 name: product.name,
-                unitPrice: product.unitPrice,
+                unitPrice,
+                costPrice:
+                  product.costPrice !== null && product.costPrice !== undefined
+                    ? Number(product.costPrice)
+                    : null,
                 totalPrice: itemTotal,
               },
+              isPreOrder,
             },
             { transaction: t }
           );
+          limitLines.push({ product, quantity: item.quantity });
+          if (isPreOrder) preOrderProductIds.add(product.id);
+        }
+
+        // Stock released from edited pre-order lines goes back to the queue,
+        // this order included, instead of sitting as free stock
+        if (existingOrder.status !== "CANCELLED") {
+          for (const productId of [...preOrderProductIds].sort((a, b) => a.localeCompare(b))) {
+            const product = await Product.findByPk(productId, {
+              transaction: t,
+              lock: t.LOCK.UPDATE,
+            });
+            if (product) {
+              await allocatePreOrders(product, {
+                adminId: req.user?.userId ?? null,
+                transaction: t,
+              });
+            }
+          }
+        }
 
-          // Deduct stock for new items (only if order is not cancelled)
-          if (existingOrder.status !== "CANCELLED") {
-            await product.update(
-              { stockQuantity: product.stockQuantity - item.quantity },
+        // A cancelled order does not count towards the limits
+        if (existingOrder.status !== "CANCELLED") {
+          const overriddenLimits = await enforcePurchaseLimits(
+            existingOrder.customerId,
+            limitLines,
+            {
+              excludeOrderId: existingOrder.id,
+              override: updateData.overridePurchaseLimits,
+              transaction: t,
+            }
+          );
+
+          // Overridden limits go on the timeline so they can be audited
+          if (overriddenLimits.length > 0) {
+            await OrderStatusHistory.create(
+              {
+                orderId: existingOrder.id,
+                fromStatus: existingOrder.status,
+                toStatus: existingOrder.status,
+                changedByAdminId: req.user?.userId ?? null,
+                note: describePurchaseLimitOverride(overriddenLimits),
+              },
               { transaction: t }
             );
           }
         }
+      }
 
-        // Update order totals
-        const shippingCost =
-          updateData.shippingCost || existingOrder.shippingCost || 0;
-        const totalAmount = subtotal + shippingCost;
-        await existingOrder.update(
-          {
-            totalAmount,
-          },
-          { transaction: t }
+      // Re-suggest shipping when the address or items change; values the
+      // admin sends always override the suggestion
+      const address =
+        updateData.shippingAddress ?? existingOrder.deliveryAddress ?? {};
+      shippingFeeSuggestion = await suggestShippingFee(
+        existingOrder.customerId,
+        {
+          city: address.city,
+          district: address.district,
+          itemQuantity: pricedItems.reduce((sum, item) => sum + item.quantity, 0),
+          subtotal,
+          originalShippingCost: updateData.originalShippingCost,
+        },
+        t
+      );
+
+      const applySuggestion =
+        shippingFeeSuggestion !== null &&
+        (updateData.shippingAddress !== undefined ||
+          updateData.orderItems !== undefined ||
+          updateData.originalShippingCost !== undefined);
+
+      const originalShippingCost =
+        updateData.originalShippingCost ??
+        (applySuggestion
+          ? shippingFeeSuggestion!.originalShippingCost
+          : Number(existingOrder.originalShippingCost || 0));
+
+      // The stored discount may come from a free-shipping coupon; that part
+      // is recomputed from the coupon below
+      const previousCouponShipping = Number(
+        existingOrder.couponRedemption?.shippingDiscountAmount || 0
+      );
+      const storedShippingDiscount = Number(existingOrder.shippingDiscount || 0);
+      const baseShippingDiscount =
+        updateData.shippingDiscount ??
+        (applySuggestion
+          ? shippingFeeSuggestion!.shippingDiscount
+          : previousCouponShipping > 0 &&
+              storedShippingDiscount <= previousCouponShipping
+            ? 0
+            : storedShippingDiscount);
+
+      // A newly supplied code is checked in full; the coupon already on the
+      // order is kept and only its discount follows the items
+      const couponContext = {
+        customerId: existingOrder.customerId,
+        items: pricedItems,
+        subtotal,
+        originalShippingCost,
+        orderId: id,
+      };
+      let coupon: CouponEvaluation | null = null;
+      if (updateData.couponCode !== undefined) {
+        coupon = updateData.couponCode
+          ? await evaluateCoupon(updateData.couponCode, couponContext, t)
+          : null;
+      } else if (existingOrder.couponRedemption) {
+        coupon = await recalculateRedeemedCoupon(
+          existingOrder.couponRedemption,
+          couponContext,
+          t
         );
       }
+      const discountAmount = coupon?.discountAmount ?? 0;
+
+      const shippingDiscount = Math.min(
+        originalShippingCost,
+        Math.max(baseShippingDiscount, coupon?.shippingDiscountAmount ?? 0)
+      );
+      const shippingCost =
+        updateData.shippingCost ??
+        Math.max(0, originalShippingCost - shippingDiscount);
+
+      await saveOrderCouponRedemption(id, existingOrder.customerId, coupon, t);
+
+      const totalAmount = subtotal - discountAmount + shippingCost;
+      const depositAmount =
+        updateData.depositAmount ?? Number(existingOrder.depositAmount || 0);
+      if (depositAmount > totalAmount) {
+        throw { status: 400, code: "INVALID_DEPOSIT", message: "Deposit cannot exceed the order total" };
+      }
+
+      // Update order totals
+      await existingOrder.update(
+        {
+          originalShippingCost,
+          shippingDiscount,
+          shippingCost,
+          couponCode: coupon?.coupon.code ?? null,
+          discountAmount,
+          totalAmount,
+          depositAmount,
+          ...(updateData.overridePurchaseLimits !== undefined && {
+            purchaseLimitOverride: updateData.overridePurchaseLimits,
+          }),
+        },
+        { transaction: t }
+      );
 
       return Order.findByPk(id, {
         include: [
@@ -1047,10 +1500,21 @@ export const updateOrder = async (req: Request, res: Response) => {
       });
     });
 
-    return res.status(200).json(ResponseHelper.success(updatedOrder));
+    return res.status(200).json(
+      ResponseHelper.success({
+        ...(updatedOrder?.toJSON() as any),
+        shippingFeeSuggestion,
+      })
+    );
   } catch (error: any) {
     logger.error("Update order error:", error);
 
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+
     if (error.message.includes("not found")) {
       return res
         .status(404)
@@ -0,0 +1,259 @@
+import { logger } from "@/utils/logger";
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  models,
+  OrderStatus,
+  PaymentMethod,
+  PaymentType,
+  PaymentStatus,
+} from "../models";
+import { ResponseHelper } from "../types/api";
+import {
+  getOrderPayments as getOrderPaymentList,
+  recordOrderPayment,
+  updatePaymentStatus,
+} from "../services/payment.service";
+import {
+  buildVietQrPayload,
+  getBankTransferSettings,
+  isBankTransferConfigured,
+  renderQrPng,
+  toTransferMemo,
+} from "../services/vietqr.service";
+
+const { Order } = models;
+
+// Validation schemas
+const createPaymentSchema = z.object({
+  type: z.nativeEnum(PaymentType).optional(),
+  method: z.nativeEnum(PaymentMethod),
+  amount: z.coerce.number().positive("Amount must be positive").optional(),
+  status: z.nativeEnum(PaymentStatus).optional(),
+  referenceCode: z.string().trim().max(100).optional(),
+  paidAt: z.coerce.date().optional(),
+  note: z.string().optional(),
+});
+
+const updatePaymentStatusSchema = z.object({
+  status: z.enum([PaymentStatus.COMPLETED, PaymentStatus.FAILED]),
+  paidAt: z.coerce.date().optional(),
+  note: z.string().optional(),
+});
+
+/**
+ * Get payments of an order with its payment summary
+ */
+export const getOrderPayments = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const order = await Order.findByPk(id, {
+      attributes: ["id", "totalAmount"],
+    });
+    if (!order) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Order not found", "ORDER_NOT_FOUND"));
+    }
+
+    const result = await getOrderPaymentList(order);
+
+    return res.status(200).json(ResponseHelper.success(result));
+  } catch (error: any) {
+    logger.error("Get order payments error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to retrieve order payments",
+          "GET_ORDER_PAYMENTS_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Record a payment or refund against an order
+ */
+export const createOrderPayment = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validationResult = createPaymentSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const result = await recordOrderPayment(
+      id,
+      validationResult.data,
+      req.user?.userId ?? null
+    );
+
+    return res.status(201).json(ResponseHelper.success(result));
+  } catch (error: any) {
+    logger.error("Create order payment error:", error);
+
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to record payment",
+          "CREATE_ORDER_PAYMENT_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Settle a pending payment as completed or failed
+ */
+export const updateOrderPaymentStatus = async (req: Request, res: Response) => {
+  try {
+    const { id, paymentId } = req.params;
+    const validationResult = updatePaymentStatusSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const { status, paidAt, note } = validationResult.data;
+    const result = await updatePaymentStatus(id, paymentId, status, {
+      paidAt,
+      note,
+    });
+
+    return res.status(200).json(ResponseHelper.success(result));
+  } catch (error: any) {
+    logger.error("Update payment status error:", error);
+
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to update payment status",
+          "UPDATE_PAYMENT_STATUS_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Get VietQR bank-transfer instructions for the outstanding balance of an order.
+ * Returns the EMV payload and a PNG (data URL), or the raw PNG with ?format=png
+ */
+export const getOrderVietQr = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const order = await Order.findByPk(id, {
+      attributes: ["id", "orderNumber", "status", "totalAmount"],
+    });
+    if (!order) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Order not found", "ORDER_NOT_FOUND"));
+    }
+
+    if (order.status === OrderStatus.CANCELLED) {
+      return res
+        .status(409)
+        .json(
+          ResponseHelper.error(
+            "Cannot request payment for a cancelled order",
+            "ORDER_CANCELLED"
+          )
+        );
+    }
+
+    const bank = await getBankTransferSettings();
+    if (!isBankTransferConfigured(bank)) {
+      return res
+        .status(409)
+        .json(
+          ResponseHelper.error(
+            "Bank transfer settings are not configured",
+            "BANK_TRANSFER_NOT_CONFIGURED"
+          )
+        );
+    }
+
+    const { summary } = await getOrderPaymentList(order);
+    if (summary.balanceDue <= 0) {
+      return res
+        .status(409)
+        .json(
+          ResponseHelper.error("Order is already fully paid", "ORDER_ALREADY_PAID")
+        );
+    }
+
+    const memo = toTransferMemo(order.orderNumber);
+    const emv = buildVietQrPayload({
+      bankBin: bank.bankBin,
+      accountNumber: bank.accountNumber,
+      amount: summary.balanceDue,
+      memo,
+    });
+    const png = await renderQrPng(emv);
+
+    if (req.query.format === "png") {
+      res.setHeader("Content-Type", "image/png");
+      res.setHeader(
+        "Content-Disposition",
+        `inline; filename="${order.orderNumber}-vietqr.png"`
+      );
+      return res.status(200).send(png);
+    }
+
+    return res.status(200).json(
+      ResponseHelper.success({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        amount: summary.balanceDue,
+        memo,
+        bank,
+        emv,
+        image: `data:image/png;base64,${png.toString("base64")}`,
+      })
+    );
+  } catch (error: any) {
+    logger.error("Get order VietQR error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to generate VietQR code",
+          "GET_ORDER_VIETQR_ERROR"
+        )
+      );
+  }
+};
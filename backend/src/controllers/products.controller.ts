@@ -15,6 +15,10 @@ import {
   Category,
   Color,
   Capacity,
+  PriceChangeSource,
+  ProductAvailability,
+  StockMovementReason,
+  WaitlistContactType,
 } from "../models";
 import { ResponseHelper } from "../types/api";
 import { z } from "zod";
@@ -28,10 +32,39 @@ import { productImageService } from "../services/product-image.service";
 //   SearchableProduct,
 // } from "../services/meilisearch.service"; // TEMPORARILY DISABLED
 import { generateVietnameseSlug } from "../utils/vietnamese-slug";
+import { isValidPhoneNumber } from "../utils/phoneValidation";
 import { sequelize } from "../config/database";
-import { Op, col, where as sequelizeWhere } from "sequelize";
+import { Op, col, fn, where as sequelizeWhere } from "sequelize";
 import { getProductImageProcessingOptions } from "../services/watermark-settings.service";
 import { clearCachePrefix } from "../middleware/redis-cache.middleware";
+import { MeiliSearchSyncMiddleware } from "../middleware/meilisearch-sync.middleware";
+import {
+  applyEffectivePrice,
+  bulkUpdateProductPrices as applyBulkProductPrices,
+  createScheduledPrice,
+  deleteScheduledPrice,
+  getActiveScheduledPrices,
+  getNextPriceChange,
+  listProductPriceHistory,
+  listScheduledPrices,
+  recordPriceChange,
+} from "../services/product-price.service";
+import {
+  findStockDiscrepancies,
+  getStockMovements,
+  recordOpeningStock,
+  setStock,
+} from "../services/stock.service";
+import { getInventoryAlertSettings } from "../services/inventory-alert.service";
+import {
+  joinWaitlist,
+  listWaitlist,
+  releaseWaitlist,
+} from "../services/waitlist.service";
+import {
+  allocatePreOrders,
+  getPreOrderQueue,
+} from "../services/pre-order.service";
 
 /**
  * Clear all product-related caches (Redis) and trigger frontend revalidation.
@@ -278,6 +311,33 @@ const createProductSchema = z.object({
     .nonnegative("Unit price must be non-negative")
     .optional()
     .default(0),
+  // Purchase cost per unit, used for profit reports; never shown publicly
+  costPrice: z.coerce
+    .number()
+    .nonnegative("Cost price must be non-negative")
+    .nullable()
+    .optional(),
+  // Null uses the global default threshold
+  lowStockThreshold: z.coerce
+    .number()
+    .int()
+    .nonnegative("Low stock threshold must be non-negative")
+    .nullable()
+    .optional(),
+  // Purchase limits for limited drops; null removes a limit
+  maxQuantityPerOrder: z.coerce.number().int().positive().nullable().optional(),
+  maxQuantityPerCustomer: z.coerce.number().int().positive().nullable().optional(),
+  // Only orders from the last N days count towards maxQuantityPerCustomer
+  purchaseLimitWindowDays: z.coerce.number().int().positive().nullable().optional(),
+  availability: z.nativeEnum(ProductAvailability).optional(),
+  // Shown on COMING_SOON and PRE_ORDER products
+  expectedReleaseDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected release date must be YYYY-MM-DD")
+    .nullable()
+    .optional()
+    .or(z.literal(""))
+    .transform((val) => (val === "" ? null : val)),
   productUrl: z.string().url().optional().or(z.literal("")),
   isVip: z.boolean().optional().default(false),
   isFeatured: z.boolean().optional().default(false),
@@ -306,6 +366,14 @@ const updateStockSchema = z.object({
     .number()
     .int()
     .nonnegative("Stock quantity must be non-negative"),
+  reason: z
+    .enum([
+      StockMovementReason.MANUAL_ADJUSTMENT,
+      StockMovementReason.RESTOCK,
+      StockMovementReason.WRITE_OFF,
+    ])
+    .default(StockMovementReason.MANUAL_ADJUSTMENT),
+  note: z.string().trim().max(500).optional(),
 });
 
 const reorderImagesSchema = z.object({
@@ -317,6 +385,52 @@ const reorderImagesSchema = z.object({
   ),
 });
 
+const waitlistSignupSchema = z
+  .object({
+    phoneNumber: z.string().trim().max(50).optional(),
+    zaloId: z.string().trim().max(255).optional(),
+    messengerId: z.string().trim().max(255).optional(),
+    name: z.string().trim().max(255).optional(),
+  })
+  .refine(
+    (data) =>
+      [data.phoneNumber, data.zaloId, data.messengerId].filter(Boolean).length === 1,
+    { message: "Provide exactly one of phoneNumber, zaloId or messengerId" }
+  )
+  .refine((data) => !data.phoneNumber || isValidPhoneNumber(data.phoneNumber), {
+    message: "Invalid phone number",
+    path: ["phoneNumber"],
+  });
+
+const scheduledPriceSchema = z
+  .object({
+    price: z.coerce.number().nonnegative("Price cannot be negative"),
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date().nullable().optional(),
+    label: z.string().trim().max(255).nullable().optional(),
+  })
+  .refine((data) => !data.endsAt || data.endsAt > data.startsAt, {
+    message: "endsAt must be after startsAt",
+    path: ["endsAt"],
+  });
+
+const bulkPriceUpdateSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        productId: z.string().uuid("Invalid product ID"),
+        unitPrice: z.coerce.number().nonnegative("Unit price cannot be negative"),
+      })
+    )
+    .min(1, "At least one item is required")
+    .max(500, "At most 500 items per request")
+    .refine(
+      (items) => new Set(items.map((item) => item.productId)).size === items.length,
+      "Each product may appear only once"
+    ),
+  note: z.string().trim().max(500).optional(),
+});
+
 /**
  * Get all products with advanced filtering and pagination
  */
@@ -688,6 +802,13 @@ export const createProduct = async (req: Request, res: Response) => {
       capacityId,
       stockQuantity,
       unitPrice,
+      costPrice,
+      lowStockThreshold,
+      maxQuantityPerOrder,
+      maxQuantityPerCustomer,
+      purchaseLimitWindowDays,
+      availability,
+      expectedReleaseDate,
       productUrl,
       isVip,
       isFeatured,
@@ -761,6 +882,13 @@ export const createProduct = async (req: Request, res: Response) => {
           capacityId,
           stockQuantity,
           unitPrice,
+          costPrice: costPrice ?? null,
+          lowStockThreshold: lowStockThreshold ?? null,
+          maxQuantityPerOrder: maxQuantityPerOrder ?? null,
+          maxQuantityPerCustomer: maxQuantityPerCustomer ?? null,
+          purchaseLimitWindowDays: purchaseLimitWindowDays ?? null,
+          availability: availability ?? ProductAvailability.IN_STOCK,
+          expectedReleaseDate: expectedReleaseDate ?? null,
           productUrl,
           isVip: Boolean(isVip),
           isFeatured: Boolean(isFeatured),
@@ -771,6 +899,17 @@ export const createProduct = async (req: Request, res: Response) => {
         { transaction: t }
       );
 
+      await recordPriceChange(product.id, null, product.unitPrice, {
+        source: PriceChangeSource.MANUAL_EDIT,
+        adminId: req.user!.userId,
+        transaction: t,
+      });
+      await recordOpeningStock(product, {
+        adminId: req.user!.userId,
+        note: "Initial stock",
+        transaction: t,
+      });
+
       // Create product-category relationships
       await ProductCategory.bulkCreate(
         categoryIds.map((categoryId) => ({
@@ -1003,6 +1142,21 @@ export const updateProductWithFiles = async (req: Request, res: Response) => {
     if (parsedBody.unitPrice !== undefined) {
       parsedBody.unitPrice = Number(parsedBody.unitPrice);
     }
+    if (parsedBody.costPrice !== undefined) {
+      parsedBody.costPrice =
+        parsedBody.costPrice === "" || parsedBody.costPrice === "null"
+          ? null
+          : Number(parsedBody.costPrice);
+    }
+    for (const field of [
+      "maxQuantityPerOrder",
+      "maxQuantityPerCustomer",
+      "purchaseLimitWindowDays",
+    ]) {
+      if (parsedBody[field] === "" || parsedBody[field] === "null") {
+        parsedBody[field] = null;
+      }
+    }
     if (parsedBody.isActive !== undefined) {
       parsedBody.isActive = parsedBody.isActive === "true" || parsedBody.isActive === true;
     }
@@ -1041,6 +1195,7 @@ export const updateProductWithFiles = async (req: Request, res: Response) => {
       colorIds: colorIdsUpdate,
       productImages: productImagesUpdate,
       translations: _translationsUpdate,
+      stockQuantity: stockQuantityUpdate,
       ...baseUpdateData
     } = updateData as any;
 
@@ -1131,6 +1286,7 @@ export const updateProductWithFiles = async (req: Request, res: Response) => {
       }
 
       // Update basic product fields
+      const previousPrice = Number(existingProduct.unitPrice);
       await existingProduct.update(
         {
           ...baseUpdateData,
@@ -1139,6 +1295,20 @@ export const updateProductWithFiles = async (req: Request, res: Response) => {
         },
         { transaction: t }
       );
+      await recordPriceChange(id, previousPrice, existingProduct.unitPrice, {
+        source: PriceChangeSource.MANUAL_EDIT,
+        adminId: req.user!.userId,
+        transaction: t,
+      });
+
+      if (stockQuantityUpdate !== undefined) {
+        await existingProduct.reload({ transaction: t, lock: t.LOCK.UPDATE });
+        await setStock(existingProduct, stockQuantityUpdate, {
+          reason: StockMovementReason.MANUAL_ADJUSTMENT,
+          adminId: req.user!.userId,
+          transaction: t,
+        });
+      }
 
       // Update category relationships if provided
       if (categoryIdsUpdate) {
@@ -1381,6 +1551,7 @@ export const updateProduct = async (req: Request, res: Response) => {
       colorIds: colorIdsUpdate,
       productImages: productImagesUpdate,
       translations: _translationsUpdate,
+      stockQuantity: stockQuantityUpdate,
       ...baseUpdateData
     } = updateData as any;
 
@@ -1423,6 +1594,7 @@ export const updateProduct = async (req: Request, res: Response) => {
       }
 
       // Update basic product fields
+      const previousPrice = Number(existingProduct.unitPrice);
       await existingProduct.update(
         {
           ...baseUpdateData,
@@ -1432,6 +1604,20 @@ export const updateProduct = async (req: Request, res: Response) => {
         },
         { transaction: t }
       );
+      await recordPriceChange(id, previousPrice, existingProduct.unitPrice, {
+        source: PriceChangeSource.MANUAL_EDIT,
+        adminId: req.user!.userId,
+        transaction: t,
+      });
+
+      if (stockQuantityUpdate !== undefined) {
+        await existingProduct.reload({ transaction: t, lock: t.LOCK.UPDATE });
+        await setStock(existingProduct, stockQuantityUpdate, {
+          reason: StockMovementReason.MANUAL_ADJUSTMENT,
+          adminId: req.user!.userId,
+          transaction: t,
+        });
+      }
 
       // Update category relationships if provided
       if (categoryIdsUpdate) {
@@ -1796,27 +1982,61 @@ export const updateProductStock = async (req: Request, res: Response) => {
         );
     }
 
-    const { stockQuantity } = validationResult.data;
+    const { stockQuantity, reason, note } = validationResult.data;
 
-    const product = await Product.findByPk(id);
-    if (!product || product.isDeleted) {
+    const result = await sequelize.transaction(async (t) => {
+      const product = await Product.findByPk(id, {
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
+      if (!product || product.isDeleted) {
+        return null;
+      }
+
+      const previousStock = product.stockQuantity;
+      const movement = await setStock(product, stockQuantity, {
+        reason,
+        note,
+        adminId: req.user!.userId,
+        transaction: t,
+      });
+
+      // Received stock goes to waiting pre-orders first
+      const preOrderAllocations =
+        reason === StockMovementReason.RESTOCK && stockQuantity > previousStock
+          ? await allocatePreOrders(product, {
+              adminId: req.user!.userId,
+              transaction: t,
+            })
+          : [];
+
+      // Back in stock: hand the waitlist to admins
+      const waitlist =
+        previousStock <= 0 && product.stockQuantity > 0
+          ? await releaseWaitlist(product, t)
+          : [];
+
+      return { product, previousStock, movement, preOrderAllocations, waitlist };
+    });
+
+    if (!result) {
       return res
         .status(404)
         .json(ResponseHelper.error("Product not found", "PRODUCT_NOT_FOUND"));
     }
 
-    // Update stock quantity
-    await product.update({ stockQuantity });
-
     // Invalidate caches so stock changes reflect immediately
-    invalidateProductCaches(product.slug);
+    invalidateProductCaches(result.product.slug);
 
     return res.status(200).json(
       ResponseHelper.success({
         message: "Product stock updated successfully",
         productId: id,
-        stockQuantity,
-        previousStock: product.stockQuantity,
+        stockQuantity: result.product.stockQuantity,
+        previousStock: result.previousStock,
+        movement: result.movement,
+        preOrderAllocations: result.preOrderAllocations,
+        waitlist: result.waitlist,
       })
     );
   } catch (error) {
@@ -2014,19 +2234,27 @@ export const searchProducts = async (req: Request, res: Response) => {
  */
 export const getLowStockProducts = async (req: Request, res: Response) => {
   try {
-    const { threshold = "1", page = "1", limit = "20" } = req.query;
+    const { threshold, page = "1", limit = "20" } = req.query;
 
-    const thresholdNum = parseInt(threshold as string);
     const pageNum = parseInt(page as string);
     const limitNum = parseInt(limit as string);
     const offset = (pageNum - 1) * limitNum;
 
+    // An explicit threshold overrides every product's own reorder threshold
+    const thresholdNum = threshold !== undefined ? parseInt(threshold as string) : NaN;
+    const { defaultLowStockThreshold } = await getInventoryAlertSettings();
+    const stockCondition = Number.isNaN(thresholdNum)
+      ? sequelizeWhere(
+          col("Product.stock_quantity"),
+          Op.lte,
+          fn("COALESCE", col("Product.low_stock_threshold"), defaultLowStockThreshold)
+        )
+      : { stockQuantity: { [Op.lte]: thresholdNum } };
+
     const { count: totalCount, rows: products } = await Product.findAndCountAll(
       {
         where: {
-          isDeleted: false,
-          isActive: true,
-          stockQuantity: { [Op.lte]: thresholdNum },
+          [Op.and]: [{ isDeleted: false, isActive: true }, stockCondition],
         },
         include: [
           {
@@ -2117,6 +2345,7 @@ export const getPublicProducts = async (req: Request, res: Response) => {
       locale,
       sortBy = "createdAt",
       sortOrder = "desc",
+      includeSoldOut = "false",
     } = req.query;
     const requestedLocale = normalizeLocale(locale as string | undefined);
     const normalizedSortBy = normalizeSortField(
@@ -2133,9 +2362,13 @@ export const getPublicProducts = async (req: Request, res: Response) => {
     const where: any = {
       isActive: true,
       isDeleted: false,
-      stockQuantity: { [Op.gt]: 0 }, // Only show products in stock
     };
 
+    // Only show products in stock unless the shop lists sold-out ones too
+    if (includeSoldOut !== "true") {
+      where.stockQuantity = { [Op.gt]: 0 };
+    }
+
     if (search) {
       where[Op.or] = buildLocalizedSearchConditions(search as string);
     }
@@ -2334,6 +2567,10 @@ export const getPublicProducts = async (req: Request, res: Response) => {
         "description",
         "stockQuantity",
         "unitPrice",
+        "availability",
+        "expectedReleaseDate",
+        "maxQuantityPerOrder",
+        "maxQuantityPerCustomer",
         "productUrl",
         "isVip",
         "isFeatured",
@@ -2349,9 +2586,21 @@ export const getPublicProducts = async (req: Request, res: Response) => {
 
     const totalPages = Math.ceil(totalCount / limitNum);
 
-    const localizedProducts = products.map((product) =>
-      applyLocaleToProduct(product, requestedLocale)
-    );
+    const productIds = products.map((product) => product.id);
+    const [scheduledPrices, nextPriceChange] = await Promise.all([
+      getActiveScheduledPrices(productIds),
+      getNextPriceChange(productIds),
+    ]);
+    // Cached responses must not outlive the prices they show
+    if (nextPriceChange) res.locals.cacheUntil = nextPriceChange;
+
+    const localizedProducts = products.map((product) => ({
+      ...applyEffectivePrice(
+        applyLocaleToProduct(product, requestedLocale),
+        scheduledPrices.get(product.id)
+      ),
+      isSoldOut: product.stockQuantity <= 0,
+    }));
 
     return res.status(200).json(
       ResponseHelper.paginated(localizedProducts, {
@@ -2454,6 +2703,10 @@ export const getPublicProductById = async (req: Request, res: Response) => {
         "description",
         "stockQuantity",
         "unitPrice",
+        "availability",
+        "expectedReleaseDate",
+        "maxQuantityPerOrder",
+        "maxQuantityPerCustomer",
         "productUrl",
         "isVip",
         "isFeatured",
@@ -2467,9 +2720,23 @@ export const getPublicProductById = async (req: Request, res: Response) => {
         .json(ResponseHelper.error("Product not found", "PRODUCT_NOT_FOUND"));
     }
 
+    const [scheduledPrices, nextPriceChange] = await Promise.all([
+      getActiveScheduledPrices([product.id]),
+      getNextPriceChange([product.id]),
+    ]);
+    if (nextPriceChange) res.locals.cacheUntil = nextPriceChange;
+
     return res
       .status(200)
-      .json(ResponseHelper.success(applyLocaleToProduct(product, locale)));
+      .json(
+        ResponseHelper.success({
+          ...applyEffectivePrice(
+            applyLocaleToProduct(product, locale),
+            scheduledPrices.get(product.id)
+          ),
+          isSoldOut: product.stockQuantity <= 0,
+        })
+      );
   } catch (error) {
     logger.error("Get public product error:", error);
     return res
@@ -2617,3 +2884,480 @@ export const reorderProductImages = async (req: Request, res: Response) => {
       );
   }
 };
+
+/**
+ * Get the base price history of a product
+ */
+export const getProductPriceHistory = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { page = "1", limit = "20" } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+
+    const product = await Product.findByPk(id, { attributes: ["id", "unitPrice"] });
+    if (!product) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Product not found", "PRODUCT_NOT_FOUND"));
+    }
+
+    const { count, rows } = await listProductPriceHistory(product.id, {
+      page: pageNum,
+      limit: limitNum,
+    });
+    const totalPages = Math.ceil(count / limitNum);
+
+    return res.status(200).json(
+      ResponseHelper.paginated(rows, {
+        current_page: pageNum,
+        per_page: limitNum,
+        total_pages: totalPages,
+        total_items: count,
+        has_next: pageNum < totalPages,
+        has_prev: pageNum > 1,
+      })
+    );
+  } catch (error) {
+    logger.error("Get product price history error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to retrieve price history",
+          "GET_PRICE_HISTORY_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Get the scheduled prices of a product
+ */
+export const getProductScheduledPrices = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const product = await Product.findByPk(id, { attributes: ["id", "unitPrice"] });
+    if (!product) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Product not found", "PRODUCT_NOT_FOUND"));
+    }
+
+    const [schedules, active] = await Promise.all([
+      listScheduledPrices(product.id),
+      getActiveScheduledPrices([product.id]),
+    ]);
+    const current = active.get(product.id);
+
+    return res.status(200).json(
+      ResponseHelper.success({
+        basePrice: Number(product.unitPrice),
+        effectivePrice: current ? Number(current.price) : Number(product.unitPrice),
+        activeScheduleId: current?.id ?? null,
+        schedules,
+      })
+    );
+  } catch (error) {
+    logger.error("Get scheduled prices error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to retrieve scheduled prices",
+          "GET_SCHEDULED_PRICES_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Schedule a price for a period, e.g. a sale
+ */
+export const scheduleProductPrice = async (req: Request, res: Response) => {
+  try {
+    const validationResult = scheduledPriceSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const schedule = await createScheduledPrice(
+      String(req.params.id),
+      validationResult.data,
+      req.user?.userId ?? null
+    );
+
+    await invalidateProductCaches();
+
+    return res.status(201).json(ResponseHelper.success(schedule));
+  } catch (error: any) {
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+    logger.error("Schedule product price error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to schedule price",
+          "SCHEDULE_PRICE_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Remove a scheduled price
+ */
+export const removeProductScheduledPrice = async (req: Request, res: Response) => {
+  try {
+    await deleteScheduledPrice(String(req.params.id), String(req.params.scheduleId));
+
+    await invalidateProductCaches();
+
+    return res.status(200).json(ResponseHelper.success({ deleted: true }));
+  } catch (error: any) {
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+    logger.error("Delete scheduled price error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to delete scheduled price",
+          "DELETE_SCHEDULED_PRICE_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Set the base price of many products, e.g. from an imported price list
+ */
+export const bulkUpdateProductPrices = async (req: Request, res: Response) => {
+  try {
+    const validationResult = bulkPriceUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const { items, note } = validationResult.data;
+    const products = await applyBulkProductPrices(items, {
+      adminId: req.user?.userId ?? null,
+      note,
+    });
+
+    await invalidateProductCaches();
+
+    // Search documents carry the price; there is no :id for the sync middleware
+    setImmediate(() => {
+      products.forEach((product) => {
+        MeiliSearchSyncMiddleware.syncProductById(product.id).catch((err) => {
+          logger.error("🔍 MeiliSearch sync error:", err);
+        });
+      });
+    });
+
+    return res.status(200).json(
+      ResponseHelper.success(
+        products.map((product) => ({
+          id: product.id,
+          name: product.name,
+          unitPrice: Number(product.unitPrice),
+        }))
+      )
+    );
+  } catch (error: any) {
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+    logger.error("Bulk update product prices error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to update product prices",
+          "BULK_UPDATE_PRICES_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Get the stock movement history of a product
+ */
+export const getProductStockMovements = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { page = "1", limit = "20", reason } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+    const reasonFilter = Object.values(StockMovementReason).includes(
+      reason as StockMovementReason
+    )
+      ? (reason as StockMovementReason)
+      : undefined;
+
+    const product = await Product.findByPk(id, {
+      attributes: ["id", "name", "stockQuantity"],
+    });
+    if (!product) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Product not found", "PRODUCT_NOT_FOUND"));
+    }
+
+    const { count, rows } = await getStockMovements(product.id, {
+      page: pageNum,
+      limit: limitNum,
+      reason: reasonFilter,
+    });
+    const totalPages = Math.ceil(count / limitNum);
+
+    return res.status(200).json(
+      ResponseHelper.paginated(rows, {
+        current_page: pageNum,
+        per_page: limitNum,
+        total_pages: totalPages,
+        total_items: count,
+        has_next: pageNum < totalPages,
+        has_prev: pageNum > 1,
+      })
+    );
+  } catch (error) {
+    logger.error("Get stock movements error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to retrieve stock movements",
+          "GET_STOCK_MOVEMENTS_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * List products whose stock ledger disagrees with their stock quantity
+ */
+export const getStockReconciliation = async (req: Request, res: Response) => {
+  try {
+    const discrepancies = await findStockDiscrepancies();
+
+    return res.status(200).json(
+      ResponseHelper.success({
+        consistent: discrepancies.length === 0,
+        discrepancies,
+      })
+    );
+  } catch (error) {
+    logger.error("Stock reconciliation error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to reconcile stock",
+          "STOCK_RECONCILIATION_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Join the back-in-stock waitlist of a sold-out product
+ */
+export const joinProductWaitlist = async (req: Request, res: Response) => {
+  try {
+    const validationResult = waitlistSignupSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const { phoneNumber, zaloId, messengerId, name } = validationResult.data;
+    const [contactType, contactValue] = phoneNumber
+      ? [WaitlistContactType.PHONE, phoneNumber]
+      : zaloId
+      ? [WaitlistContactType.ZALO, zaloId]
+      : [WaitlistContactType.MESSENGER, messengerId!];
+
+    const { entry, created } = await joinWaitlist(String(req.params.id), {
+      contactType,
+      contactValue,
+      customerName: name ?? null,
+    });
+
+    return res.status(created ? 201 : 200).json(
+      ResponseHelper.success({
+        id: entry.id,
+        productId: entry.productId,
+        createdAt: entry.createdAt,
+      })
+    );
+  } catch (error: any) {
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+    logger.error("Join product waitlist error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to join waitlist",
+          "JOIN_WAITLIST_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Get the waitlist of a product
+ */
+export const getProductWaitlist = async (req: Request, res: Response) => {
+  try {
+    const { status = "pending" } = req.query;
+    const statusFilter = ["pending", "notified", "all"].includes(status as string)
+      ? (status as "pending" | "notified" | "all")
+      : "pending";
+
+    const product = await Product.findByPk(req.params.id, {
+      attributes: ["id", "name", "stockQuantity"],
+    });
+    if (!product) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Product not found", "PRODUCT_NOT_FOUND"));
+    }
+
+    const entries = await listWaitlist(product.id, statusFilter);
+
+    return res.status(200).json(ResponseHelper.success({ product, entries }));
+  } catch (error) {
+    logger.error("Get product waitlist error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to retrieve waitlist",
+          "GET_WAITLIST_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Get the pre-orders of a product still waiting for stock, in the order
+ * they will be served
+ */
+export const getProductPreOrders = async (req: Request, res: Response) => {
+  try {
+    const product = await Product.findByPk(req.params.id, {
+      attributes: ["id", "name", "stockQuantity", "availability", "expectedReleaseDate"],
+    });
+    if (!product) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Product not found", "PRODUCT_NOT_FOUND"));
+    }
+
+    const queue = await getPreOrderQueue(product.id);
+
+    return res.status(200).json(ResponseHelper.success({ product, queue }));
+  } catch (error) {
+    logger.error("Get product pre-orders error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to retrieve pre-orders",
+          "GET_PRE_ORDERS_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Hand the product's current stock to its waiting pre-orders, e.g. after
+ * a cancellation freed some units
+ */
+export const allocateProductPreOrders = async (req: Request, res: Response) => {
+  try {
+    const result = await sequelize.transaction(async (t) => {
+      const product = await Product.findByPk(req.params.id, {
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
+      if (!product || product.isDeleted) {
+        return null;
+      }
+
+      const allocations = await allocatePreOrders(product, {
+        adminId: req.user!.userId,
+        transaction: t,
+      });
+
+      return { product, allocations };
+    });
+
+    if (!result) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Product not found", "PRODUCT_NOT_FOUND"));
+    }
+
+    if (result.allocations.length > 0) {
+      invalidateProductCaches(result.product.slug);
+    }
+
+    return res.status(200).json(
+      ResponseHelper.success({
+        productId: result.product.id,
+        stockQuantity: result.product.stockQuantity,
+        allocations: result.allocations,
+      })
+    );
+  } catch (error) {
+    logger.error("Allocate product pre-orders error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to allocate pre-orders",
+          "ALLOCATE_PRE_ORDERS_ERROR"
+        )
+      );
+  }
+};
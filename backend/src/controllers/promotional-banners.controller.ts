@@ -2,8 +2,8 @@ import { logger } from "@/utils/logger";
 import { Request, Response } from "express";
 import { PromotionalBanner, AdminUser } from "../models";
 import { z } from "zod";
-import { Op } from "sequelize";
 import { sequelize } from "../config/database";
+import { withinValidityWindow } from "../utils/validity-window";
 
 // Validation schemas
 const createPromotionalBannerSchema = z.object({
@@ -45,24 +45,7 @@ export const getActivePromotionalBanner = async (
     const banner = await PromotionalBanner.findOne({
       where: {
         isActive: true,
-        [Op.or]: [
-          {
-            validFrom: null,
-            validUntil: null,
-          },
-          {
-            validFrom: { [Op.lte]: now },
-            validUntil: { [Op.gte]: now },
-          },
-          {
-            validFrom: { [Op.lte]: now },
-            validUntil: null,
-          },
-          {
-            validFrom: null,
-            validUntil: { [Op.gte]: now },
-          },
-        ],
+        ...withinValidityWindow(now),
       },
       order: [
         ["priority", "DESC"],
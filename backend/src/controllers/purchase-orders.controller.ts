@@ -0,0 +1,434 @@
+import { logger } from "@/utils/logger";
+import { Request, Response } from "express";
+import { Op } from "sequelize";
+import { z } from "zod";
+import { PurchaseOrder, PurchaseOrderStatus, Supplier } from "../models";
+import { ResponseHelper } from "../types/api";
+import {
+  createPurchaseOrder as createDraftPurchaseOrder,
+  deletePurchaseOrder as removePurchaseOrder,
+  getPurchaseOrder,
+  listPurchaseOrders,
+  markPurchaseOrderOrdered,
+  receivePurchaseOrder as receivePurchaseOrderGoods,
+  updatePurchaseOrder as applyPurchaseOrderUpdate,
+} from "../services/purchase-order.service";
+
+// Validation schemas
+const supplierSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  contactName: z.string().trim().max(255).nullable().optional(),
+  phoneNumber: z.string().trim().max(50).nullable().optional(),
+  email: z.string().trim().email().max(255).nullable().optional(),
+  address: z.string().trim().nullable().optional(),
+  notes: z.string().trim().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const purchaseOrderItemSchema = z.object({
+  productId: z.string().uuid("Invalid product ID"),
+  quantityOrdered: z.coerce.number().int().positive(),
+  unitCost: z.coerce.number().nonnegative(),
+});
+
+const purchaseOrderSchema = z.object({
+  supplierId: z.string().uuid("Invalid supplier ID"),
+  expectedArrivalAt: z.coerce.date().nullable().optional(),
+  notes: z.string().trim().nullable().optional(),
+  items: z.array(purchaseOrderItemSchema).min(1, "At least one item is required").max(200),
+});
+
+const orderPurchaseOrderSchema = z.object({
+  expectedArrivalAt: z.coerce.date().nullable().optional(),
+});
+
+const receivePurchaseOrderSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        productId: z.string().uuid("Invalid product ID"),
+        quantity: z.coerce.number().int().positive(),
+      })
+    )
+    .min(1, "At least one item is required"),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+const validationError = (res: Response, error: z.ZodError) =>
+  res
+    .status(400)
+    .json(ResponseHelper.error("Validation failed", "VALIDATION_ERROR", error.issues));
+
+const handleServiceError = (
+  res: Response,
+  error: any,
+  message: string,
+  code: string
+) => {
+  if (error.status && error.code) {
+    return res
+      .status(error.status)
+      .json(ResponseHelper.error(error.message, error.code, error.details));
+  }
+  return res.status(500).json(ResponseHelper.error(message, code));
+};
+
+/**
+ * Get suppliers with pagination and filters
+ */
+export const getSuppliers = async (req: Request, res: Response) => {
+  try {
+    const { page = "1", limit = "20", status = "all", search = "" } = req.query;
+
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const offset = (pageNum - 1) * limitNum;
+
+    const where: any = {};
+
+    if (status === "active") {
+      where.isActive = true;
+    } else if (status === "inactive") {
+      where.isActive = false;
+    }
+
+    if (search) {
+      where[Op.or] = [
+        { name: { [Op.iLike]: `%${search}%` } },
+        { contactName: { [Op.iLike]: `%${search}%` } },
+        { phoneNumber: { [Op.iLike]: `%${search}%` } },
+      ];
+    }
+
+    const { rows: suppliers, count: totalCount } = await Supplier.findAndCountAll({
+      where,
+      order: [["name", "ASC"]],
+      offset,
+      limit: limitNum,
+    });
+
+    const totalPages = Math.ceil(totalCount / limitNum);
+
+    return res.status(200).json(
+      ResponseHelper.paginated(suppliers, {
+        current_page: pageNum,
+        per_page: limitNum,
+        total_pages: totalPages,
+        total_items: totalCount,
+        has_next: pageNum < totalPages,
+        has_prev: pageNum > 1,
+      })
+    );
+  } catch (error: any) {
+    logger.error("Get suppliers error:", error);
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to retrieve suppliers", "GET_SUPPLIERS_ERROR"));
+  }
+};
+
+/**
+ * Get supplier by ID
+ */
+export const getSupplierById = async (req: Request, res: Response) => {
+  try {
+    const supplier = await Supplier.findByPk(req.params.id);
+
+    if (!supplier) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Supplier not found", "SUPPLIER_NOT_FOUND"));
+    }
+
+    return res.status(200).json(ResponseHelper.success(supplier));
+  } catch (error: any) {
+    logger.error("Get supplier error:", error);
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to retrieve supplier", "GET_SUPPLIER_ERROR"));
+  }
+};
+
+/**
+ * Create supplier
+ */
+export const createSupplier = async (req: Request, res: Response) => {
+  try {
+    const validationResult = supplierSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const supplier = await Supplier.create(validationResult.data);
+
+    return res.status(201).json(ResponseHelper.success(supplier));
+  } catch (error: any) {
+    logger.error("Create supplier error:", error);
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to create supplier", "CREATE_SUPPLIER_ERROR"));
+  }
+};
+
+/**
+ * Update supplier
+ */
+export const updateSupplier = async (req: Request, res: Response) => {
+  try {
+    const supplier = await Supplier.findByPk(req.params.id);
+    if (!supplier) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Supplier not found", "SUPPLIER_NOT_FOUND"));
+    }
+
+    const validationResult = supplierSchema.partial().safeParse(req.body);
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    await supplier.update(validationResult.data);
+
+    return res.status(200).json(ResponseHelper.success(supplier));
+  } catch (error: any) {
+    logger.error("Update supplier error:", error);
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to update supplier", "UPDATE_SUPPLIER_ERROR"));
+  }
+};
+
+/**
+ * Delete supplier. Suppliers with purchase orders are kept for history
+ * and should be deactivated instead.
+ */
+export const deleteSupplier = async (req: Request, res: Response) => {
+  try {
+    const supplier = await Supplier.findByPk(req.params.id);
+    if (!supplier) {
+      return res
+        .status(404)
+        .json(ResponseHelper.error("Supplier not found", "SUPPLIER_NOT_FOUND"));
+    }
+
+    const purchaseOrders = await PurchaseOrder.count({ where: { supplierId: supplier.id } });
+    if (purchaseOrders > 0) {
+      return res
+        .status(409)
+        .json(
+          ResponseHelper.error(
+            "Supplier has purchase orders; deactivate it instead",
+            "SUPPLIER_IN_USE",
+            { purchaseOrders }
+          )
+        );
+    }
+
+    await supplier.destroy();
+
+    return res.status(200).json(ResponseHelper.success({ id: supplier.id }));
+  } catch (error: any) {
+    logger.error("Delete supplier error:", error);
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to delete supplier", "DELETE_SUPPLIER_ERROR"));
+  }
+};
+
+/**
+ * Get purchase orders with pagination and filters
+ */
+export const getPurchaseOrders = async (req: Request, res: Response) => {
+  try {
+    const { page = "1", limit = "20", status, supplierId, search = "" } = req.query;
+
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const statusFilter = Object.values(PurchaseOrderStatus).includes(
+      status as PurchaseOrderStatus
+    )
+      ? (status as PurchaseOrderStatus)
+      : undefined;
+
+    const { rows: purchaseOrders, count: totalCount } = await listPurchaseOrders({
+      page: pageNum,
+      limit: limitNum,
+      status: statusFilter,
+      supplierId: supplierId ? String(supplierId) : undefined,
+      search: search ? String(search) : undefined,
+    });
+
+    const totalPages = Math.ceil(totalCount / limitNum);
+
+    return res.status(200).json(
+      ResponseHelper.paginated(purchaseOrders, {
+        current_page: pageNum,
+        per_page: limitNum,
+        total_pages: totalPages,
+        total_items: totalCount,
+        has_next: pageNum < totalPages,
+        has_prev: pageNum > 1,
+      })
+    );
+  } catch (error: any) {
+    logger.error("Get purchase orders error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to retrieve purchase orders",
+          "GET_PURCHASE_ORDERS_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Get purchase order by ID with its supplier and items
+ */
+export const getPurchaseOrderById = async (req: Request, res: Response) => {
+  try {
+    const purchaseOrder = await getPurchaseOrder(String(req.params.id));
+
+    return res.status(200).json(ResponseHelper.success(purchaseOrder));
+  } catch (error: any) {
+    logger.error("Get purchase order error:", error);
+    return handleServiceError(
+      res,
+      error,
+      "Failed to retrieve purchase order",
+      "GET_PURCHASE_ORDER_ERROR"
+    );
+  }
+};
+
+/**
+ * Create a DRAFT purchase order
+ */
+export const createPurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const validationResult = purchaseOrderSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const purchaseOrder = await createDraftPurchaseOrder(
+      validationResult.data,
+      req.user?.userId ?? null
+    );
+
+    return res.status(201).json(ResponseHelper.success(purchaseOrder));
+  } catch (error: any) {
+    logger.error("Create purchase order error:", error);
+    return handleServiceError(
+      res,
+      error,
+      "Failed to create purchase order",
+      "CREATE_PURCHASE_ORDER_ERROR"
+    );
+  }
+};
+
+/**
+ * Update purchase order
+ */
+export const updatePurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const validationResult = purchaseOrderSchema.partial().safeParse(req.body);
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const purchaseOrder = await applyPurchaseOrderUpdate(
+      String(req.params.id),
+      validationResult.data
+    );
+
+    return res.status(200).json(ResponseHelper.success(purchaseOrder));
+  } catch (error: any) {
+    logger.error("Update purchase order error:", error);
+    return handleServiceError(
+      res,
+      error,
+      "Failed to update purchase order",
+      "UPDATE_PURCHASE_ORDER_ERROR"
+    );
+  }
+};
+
+/**
+ * Mark a DRAFT purchase order as placed with the supplier
+ */
+export const orderPurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const validationResult = orderPurchaseOrderSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const purchaseOrder = await markPurchaseOrderOrdered(
+      String(req.params.id),
+      validationResult.data.expectedArrivalAt
+    );
+
+    return res.status(200).json(ResponseHelper.success(purchaseOrder));
+  } catch (error: any) {
+    logger.error("Order purchase order error:", error);
+    return handleServiceError(
+      res,
+      error,
+      "Failed to order purchase order",
+      "ORDER_PURCHASE_ORDER_ERROR"
+    );
+  }
+};
+
+/**
+ * Receive goods against a purchase order and add them to stock
+ */
+export const receivePurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const validationResult = receivePurchaseOrderSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const purchaseOrder = await receivePurchaseOrderGoods(
+      String(req.params.id),
+      validationResult.data.items,
+      {
+        adminId: req.user?.userId ?? null,
+        note: validationResult.data.note,
+      }
+    );
+
+    return res.status(200).json(ResponseHelper.success(purchaseOrder));
+  } catch (error: any) {
+    logger.error("Receive purchase order error:", error);
+    return handleServiceError(
+      res,
+      error,
+      "Failed to receive purchase order",
+      "RECEIVE_PURCHASE_ORDER_ERROR"
+    );
+  }
+};
+
+/**
+ * Delete a DRAFT purchase order
+ */
+export const deletePurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const result = await removePurchaseOrder(String(req.params.id));
+
+    return res.status(200).json(ResponseHelper.success(result));
+  } catch (error: any) {
+    logger.error("Delete purchase order error:", error);
+    return handleServiceError(
+      res,
+      error,
+      "Failed to delete purchase order",
+      "DELETE_PURCHASE_ORDER_ERROR"
+    );
+  }
+};
@@ -0,0 +1,242 @@
+import { logger } from "@/utils/logger";
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  PaymentMethod,
+  ReturnDisposition,
+  ReturnReason,
+  ReturnStatus,
+} from "../models";
+import { ResponseHelper } from "../types/api";
+import {
+  createReturnRequest as openReturnRequest,
+  decideReturnRequest,
+  getReturnRequest,
+  listReturnRequests,
+  receiveReturnRequest,
+  refundReturnRequest,
+} from "../services/return.service";
+
+// Validation schemas
+const createReturnSchema = z.object({
+  orderId: z.string().uuid("Invalid order ID"),
+  reason: z.nativeEnum(ReturnReason),
+  reasonNote: z.string().trim().max(2000).nullable().optional(),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().uuid("Invalid order item ID"),
+        quantity: z.coerce.number().int().positive(),
+      })
+    )
+    .min(1, "At least one item is required"),
+});
+
+const decisionSchema = z.object({
+  note: z.string().trim().max(2000).nullable().optional(),
+});
+
+const receiveReturnSchema = z.object({
+  disposition: z.nativeEnum(ReturnDisposition),
+  items: z
+    .array(
+      z.object({
+        returnItemId: z.string().uuid("Invalid return item ID"),
+        disposition: z.nativeEnum(ReturnDisposition),
+      })
+    )
+    .optional(),
+  note: z.string().trim().max(2000).nullable().optional(),
+});
+
+const refundReturnSchema = z.object({
+  method: z.nativeEnum(PaymentMethod),
+  amount: z.coerce.number().positive().optional(),
+  referenceCode: z.string().trim().max(100).optional(),
+  note: z.string().trim().max(2000).optional(),
+});
+
+const validationError = (res: Response, error: z.ZodError) =>
+  res
+    .status(400)
+    .json(ResponseHelper.error("Validation failed", "VALIDATION_ERROR", error.issues));
+
+const handleReturnError = (
+  res: Response,
+  error: any,
+  message: string,
+  code: string
+) => {
+  if (error.status && error.code) {
+    return res
+      .status(error.status)
+      .json(ResponseHelper.error(error.message, error.code, error.details));
+  }
+  return res.status(500).json(ResponseHelper.error(message, code));
+};
+
+/**
+ * Get return requests with pagination and filters
+ */
+export const getReturns = async (req: Request, res: Response) => {
+  try {
+    const { page = "1", limit = "20", status, orderId } = req.query;
+
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const statusFilter = Object.values(ReturnStatus).includes(status as ReturnStatus)
+      ? (status as ReturnStatus)
+      : undefined;
+
+    const { rows: returns, count: totalCount } = await listReturnRequests({
+      page: pageNum,
+      limit: limitNum,
+      status: statusFilter,
+      orderId: orderId ? String(orderId) : undefined,
+    });
+
+    const totalPages = Math.ceil(totalCount / limitNum);
+
+    return res.status(200).json(
+      ResponseHelper.paginated(returns, {
+        current_page: pageNum,
+        per_page: limitNum,
+        total_pages: totalPages,
+        total_items: totalCount,
+        has_next: pageNum < totalPages,
+        has_prev: pageNum > 1,
+      })
+    );
+  } catch (error: any) {
+    logger.error("Get returns error:", error);
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to retrieve returns", "GET_RETURNS_ERROR"));
+  }
+};
+
+/**
+ * Get return request by ID
+ */
+export const getReturnById = async (req: Request, res: Response) => {
+  try {
+    const returnRequest = await getReturnRequest(String(req.params.id));
+
+    return res.status(200).json(ResponseHelper.success(returnRequest));
+  } catch (error: any) {
+    logger.error("Get return error:", error);
+    return handleReturnError(res, error, "Failed to retrieve return", "GET_RETURN_ERROR");
+  }
+};
+
+/**
+ * Open a return for items of a delivered order
+ */
+export const createReturn = async (req: Request, res: Response) => {
+  try {
+    const validationResult = createReturnSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const { orderId, ...input } = validationResult.data;
+    const returnRequest = await openReturnRequest(orderId, input, req.user?.userId ?? null);
+
+    return res.status(201).json(ResponseHelper.success(returnRequest));
+  } catch (error: any) {
+    logger.error("Create return error:", error);
+    return handleReturnError(res, error, "Failed to create return", "CREATE_RETURN_ERROR");
+  }
+};
+
+/**
+ * Approve a requested return
+ */
+export const approveReturn = async (req: Request, res: Response) => {
+  try {
+    const validationResult = decisionSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const returnRequest = await decideReturnRequest(
+      String(req.params.id),
+      ReturnStatus.APPROVED,
+      validationResult.data.note
+    );
+
+    return res.status(200).json(ResponseHelper.success(returnRequest));
+  } catch (error: any) {
+    logger.error("Approve return error:", error);
+    return handleReturnError(res, error, "Failed to approve return", "APPROVE_RETURN_ERROR");
+  }
+};
+
+/**
+ * Reject a requested return
+ */
+export const rejectReturn = async (req: Request, res: Response) => {
+  try {
+    const validationResult = decisionSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const returnRequest = await decideReturnRequest(
+      String(req.params.id),
+      ReturnStatus.REJECTED,
+      validationResult.data.note
+    );
+
+    return res.status(200).json(ResponseHelper.success(returnRequest));
+  } catch (error: any) {
+    logger.error("Reject return error:", error);
+    return handleReturnError(res, error, "Failed to reject return", "REJECT_RETURN_ERROR");
+  }
+};
+
+/**
+ * Receive the goods of an approved return, restocking or writing them off
+ */
+export const receiveReturn = async (req: Request, res: Response) => {
+  try {
+    const validationResult = receiveReturnSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const returnRequest = await receiveReturnRequest(
+      String(req.params.id),
+      validationResult.data,
+      req.user?.userId ?? null
+    );
+
+    return res.status(200).json(ResponseHelper.success(returnRequest));
+  } catch (error: any) {
+    logger.error("Receive return error:", error);
+    return handleReturnError(res, error, "Failed to receive return", "RECEIVE_RETURN_ERROR");
+  }
+};
+
+/**
+ * Refund a return to the customer
+ */
+export const refundReturn = async (req: Request, res: Response) => {
+  try {
+    const validationResult = refundReturnSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const returnRequest = await refundReturnRequest(
+      String(req.params.id),
+      validationResult.data,
+      req.user?.userId ?? null
+    );
+
+    return res.status(200).json(ResponseHelper.success(returnRequest));
+  } catch (error: any) {
+    logger.error("Refund return error:", error);
+    return handleReturnError(res, error, "Failed to refund return", "REFUND_RETURN_ERROR");
+  }
+};
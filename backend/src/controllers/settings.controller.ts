@@ -6,6 +6,27 @@ import {
   getProductWatermarkSettings,
   updateProductWatermarkSettings,
 } from "../services/watermark-settings.service";
+import {
+  getBankTransferSettings as getStoredBankTransferSettings,
+  updateBankTransferSettings as saveBankTransferSettings,
+} from "../services/vietqr.service";
+import {
+  getOrderDocumentSettings as getStoredOrderDocumentSettings,
+  updateOrderDocumentSettings as saveOrderDocumentSettings,
+} from "../services/order-document.service";
+import {
+  getOrderNumberSettings as getStoredOrderNumberSettings,
+  updateOrderNumberSettings as saveOrderNumberSettings,
+} from "../services/order-number.service";
+import {
+  getShippingFeeRules as getStoredShippingFeeRules,
+  updateShippingFeeRules as saveShippingFeeRules,
+} from "../services/shipping-fee.service";
+import {
+  getInventoryAlertSettings as getStoredInventoryAlertSettings,
+  updateInventoryAlertSettings as saveInventoryAlertSettings,
+} from "../services/inventory-alert.service";
+import { z } from "zod";
 
 export interface EffectSettingsDto {
   enabled: boolean;
@@ -190,3 +211,283 @@ export const updateWatermarkSettings = async (req: Request, res: Response) => {
     });
   }
 };
+
+const bankTransferSettingsSchema = z.object({
+  bankBin: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, "Bank BIN must be 6 digits")
+    .optional(),
+  bankName: z.string().trim().max(100).optional(),
+  accountNumber: z
+    .string()
+    .trim()
+    .regex(/^[0-9A-Za-z]{1,19}$/, "Invalid account number")
+    .optional(),
+  accountName: z.string().trim().max(100).optional(),
+});
+
+export const getBankTransferSettings = async (req: Request, res: Response) => {
+  try {
+    const settings = await getStoredBankTransferSettings();
+    return res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    logger.error("Error fetching bank transfer settings:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to fetch bank transfer settings",
+    });
+  }
+};
+
+export const updateBankTransferSettings = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const validationResult = bankTransferSettingsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: validationResult.error.issues,
+      });
+    }
+
+    const updated = await saveBankTransferSettings(validationResult.data);
+
+    return res.status(200).json({
+      success: true,
+      data: updated,
+      message: "Bank transfer settings updated successfully",
+    });
+  } catch (error) {
+    logger.error("Error updating bank transfer settings:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to update bank transfer settings",
+    });
+  }
+};
+
+const orderDocumentSettingsSchema = z.object({
+  shopName: z.string().trim().max(200).optional(),
+  address: z.string().trim().max(200).optional(),
+  phone: z.string().trim().max(200).optional(),
+  email: z.string().trim().max(200).optional(),
+  website: z.string().trim().max(200).optional(),
+  footerNote: z.string().trim().max(200).optional(),
+});
+
+export const getOrderDocumentSettings = async (req: Request, res: Response) => {
+  try {
+    const settings = await getStoredOrderDocumentSettings();
+    return res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    logger.error("Error fetching order document settings:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to fetch order document settings",
+    });
+  }
+};
+
+export const updateOrderDocumentSettings = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const validationResult = orderDocumentSettingsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: validationResult.error.issues,
+      });
+    }
+
+    const updated = await saveOrderDocumentSettings(validationResult.data);
+
+    return res.status(200).json({
+      success: true,
+      data: updated,
+      message: "Order document settings updated successfully",
+    });
+  } catch (error) {
+    logger.error("Error updating order document settings:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to update order document settings",
+    });
+  }
+};
+
+const orderNumberSettingsSchema = z.object({
+  prefix: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9]{1,10}$/, "Prefix must be 1-10 letters or digits")
+    .optional(),
+  dateFormat: z.enum(["YYMMDD", "YYYYMMDD"]).optional(),
+  separator: z.enum(["", "-"]).optional(),
+  sequenceDigits: z.coerce.number().int().min(3).max(8).optional(),
+});
+
+export const getOrderNumberSettings = async (req: Request, res: Response) => {
+  try {
+    const settings = await getStoredOrderNumberSettings();
+    return res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    logger.error("Error fetching order number settings:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to fetch order number settings",
+    });
+  }
+};
+
+export const updateOrderNumberSettings = async (req: Request, res: Response) => {
+  try {
+    const validationResult = orderNumberSettingsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: validationResult.error.issues,
+      });
+    }
+
+    const updated = await saveOrderNumberSettings(validationResult.data);
+
+    return res.status(200).json({
+      success: true,
+      data: updated,
+      message: "Order number settings updated successfully",
+    });
+  } catch (error) {
+    logger.error("Error updating order number settings:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to update order number settings",
+    });
+  }
+};
+
+const shippingFeeRulesSchema = z.object({
+  enabled: z.boolean().optional(),
+  defaultFee: z.coerce.number().nonnegative().optional(),
+  zones: z
+    .array(
+      z.object({
+        city: z.string().trim().min(1, "City is required").max(100),
+        district: z.string().trim().max(100).nullable().optional(),
+        fee: z.coerce.number().nonnegative(),
+      })
+    )
+    .max(200)
+    .optional(),
+  includedCups: z.coerce.number().int().nonnegative().optional(),
+  surchargePerCup: z.coerce.number().nonnegative().optional(),
+  freeShippingThreshold: z.coerce.number().nonnegative().nullable().optional(),
+  vipDiscountPercent: z.coerce.number().min(0).max(100).optional(),
+});
+
+export const getShippingFeeRules = async (req: Request, res: Response) => {
+  try {
+    const rules = await getStoredShippingFeeRules();
+    return res.status(200).json({
+      success: true,
+      data: rules,
+    });
+  } catch (error) {
+    logger.error("Error fetching shipping fee rules:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to fetch shipping fee rules",
+    });
+  }
+};
+
+export const updateShippingFeeRules = async (req: Request, res: Response) => {
+  try {
+    const validationResult = shippingFeeRulesSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: validationResult.error.issues,
+      });
+    }
+
+    const updated = await saveShippingFeeRules(validationResult.data);
+
+    return res.status(200).json({
+      success: true,
+      data: updated,
+      message: "Shipping fee rules updated successfully",
+    });
+  } catch (error) {
+    logger.error("Error updating shipping fee rules:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to update shipping fee rules",
+    });
+  }
+};
+
+const inventoryAlertSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  defaultLowStockThreshold: z.coerce.number().int().nonnegative().max(100_000).optional(),
+});
+
+export const getInventoryAlertSettings = async (req: Request, res: Response) => {
+  try {
+    const settings = await getStoredInventoryAlertSettings();
+    return res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    logger.error("Error fetching inventory alert settings:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to fetch inventory alert settings",
+    });
+  }
+};
+
+export const updateInventoryAlertSettings = async (req: Request, res: Response) => {
+  try {
+    const validationResult = inventoryAlertSettingsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: validationResult.error.issues,
+      });
+    }
+
+    const updated = await saveInventoryAlertSettings(validationResult.data);
+
+    return res.status(200).json({
+      success: true,
+      data: updated,
+      message: "Inventory alert settings updated successfully",
+    });
+  } catch (error) {
+    logger.error("Error updating inventory alert settings:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to update inventory alert settings",
+    });
+  }
+};
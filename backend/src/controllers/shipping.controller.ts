@@ -0,0 +1,208 @@
+import { logger } from "@/utils/logger";
+import { timingSafeEqual } from "crypto";
+import { Request, Response } from "express";
+import { z } from "zod";
+import { ResponseHelper } from "../types/api";
+import {
+  createOrderShipment,
+  handleShippingWebhook,
+  quoteOrderShipping,
+} from "../services/shipping.service";
+import { listShippingProviders, ShippingProviderCode } from "../services/shipping";
+import { suggestShippingFee } from "../services/shipping-fee.service";
+
+// Validation schemas
+const quoteShippingSchema = z.object({
+  provider: z.nativeEnum(ShippingProviderCode),
+  weightGrams: z.coerce.number().int().positive().max(50_000).optional(),
+  apply: z.boolean().optional().default(false),
+});
+
+const shippingFeeSuggestionSchema = z.object({
+  customerId: z.string().uuid("Invalid customer ID"),
+  city: z.string().trim().min(1, "City is required"),
+  district: z.string().trim().optional(),
+  itemQuantity: z.coerce.number().int().nonnegative(),
+  subtotal: z.coerce.number().nonnegative(),
+});
+
+const createShipmentSchema = z.object({
+  provider: z.nativeEnum(ShippingProviderCode),
+  weightGrams: z.coerce.number().int().positive().max(50_000).optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+/**
+ * List carriers and whether each one is configured
+ */
+export const getShippingProviders = async (req: Request, res: Response) => {
+  return res.status(200).json(ResponseHelper.success(listShippingProviders()));
+};
+
+/**
+ * Suggest a shipping fee from the fee rules before an order is saved
+ */
+export const getShippingFeeSuggestion = async (req: Request, res: Response) => {
+  try {
+    const validationResult = shippingFeeSuggestionSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const { customerId, ...input } = validationResult.data;
+    const suggestion = await suggestShippingFee(customerId, input);
+
+    return res.status(200).json(ResponseHelper.success(suggestion));
+  } catch (error: any) {
+    logger.error("Shipping fee suggestion error:", error);
+    return res
+      .status(500)
+      .json(
+        ResponseHelper.error(
+          "Failed to suggest shipping fee",
+          "SHIPPING_FEE_SUGGESTION_ERROR"
+        )
+      );
+  }
+};
+
+/**
+ * Quote the carrier fee for an order, optionally applying it as the
+ * order's shipping cost
+ */
+export const quoteShipping = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validationResult = quoteShippingSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const { provider, ...options } = validationResult.data;
+    const result = await quoteOrderShipping(id, provider, options);
+
+    return res.status(200).json(ResponseHelper.success(result));
+  } catch (error: any) {
+    logger.error("Quote shipping error:", error);
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to quote shipping", "QUOTE_SHIPPING_ERROR"));
+  }
+};
+
+/**
+ * Create a carrier shipment for an order
+ */
+export const createShipment = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validationResult = createShipmentSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Validation failed",
+            "VALIDATION_ERROR",
+            validationResult.error.issues
+          )
+        );
+    }
+
+    const { provider, ...options } = validationResult.data;
+    const result = await createOrderShipment(id, provider, {
+      ...options,
+      adminId: req.user?.userId ?? null,
+    });
+
+    return res.status(201).json(ResponseHelper.success(result));
+  } catch (error: any) {
+    logger.error("Create shipment error:", error);
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to create shipment", "CREATE_SHIPMENT_ERROR"));
+  }
+};
+
+const isValidWebhookToken = (token: unknown): boolean => {
+  const secret = process.env.SHIPPING_WEBHOOK_SECRET;
+  if (!secret || typeof token !== "string") return false;
+
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+/**
+ * Carrier status webhook. Carriers are given the URL with `?token=` set to
+ * SHIPPING_WEBHOOK_SECRET (or send it as the `x-webhook-token` header).
+ */
+export const receiveShippingWebhook = async (req: Request, res: Response) => {
+  try {
+    const token = req.get("x-webhook-token") ?? req.query.token;
+
+    if (!isValidWebhookToken(token)) {
+      return res
+        .status(401)
+        .json(ResponseHelper.error("Invalid webhook token", "INVALID_WEBHOOK_TOKEN"));
+    }
+
+    const provider = req.params.provider as ShippingProviderCode;
+    if (!Object.values(ShippingProviderCode).includes(provider)) {
+      return res
+        .status(404)
+        .json(
+          ResponseHelper.error(
+            `Unknown shipping provider: ${req.params.provider}`,
+            "UNKNOWN_SHIPPING_PROVIDER"
+          )
+        );
+    }
+
+    const result = await handleShippingWebhook(provider, req.body);
+
+    return res.status(200).json(ResponseHelper.success(result));
+  } catch (error: any) {
+    logger.error("Shipping webhook error:", error);
+    if (error.status && error.code) {
+      return res
+        .status(error.status)
+        .json(ResponseHelper.error(error.message, error.code, error.details));
+    }
+
+    return res
+      .status(500)
+      .json(ResponseHelper.error("Failed to process shipping webhook", "SHIPPING_WEBHOOK_ERROR"));
+  }
+};
@@ -70,7 +70,12 @@ import productsRoutes, { adminProductsRouter } from "./routes/products.routes";
 import customersRoutes from "./routes/customers.routes";
 import customerPhoneRoutes from "./routes/customerPhone.routes";
 import ordersRoutes from "./routes/orders.routes";
+import couponsRoutes from "./routes/coupons.routes";
+import purchaseOrdersRoutes from "./routes/purchase-orders.routes";
+import returnsRoutes from "./routes/returns.routes";
 import consultationRoutes from "./routes/consultation.routes";
+import orderTrackingRoutes from "./routes/order-tracking.routes";
+import checkoutRoutes from "./routes/checkout.routes";
 import uploadRoutes from "./routes/upload.routes";
 import dashboardRoutes from "./routes/dashboard.routes";
 import notificationRoutes from "./routes/notification.routes";
@@ -78,6 +83,7 @@ import heroImagesRoutes from "./routes/hero-images.routes";
 import analyticsRoutes from "./routes/analytics.routes";
 import promotionalBannersRoutes from "./routes/promotional-banners.routes";
 import settingsRoutes from "./routes/settings.routes";
+import shippingWebhooksRoutes from "./routes/shipping-webhooks.routes";
 import newsRoutes from "./routes/news.routes";
 import { searchRoutes } from "./routes/search.routes";
 
@@ -215,6 +221,11 @@ app.use("/api/search", searchRoutes);
 
 // Public routes (for customer-facing website)
 app.use("/api/consultations", consultationRoutes);
+app.use("/api/orders", orderTrackingRoutes);
+app.use("/api/checkout", checkoutRoutes);
+
+// Carrier webhooks (authenticated by shared token, not admin session)
+app.use("/api/shipping/webhooks", shippingWebhooksRoutes);
 
 // Admin routes (for admin panel)
 app.use("/api/admin/upload", uploadRoutes);
@@ -225,6 +236,9 @@ app.use("/api/admin/products", adminProductsRouter);
 app.use("/api/admin/customers", customersRoutes);
 app.use("/api/admin", customerPhoneRoutes);
 app.use("/api/admin/orders", ordersRoutes);
+app.use("/api/admin/coupons", couponsRoutes);
+app.use("/api/admin/purchase-orders", purchaseOrdersRoutes);
+app.use("/api/admin/returns", returnsRoutes);
 app.use("/api/admin/consultations", consultationRoutes);
 app.use("/api/admin/dashboard", dashboardRoutes);
 app.use("/api/admin/notifications", notificationRoutes);
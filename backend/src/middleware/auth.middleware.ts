@@ -311,6 +311,78 @@ export const rateLimitAnalytics = rateLimit({
   },
 });
 
+/**
+ * Rate limiting for public order tracking lookups
+ */
+export const rateLimitOrderTracking = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30, // 30 lookups per 15 minutes per IP
+  standardHeaders: "draft-8",
+  legacyHeaders: false,
+  passOnStoreError: true,
+  store: createRateLimitStore("order_tracking_rate_limit:"),
+  keyGenerator: (req: Request): string =>
+    ipKeyGenerator(req.ip ?? req.socket.remoteAddress ?? "unknown"),
+  handler: (_req, res) => {
+    return res
+      .status(429)
+      .json(
+        ResponseHelper.error(
+          "Too many requests. Please try again later.",
+          "RATE_LIMIT_EXCEEDED",
+          { retryAfter: 900 }
+        )
+      );
+  },
+});
+
+const orderTrackingFailureHandler = (_req: Request, res: Response) => {
+  return res
+    .status(429)
+    .json(
+      ResponseHelper.error(
+        "Too many failed lookups. Please try again later.",
+        "RATE_LIMIT_EXCEEDED",
+        { retryAfter: 3600 }
+      )
+    );
+};
+
+/**
+ * Failed order tracking lookups (unknown order or wrong phone) per IP.
+ * Only failures count, so customers checking their own order are not
+ * slowed down while guessing order numbers or phones is.
+ */
+export const rateLimitOrderTrackingFailuresByIp = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5,
+  standardHeaders: "draft-8",
+  legacyHeaders: false,
+  skipSuccessfulRequests: true,
+  passOnStoreError: true,
+  store: createRateLimitStore("order_tracking_fail_ip:"),
+  keyGenerator: (req: Request): string =>
+    ipKeyGenerator(req.ip ?? req.socket.remoteAddress ?? "unknown"),
+  handler: orderTrackingFailureHandler,
+});
+
+/**
+ * Failed lookups per order number, against guessing one order's phone
+ * from many IPs
+ */
+export const rateLimitOrderTrackingFailuresByOrder = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10,
+  standardHeaders: "draft-8",
+  legacyHeaders: false,
+  skipSuccessfulRequests: true,
+  passOnStoreError: true,
+  store: createRateLimitStore("order_tracking_fail_order:"),
+  keyGenerator: (req: Request): string =>
+    String(req.body?.orderNumber ?? "").trim().toUpperCase().slice(0, 32) || "unknown",
+  handler: orderTrackingFailureHandler,
+});
+
 /**
  * Admin session middleware - tracks admin activity
  */
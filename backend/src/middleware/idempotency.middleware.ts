@@ -0,0 +1,228 @@
+import { logger } from "@/utils/logger";
+import { createHash } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { createClient } from "redis";
+import { Op, UniqueConstraintError } from "sequelize";
+import { IdempotencyKey } from "../models";
+import { ResponseHelper } from "../types/api";
+
+const isRedisEnabled = process.env.REDIS_ENABLED === "true" || (process.env.NODE_ENV === "production" && process.env.REDIS_ENABLED !== "false");
+
+let redisClient: ReturnType<typeof createClient> | undefined;
+
+if (isRedisEnabled) {
+  redisClient = createClient({
+    url: process.env.REDIS_URL || "redis://localhost:6379",
+  });
+
+  redisClient.on("error", (error) => logger.error("Redis idempotency client error:", error));
+  redisClient.connect().catch((error) => {
+    logger.error("Failed to connect Redis idempotency client:", error);
+  });
+}
+
+/** How long a finished response is replayed */
+const RESPONSE_TTL_SECONDS = 24 * 60 * 60;
+/** A first request still running after this long is presumed dead */
+const IN_PROGRESS_TTL_SECONDS = 5 * 60;
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7E]{1,255}$/;
+
+interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  /** Null while the first request is still running */
+  response: StoredResponse | null;
+}
+
+interface IdempotencyStore {
+  /** Take the key for this request, or return whoever holds it */
+  claim(scope: string, key: string, fingerprint: string): Promise<IdempotencyRecord | null>;
+  complete(scope: string, key: string, response: StoredResponse): Promise<void>;
+  release(scope: string, key: string): Promise<void>;
+}
+
+const redisStore: IdempotencyStore = {
+  async claim(scope, key, fingerprint) {
+    const redisKey = `idempotency:${scope}:${key}`;
+    const record: IdempotencyRecord = { fingerprint, response: null };
+    const claimed = await redisClient!.set(redisKey, JSON.stringify(record), {
+      NX: true,
+      EX: IN_PROGRESS_TTL_SECONDS,
+    });
+    if (claimed) return null;
+
+    const existing = await redisClient!.get(redisKey);
+    // Expired in between: treat as still taken rather than racing again
+    return existing ? (JSON.parse(existing) as IdempotencyRecord) : record;
+  },
+
+  async complete(scope, key, response) {
+    const redisKey = `idempotency:${scope}:${key}`;
+    const existing = await redisClient!.get(redisKey);
+    if (!existing) return;
+
+    const record = JSON.parse(existing) as IdempotencyRecord;
+    await redisClient!.set(redisKey, JSON.stringify({ ...record, response }), {
+      EX: RESPONSE_TTL_SECONDS,
+    });
+  },
+
+  async release(scope, key) {
+    await redisClient!.del(`idempotency:${scope}:${key}`);
+  },
+};
+
+const databaseStore: IdempotencyStore = {
+  async claim(scope, key, fingerprint) {
+    await IdempotencyKey.destroy({ where: { expiresAt: { [Op.lt]: new Date() } } });
+
+    try {
+      await IdempotencyKey.create({
+        scope,
+        idempotencyKey: key,
+        fingerprint,
+        expiresAt: new Date(Date.now() + IN_PROGRESS_TTL_SECONDS * 1000),
+      });
+      return null;
+    } catch (error) {
+      if (!(error instanceof UniqueConstraintError)) throw error;
+    }
+
+    const existing = await IdempotencyKey.findOne({
+      where: { scope, idempotencyKey: key },
+    });
+    if (!existing) return { fingerprint, response: null };
+
+    return {
+      fingerprint: existing.fingerprint,
+      response:
+        existing.statusCode !== null
+          ? { statusCode: existing.statusCode, body: existing.responseBody }
+          : null,
+    };
+  },
+
+  async complete(scope, key, response) {
+    await IdempotencyKey.update(
+      {
+        statusCode: response.statusCode,
+        responseBody: response.body,
+        expiresAt: new Date(Date.now() + RESPONSE_TTL_SECONDS * 1000),
+      },
+      { where: { scope, idempotencyKey: key } }
+    );
+  },
+
+  async release(scope, key) {
+    await IdempotencyKey.destroy({
+      where: { scope, idempotencyKey: key, statusCode: { [Op.is]: null } },
+    });
+  },
+};
+
+// Redis when it is up, the database otherwise
+const getStore = (): IdempotencyStore =>
+  isRedisEnabled && redisClient?.isOpen && redisClient.isReady ? redisStore : databaseStore;
+
+/**
+ * Make a create endpoint safe to retry. A request sent with an
+ * `Idempotency-Key` header runs once; repeating it with the same key and
+ * body replays the first response instead of creating a duplicate, and
+ * reusing the key for a different body is refused. Keys are scoped to the
+ * endpoint and, when signed in, the user. Requests without the header are
+ * handled as usual.
+ */
+export const idempotency = (scope: string) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.get("Idempotency-Key");
+    if (key === undefined) {
+      return next();
+    }
+
+    if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+      res
+        .status(400)
+        .json(
+          ResponseHelper.error(
+            "Idempotency-Key must be 1-255 visible ASCII characters",
+            "INVALID_IDEMPOTENCY_KEY"
+          )
+        );
+      return;
+    }
+
+    const keyScope = `${scope}:${req.user?.userId ?? "public"}`;
+    const fingerprint = createHash("sha256")
+      .update(JSON.stringify([req.method, req.originalUrl, req.body ?? null]))
+      .digest("hex");
+    const store = getStore();
+
+    let existing: IdempotencyRecord | null;
+    try {
+      existing = await store.claim(keyScope, key, fingerprint);
+    } catch (error) {
+      // Do not turn a storage outage into failed orders
+      logger.error("Idempotency store error:", error);
+      return next();
+    }
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        res
+          .status(422)
+          .json(
+            ResponseHelper.error(
+              "Idempotency-Key was already used for a different request",
+              "IDEMPOTENCY_KEY_REUSED"
+            )
+          );
+        return;
+      }
+
+      if (!existing.response) {
+        res.setHeader("Retry-After", "5");
+        res
+          .status(409)
+          .json(
+            ResponseHelper.error(
+              "A request with this Idempotency-Key is still being processed",
+              "IDEMPOTENCY_REQUEST_IN_PROGRESS"
+            )
+          );
+        return;
+      }
+
+      res.setHeader("Idempotent-Replayed", "true");
+      res.status(existing.response.statusCode).json(existing.response.body);
+      return;
+    }
+
+    let settled = false;
+    const settle = (response: StoredResponse | null) => {
+      if (settled) return;
+      settled = true;
+
+      // Server errors are not final; let the client retry with the same key
+      const work =
+        response && response.statusCode < 500
+          ? store.complete(keyScope, key, response)
+          : store.release(keyScope, key);
+      work.catch((error) => logger.error("Failed to save idempotent response:", error));
+    };
+
+    const originalJson = res.json.bind(res);
+    res.json = (body: any) => {
+      settle({ statusCode: res.statusCode, body });
+      return originalJson(body);
+    };
+    // Responses sent without res.json are not replayable
+    res.on("finish", () => settle(null));
+
+    next();
+  };
+};
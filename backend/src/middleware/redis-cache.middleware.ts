@@ -16,6 +16,27 @@ if (isRedisEnabled) {
   redisClient.connect().catch(logger.error);
 }
 
+/**
+ * How long a response may be cached. A handler whose response goes out of
+ * date at a known moment (e.g. a scheduled price starting) sets
+ * `res.locals.cacheUntil`, and the response is neither fresh nor served
+ * stale past it.
+ */
+const getCacheLifetime = (res: Response, durationInSeconds: number) => {
+  const until: Date | undefined = res.locals.cacheUntil;
+  const untilSeconds = until
+    ? Math.floor((until.getTime() - Date.now()) / 1000)
+    : Infinity;
+  const fresh = Math.min(durationInSeconds, untilSeconds);
+
+  return {
+    until: until?.getTime(),
+    fresh,
+    retain: Math.min(durationInSeconds * 10, untilSeconds),
+    staleWhileRevalidate: Math.min(durationInSeconds * 10, untilSeconds - fresh),
+  };
+};
+
 /**
  * Middleware to cache API responses in Redis with Stale-While-Revalidate.
  * @param durationInSeconds How long to keep the cache fresh. Default: 300s (5 minutes)
@@ -38,6 +59,12 @@ export const redisCacheMiddleware = (durationInSeconds: number = 300) => {
 
     const key = `api_cache:${req.originalUrl || req.url}`;
 
+    // Stale window advertised to clients, never past the entry's cap
+    const getStaleSeconds = (cached: { _until?: number }, now: number, freshSeconds: number) =>
+      cached._until
+        ? Math.max(0, Math.min(durationInSeconds * 10, Math.floor((cached._until - now) / 1000) - freshSeconds))
+        : durationInSeconds * 10;
+
     try {
       const cachedString = await redisClient.get(key);
 
@@ -50,7 +77,7 @@ export const redisCacheMiddleware = (durationInSeconds: number = 300) => {
           res.setHeader("X-Cache", "HIT");
           res.setHeader("Content-Type", "application/json");
           const remainingSec = Math.floor((cached._staleAt - now) / 1000);
-          res.setHeader("Cache-Control", `public, max-age=${remainingSec}, stale-while-revalidate=${durationInSeconds * 10}`);
+          res.setHeader("Cache-Control", `public, max-age=${remainingSec}, stale-while-revalidate=${getStaleSeconds(cached, now, remainingSec)}`);
           res.send(cached.data);
           return;
         }
@@ -58,7 +85,7 @@ export const redisCacheMiddleware = (durationInSeconds: number = 300) => {
         // 2. Stale cache -> SWR: serve immediately, refresh in background
         res.setHeader("X-Cache", "STALE");
         res.setHeader("Content-Type", "application/json");
-        res.setHeader("Cache-Control", `public, max-age=0, stale-while-revalidate=${durationInSeconds * 10}`);
+        res.setHeader("Cache-Control", `public, max-age=0, stale-while-revalidate=${getStaleSeconds(cached, now, 0)}`);
         res.send(cached.data);
 
         // Only allow one background refresh at a time per cache key
@@ -69,12 +96,14 @@ export const redisCacheMiddleware = (durationInSeconds: number = 300) => {
         res.status = () => res;
         res.setHeader = () => res;
         res.json = (body: any) => {
-          if (body && body.success === true) {
+          const lifetime = getCacheLifetime(res, durationInSeconds);
+          if (body && body.success === true && lifetime.retain > 0) {
             const cacheData = {
-              _staleAt: Date.now() + durationInSeconds * 1000,
+              _staleAt: Date.now() + lifetime.fresh * 1000,
+              _until: lifetime.until,
               data: body,
             };
-            redisClient.setEx(key, durationInSeconds * 10, JSON.stringify(cacheData))
+            redisClient.setEx(key, lifetime.retain, JSON.stringify(cacheData))
               .then(() => redisClient.del(lockKey))
               .catch((err: any) => logger.error("Redis Cache SWR Set Error:", err));
           } else {
@@ -92,15 +121,17 @@ export const redisCacheMiddleware = (durationInSeconds: number = 300) => {
 
       const originalJson = res.json.bind(res);
       res.json = (body: any) => {
-        if (body && body.success === true) {
+        const lifetime = getCacheLifetime(res, durationInSeconds);
+        if (body && body.success === true && lifetime.retain > 0) {
           const cacheData = {
-            _staleAt: Date.now() + durationInSeconds * 1000,
+            _staleAt: Date.now() + lifetime.fresh * 1000,
+            _until: lifetime.until,
             data: body,
           };
-          redisClient.setEx(key, durationInSeconds * 10, JSON.stringify(cacheData)).catch((err: any) => {
+          redisClient.setEx(key, lifetime.retain, JSON.stringify(cacheData)).catch((err: any) => {
             logger.error("Redis Cache Set Error:", err);
           });
-          res.setHeader("Cache-Control", `public, max-age=${durationInSeconds}, stale-while-revalidate=${durationInSeconds * 10}`);
+          res.setHeader("Cache-Control", `public, max-age=${lifetime.fresh}, stale-while-revalidate=${lifetime.staleWhileRevalidate}`);
         }
         return originalJson(body);
       };
@@ -36,6 +36,7 @@ const corsOptions: cors.CorsOptions = {
     "Accept",
     "Origin",
     "Cookie",
+    "Idempotency-Key",
     "Set-Cookie",
     "Access-Control-Allow-Credentials",
   ],
@@ -44,6 +45,7 @@ const corsOptions: cors.CorsOptions = {
     "X-Has-Next-Page",
     "X-Token-Refresh-Needed",
     "X-Refresh-Type",
+    "Idempotent-Replayed",
     "Set-Cookie",
   ],
   maxAge: 86400, // 24 hours
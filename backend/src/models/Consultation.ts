@@ -36,6 +36,7 @@ export class Consultation extends Model<ConsultationAttributes, ConsultationCrea
 
   // Associations
   declare consultationItems?: any[];
+  declare order?: any;
 
   static associate(models: any) {
     Consultation.hasMany(models.ConsultationItem, {
@@ -43,6 +44,10 @@ export class Consultation extends Model<ConsultationAttributes, ConsultationCrea
       as: 'consultationItems',
       onDelete: 'CASCADE',
     });
+    Consultation.hasOne(models.Order, {
+      foreignKey: 'consultationId',
+      as: 'order',
+    });
   }
 }
 
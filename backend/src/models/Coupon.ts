@@ -0,0 +1,190 @@
+import { DataTypes, Model, Sequelize } from "sequelize";
+
+export enum CouponType {
+  PERCENTAGE = "PERCENTAGE",
+  FIXED_AMOUNT = "FIXED_AMOUNT",
+  FREE_SHIPPING = "FREE_SHIPPING",
+}
+
+export interface CouponAttributes {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  type: CouponType;
+  /** Percent off for PERCENTAGE, VND off for FIXED_AMOUNT, unused for FREE_SHIPPING */
+  value: number;
+  /** Cap on a PERCENTAGE discount */
+  maxDiscountAmount: number | null;
+  /** Minimum merchandise subtotal, shipping excluded */
+  minOrderValue: number | null;
+  validFrom: Date | null;
+  validUntil: Date | null;
+  isActive: boolean;
+  /** Total redemptions allowed across all customers */
+  usageLimit: number | null;
+  usageLimitPerCustomer: number | null;
+  /** Restrict the discount to these products and/or categories; empty means all */
+  productIds: string[];
+  categoryIds: string[];
+  createdByAdminId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CouponCreationAttributes
+  extends Omit<CouponAttributes, "id" | "createdAt" | "updatedAt"> {
+  id?: string;
+}
+
+export class Coupon
+  extends Model<CouponAttributes, CouponCreationAttributes>
+  implements CouponAttributes
+{
+  declare id: string;
+  declare code: string;
+  declare name: string;
+  declare description: string | null;
+  declare type: CouponType;
+  declare value: number;
+  declare maxDiscountAmount: number | null;
+  declare minOrderValue: number | null;
+  declare validFrom: Date | null;
+  declare validUntil: Date | null;
+  declare isActive: boolean;
+  declare usageLimit: number | null;
+  declare usageLimitPerCustomer: number | null;
+  declare productIds: string[];
+  declare categoryIds: string[];
+  declare createdByAdminId: string | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Associations
+  declare redemptions?: any[];
+  declare createdByAdmin?: any;
+
+  static associate(models: any) {
+    Coupon.hasMany(models.CouponRedemption, {
+      foreignKey: "couponId",
+      as: "redemptions",
+    });
+    Coupon.belongsTo(models.AdminUser, {
+      foreignKey: "createdByAdminId",
+      as: "createdByAdmin",
+    });
+  }
+}
+
+export const CouponModel = (sequelize: Sequelize) => {
+  Coupon.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      code: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        unique: true,
+      },
+      name: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+      },
+      description: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      type: {
+        type: DataTypes.ENUM(...Object.values(CouponType)),
+        allowNull: false,
+      },
+      value: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+      },
+      maxDiscountAmount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: true,
+        field: "max_discount_amount",
+      },
+      minOrderValue: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: true,
+        field: "min_order_value",
+      },
+      validFrom: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: "valid_from",
+      },
+      validUntil: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: "valid_until",
+      },
+      isActive: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+        field: "is_active",
+      },
+      usageLimit: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: "usage_limit",
+      },
+      usageLimitPerCustomer: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: "usage_limit_per_customer",
+      },
+      productIds: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        defaultValue: [],
+        field: "product_ids",
+      },
+      categoryIds: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        defaultValue: [],
+        field: "category_ids",
+      },
+      createdByAdminId: {
+        type: DataTypes.CHAR(36),
+        allowNull: true,
+        field: "created_by_admin_id",
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "created_at",
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "updated_at",
+      },
+    },
+    {
+      sequelize,
+      modelName: "Coupon",
+      tableName: "coupons",
+      timestamps: true,
+      createdAt: "createdAt",
+      updatedAt: "updatedAt",
+      indexes: [
+        {
+          name: "idx_coupons_active_valid_until",
+          fields: ["is_active", "valid_until"],
+        },
+      ],
+    }
+  );
+
+  return Coupon;
+};
@@ -0,0 +1,126 @@
+import { DataTypes, Model, Sequelize } from "sequelize";
+
+export interface CouponRedemptionAttributes {
+  id: string;
+  couponId: string;
+  orderId: string;
+  customerId: string;
+  /** Code as entered, kept in case the coupon is renamed */
+  code: string;
+  discountAmount: number;
+  shippingDiscountAmount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CouponRedemptionCreationAttributes
+  extends Omit<CouponRedemptionAttributes, "id" | "createdAt" | "updatedAt"> {
+  id?: string;
+}
+
+export class CouponRedemption
+  extends Model<CouponRedemptionAttributes, CouponRedemptionCreationAttributes>
+  implements CouponRedemptionAttributes
+{
+  declare id: string;
+  declare couponId: string;
+  declare orderId: string;
+  declare customerId: string;
+  declare code: string;
+  declare discountAmount: number;
+  declare shippingDiscountAmount: number;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Associations
+  declare coupon?: any;
+  declare order?: any;
+  declare customer?: any;
+
+  static associate(models: any) {
+    CouponRedemption.belongsTo(models.Coupon, {
+      foreignKey: "couponId",
+      as: "coupon",
+    });
+    CouponRedemption.belongsTo(models.Order, {
+      foreignKey: "orderId",
+      as: "order",
+      onDelete: "CASCADE",
+    });
+    CouponRedemption.belongsTo(models.Customer, {
+      foreignKey: "customerId",
+      as: "customer",
+    });
+  }
+}
+
+export const CouponRedemptionModel = (sequelize: Sequelize) => {
+  CouponRedemption.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      couponId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "coupon_id",
+      },
+      // One coupon per order
+      orderId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        unique: true,
+        field: "order_id",
+      },
+      customerId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "customer_id",
+      },
+      code: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+      },
+      discountAmount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: "discount_amount",
+      },
+      shippingDiscountAmount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: "shipping_discount_amount",
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "created_at",
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "updated_at",
+      },
+    },
+    {
+      sequelize,
+      modelName: "CouponRedemption",
+      tableName: "coupon_redemptions",
+      timestamps: true,
+      createdAt: "createdAt",
+      updatedAt: "updatedAt",
+      indexes: [
+        {
+          name: "idx_coupon_redemptions_coupon_customer",
+          fields: ["coupon_id", "customer_id"],
+        },
+      ],
+    }
+  );
+
+  return CouponRedemption;
+};
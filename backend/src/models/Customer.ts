@@ -9,7 +9,8 @@ export interface CustomerAttributes {
   isVip: boolean;
   createdAt: Date;
   updatedAt: Date;
-  createdByAdminId: string;
+  /** Null for customers created by a guest checkout */
+  createdByAdminId: string | null;
 }
 
 export interface CustomerCreationAttributes extends Omit<CustomerAttributes, 'id' | 'createdAt' | 'updatedAt'> {
@@ -25,7 +26,7 @@ export class Customer extends Model<CustomerAttributes, CustomerCreationAttribut
   declare isVip: boolean;
   declare createdAt: Date;
   declare updatedAt: Date;
-  declare createdByAdminId: string;
+  declare createdByAdminId: string | null;
 
   // Associations
   declare addresses?: any[];
@@ -106,7 +107,7 @@ export const CustomerModel = (sequelize: Sequelize) => {
       },
       createdByAdminId: {
         type: DataTypes.UUID,
-        allowNull: false,
+        allowNull: true,
         field: 'created_by_admin_id',
       },
     },
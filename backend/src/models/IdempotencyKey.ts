@@ -0,0 +1,116 @@
+import { DataTypes, Model, Sequelize } from "sequelize";
+
+/**
+ * Stored outcome of a request sent with an Idempotency-Key header. Used
+ * when Redis is not available; see idempotency.middleware.
+ */
+export interface IdempotencyKeyAttributes {
+  id: string;
+  /** Endpoint and caller the key belongs to */
+  scope: string;
+  idempotencyKey: string;
+  /** Hash of the request the key was first used with */
+  fingerprint: string;
+  /** Null while the first request is still running */
+  statusCode: number | null;
+  responseBody: unknown | null;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IdempotencyKeyCreationAttributes
+  extends Omit<
+    IdempotencyKeyAttributes,
+    "id" | "createdAt" | "updatedAt" | "statusCode" | "responseBody"
+  > {
+  id?: string;
+  statusCode?: number | null;
+  responseBody?: unknown | null;
+}
+
+export class IdempotencyKey
+  extends Model<IdempotencyKeyAttributes, IdempotencyKeyCreationAttributes>
+  implements IdempotencyKeyAttributes
+{
+  declare id: string;
+  declare scope: string;
+  declare idempotencyKey: string;
+  declare fingerprint: string;
+  declare statusCode: number | null;
+  declare responseBody: unknown | null;
+  declare expiresAt: Date;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export const IdempotencyKeyModel = (sequelize: Sequelize) => {
+  IdempotencyKey.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      scope: {
+        type: DataTypes.STRING(200),
+        allowNull: false,
+      },
+      idempotencyKey: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        field: "idempotency_key",
+      },
+      fingerprint: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+      },
+      statusCode: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: "status_code",
+      },
+      responseBody: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+        field: "response_body",
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "expires_at",
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "created_at",
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "updated_at",
+      },
+    },
+    {
+      sequelize,
+      modelName: "IdempotencyKey",
+      tableName: "idempotency_keys",
+      timestamps: true,
+      createdAt: "createdAt",
+      updatedAt: "updatedAt",
+      indexes: [
+        {
+          name: "idx_idempotency_keys_scope_key",
+          unique: true,
+          fields: ["scope", "idempotency_key"],
+        },
+        {
+          name: "idx_idempotency_keys_expires_at",
+          fields: ["expires_at"],
+        },
+      ],
+    }
+  );
+
+  return IdempotencyKey;
+};
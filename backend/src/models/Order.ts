@@ -1,4 +1,5 @@
 import { DataTypes, Model, Sequelize } from 'sequelize';
+import { PaymentMethod } from './Payment';
 
 export enum OrderType {
   CUSTOM = 'CUSTOM',
@@ -14,6 +15,33 @@ export enum OrderStatus {
   CANCELLED = 'CANCELLED',
 }
 
+/**
+ * Allowed order status transitions. Staying on the same status is always
+ * allowed (e.g. to update notes) and is not listed here.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
+  [OrderStatus.CONFIRMED]: [
+    OrderStatus.PENDING,
+    OrderStatus.PROCESSING,
+    OrderStatus.CANCELLED,
+  ],
+  [OrderStatus.PROCESSING]: [
+    OrderStatus.CONFIRMED,
+    OrderStatus.SHIPPED,
+    OrderStatus.CANCELLED,
+  ],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED, OrderStatus.CANCELLED],
+  [OrderStatus.DELIVERED]: [],
+  // Re-opening a cancelled order deducts stock again
+  [OrderStatus.CANCELLED]: [OrderStatus.PENDING],
+};
+
+export const canTransitionOrderStatus = (
+  from: OrderStatus,
+  to: OrderStatus
+): boolean => from === to || ORDER_STATUS_TRANSITIONS[from].includes(to);
+
 export interface OrderAttributes {
   id: string;
   orderNumber: string;
@@ -26,12 +54,24 @@ export interface OrderAttributes {
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
-  confirmedAt?: Date;
-  completedAt?: Date;
+  confirmedAt?: Date | null;
+  completedAt?: Date | null;
   deliveryAddress?: any;
   originalShippingCost: number;
   shippingDiscount: number;
   customerMainPhone?: string;
+  paymentMethod?: PaymentMethod | null;
+  shippingProvider?: string | null;
+  trackingCode?: string | null;
+  shippingLabelUrl?: string | null;
+  shippingStatus?: string | null;
+  couponCode?: string | null;
+  discountAmount?: number;
+  consultationId?: string | null;
+  /** Deposit the customer must pay up front, e.g. to secure a pre-order */
+  depositAmount?: number;
+  /** An admin placed the order past the products' purchase limits */
+  purchaseLimitOverride?: boolean;
 }
 
 export interface OrderCreationAttributes extends Omit<OrderAttributes, 'id' | 'createdAt' | 'updatedAt'> {
@@ -50,16 +90,31 @@ export class Order extends Model<OrderAttributes, OrderCreationAttributes> imple
   declare notes?: string;
   declare createdAt: Date;
   declare updatedAt: Date;
-  declare confirmedAt?: Date;
-  declare completedAt?: Date;
+  declare confirmedAt?: Date | null;
+  declare completedAt?: Date | null;
   declare deliveryAddress?: any;
   declare originalShippingCost: number;
   declare shippingDiscount: number;
   declare customerMainPhone?: string;
+  declare paymentMethod?: PaymentMethod | null;
+  declare shippingProvider?: string | null;
+  declare trackingCode?: string | null;
+  declare shippingLabelUrl?: string | null;
+  declare shippingStatus?: string | null;
+  declare couponCode?: string | null;
+  declare discountAmount: number;
+  declare consultationId?: string | null;
+  declare depositAmount: number;
+  declare purchaseLimitOverride: boolean;
 
   // Associations
   declare items?: any[];
   declare customer?: any;
+  declare statusHistory?: any[];
+  declare payments?: any[];
+  declare couponRedemption?: any;
+  declare consultation?: any;
+  declare returnRequests?: any[];
 
   static associate(models: any) {
     Order.hasMany(models.OrderItem, {
@@ -71,6 +126,30 @@ export class Order extends Model<OrderAttributes, OrderCreationAttributes> imple
       foreignKey: 'customerId',
       as: 'customer',
     });
+    Order.hasMany(models.OrderStatusHistory, {
+      foreignKey: 'orderId',
+      as: 'statusHistory',
+      onDelete: 'CASCADE',
+    });
+    Order.hasMany(models.Payment, {
+      foreignKey: 'orderId',
+      as: 'payments',
+      onDelete: 'CASCADE',
+    });
+    Order.hasMany(models.ReturnRequest, {
+      foreignKey: 'orderId',
+      as: 'returnRequests',
+      onDelete: 'CASCADE',
+    });
+    Order.hasOne(models.CouponRedemption, {
+      foreignKey: 'orderId',
+      as: 'couponRedemption',
+      onDelete: 'CASCADE',
+    });
+    Order.belongsTo(models.Consultation, {
+      foreignKey: 'consultationId',
+      as: 'consultation',
+    });
   }
 }
 
@@ -166,6 +245,63 @@ export const OrderModel = (sequelize: Sequelize) => {
         allowNull: true,
         field: 'customer_main_phone',
       },
+      paymentMethod: {
+        type: DataTypes.ENUM(...Object.values(PaymentMethod)),
+        allowNull: true,
+        field: 'payment_method',
+      },
+      shippingProvider: {
+        type: DataTypes.STRING(30),
+        allowNull: true,
+        field: 'shipping_provider',
+      },
+      trackingCode: {
+        type: DataTypes.STRING(100),
+        allowNull: true,
+        field: 'tracking_code',
+      },
+      shippingLabelUrl: {
+        type: DataTypes.STRING(500),
+        allowNull: true,
+        field: 'shipping_label_url',
+      },
+      // Last carrier status received, as reported by the carrier
+      shippingStatus: {
+        type: DataTypes.STRING(50),
+        allowNull: true,
+        field: 'shipping_status',
+      },
+      couponCode: {
+        type: DataTypes.STRING(50),
+        allowNull: true,
+        field: 'coupon_code',
+      },
+      // Coupon discount on merchandise; shipping discounts use shippingDiscount
+      discountAmount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: 'discount_amount',
+      },
+      // Consultation the order was converted from
+      consultationId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        unique: true,
+        field: 'consultation_id',
+      },
+      depositAmount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: 'deposit_amount',
+      },
+      purchaseLimitOverride: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+        field: 'purchase_limit_override',
+      },
     },
     {
       sequelize,
@@ -191,6 +327,10 @@ export const OrderModel = (sequelize: Sequelize) => {
           name: "idx_orders_type_created_at",
           fields: ["order_type", "created_at"],
         },
+        {
+          name: "idx_orders_tracking_code",
+          fields: ["tracking_code"],
+        },
       ],
     }
   );
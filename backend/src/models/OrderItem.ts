@@ -6,12 +6,18 @@ export interface OrderItemAttributes {
   productId: string;
   quantity: number;
   productSnapshot: any;
+  /** Ordered before release; stock is allocated when it arrives */
+  isPreOrder: boolean;
+  /** Pre-order units already taken from stock */
+  allocatedQuantity: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export interface OrderItemCreationAttributes extends Omit<OrderItemAttributes, 'id' | 'createdAt' | 'updatedAt'> {
+export interface OrderItemCreationAttributes extends Omit<OrderItemAttributes, 'id' | 'createdAt' | 'updatedAt' | 'isPreOrder' | 'allocatedQuantity'> {
   id?: string;
+  isPreOrder?: boolean;
+  allocatedQuantity?: number;
 }
 
 export class OrderItem extends Model<OrderItemAttributes, OrderItemCreationAttributes> implements OrderItemAttributes {
@@ -20,6 +26,8 @@ export class OrderItem extends Model<OrderItemAttributes, OrderItemCreationAttri
   declare productId: string;
   declare quantity: number;
   declare productSnapshot: any;
+  declare isPreOrder: boolean;
+  declare allocatedQuantity: number;
   declare createdAt: Date;
   declare updatedAt: Date;
 
@@ -68,6 +76,18 @@ export const OrderItemModel = (sequelize: Sequelize) => {
         allowNull: false,
         field: 'product_snapshot',
       },
+      isPreOrder: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+        field: 'is_pre_order',
+      },
+      allocatedQuantity: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'allocated_quantity',
+      },
       createdAt: {
         type: DataTypes.DATE,
         allowNull: false,
@@ -0,0 +1,106 @@
+import { DataTypes, Model, Sequelize } from "sequelize";
+import { OrderStatus } from "./Order";
+
+export interface OrderStatusHistoryAttributes {
+  id: string;
+  orderId: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  changedByAdminId: string | null;
+  note?: string | null;
+  createdAt: Date;
+}
+
+export interface OrderStatusHistoryCreationAttributes
+  extends Omit<OrderStatusHistoryAttributes, "id" | "createdAt"> {
+  id?: string;
+}
+
+export class OrderStatusHistory
+  extends Model<
+    OrderStatusHistoryAttributes,
+    OrderStatusHistoryCreationAttributes
+  >
+  implements OrderStatusHistoryAttributes
+{
+  declare id: string;
+  declare orderId: string;
+  declare fromStatus: OrderStatus | null;
+  declare toStatus: OrderStatus;
+  declare changedByAdminId: string | null;
+  declare note?: string | null;
+  declare createdAt: Date;
+
+  // Associations
+  declare order?: any;
+  declare changedByAdmin?: any;
+
+  static associate(models: any) {
+    OrderStatusHistory.belongsTo(models.Order, {
+      foreignKey: "orderId",
+      as: "order",
+      onDelete: "CASCADE",
+    });
+    OrderStatusHistory.belongsTo(models.AdminUser, {
+      foreignKey: "changedByAdminId",
+      as: "changedByAdmin",
+    });
+  }
+}
+
+export const OrderStatusHistoryModel = (sequelize: Sequelize) => {
+  OrderStatusHistory.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      orderId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "order_id",
+      },
+      fromStatus: {
+        type: DataTypes.ENUM(...Object.values(OrderStatus)),
+        allowNull: true,
+        field: "from_status",
+      },
+      toStatus: {
+        type: DataTypes.ENUM(...Object.values(OrderStatus)),
+        allowNull: false,
+        field: "to_status",
+      },
+      changedByAdminId: {
+        type: DataTypes.CHAR(36),
+        allowNull: true,
+        field: "changed_by_admin_id",
+      },
+      note: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "created_at",
+      },
+    },
+    {
+      sequelize,
+      modelName: "OrderStatusHistory",
+      tableName: "order_status_history",
+      timestamps: true,
+      createdAt: "createdAt",
+      updatedAt: false,
+      indexes: [
+        {
+          name: "idx_order_status_history_order_created",
+          fields: ["order_id", "created_at"],
+        },
+      ],
+    }
+  );
+
+  return OrderStatusHistory;
+};
@@ -0,0 +1,168 @@
+import { DataTypes, Model, Sequelize } from "sequelize";
+
+export enum PaymentMethod {
+  CASH = "cash",
+  CREDIT_CARD = "credit_card",
+  DEBIT_CARD = "debit_card",
+  BANK_TRANSFER = "bank_transfer",
+  MOMO = "momo",
+  ZALOPAY = "zalopay",
+}
+
+export enum PaymentType {
+  PAYMENT = "PAYMENT",
+  REFUND = "REFUND",
+}
+
+export enum PaymentStatus {
+  PENDING = "PENDING",
+  COMPLETED = "COMPLETED",
+  FAILED = "FAILED",
+}
+
+/**
+ * Payment state of an order, derived from its completed payments and refunds
+ */
+export enum OrderPaymentStatus {
+  UNPAID = "UNPAID",
+  PARTIALLY_PAID = "PARTIALLY_PAID",
+  PAID = "PAID",
+}
+
+export interface PaymentAttributes {
+  id: string;
+  orderId: string;
+  type: PaymentType;
+  method: PaymentMethod;
+  amount: number;
+  status: PaymentStatus;
+  referenceCode?: string | null;
+  paidAt?: Date | null;
+  note?: string | null;
+  recordedByAdminId?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaymentCreationAttributes
+  extends Omit<PaymentAttributes, "id" | "createdAt" | "updatedAt"> {
+  id?: string;
+}
+
+export class Payment
+  extends Model<PaymentAttributes, PaymentCreationAttributes>
+  implements PaymentAttributes
+{
+  declare id: string;
+  declare orderId: string;
+  declare type: PaymentType;
+  declare method: PaymentMethod;
+  declare amount: number;
+  declare status: PaymentStatus;
+  declare referenceCode?: string | null;
+  declare paidAt?: Date | null;
+  declare note?: string | null;
+  declare recordedByAdminId?: string | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Associations
+  declare order?: any;
+  declare recordedByAdmin?: any;
+
+  static associate(models: any) {
+    Payment.belongsTo(models.Order, {
+      foreignKey: "orderId",
+      as: "order",
+      onDelete: "CASCADE",
+    });
+    Payment.belongsTo(models.AdminUser, {
+      foreignKey: "recordedByAdminId",
+      as: "recordedByAdmin",
+    });
+  }
+}
+
+export const PaymentModel = (sequelize: Sequelize) => {
+  Payment.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      orderId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "order_id",
+      },
+      type: {
+        type: DataTypes.ENUM(...Object.values(PaymentType)),
+        allowNull: false,
+        defaultValue: PaymentType.PAYMENT,
+      },
+      method: {
+        type: DataTypes.ENUM(...Object.values(PaymentMethod)),
+        allowNull: false,
+      },
+      amount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.ENUM(...Object.values(PaymentStatus)),
+        allowNull: false,
+        defaultValue: PaymentStatus.COMPLETED,
+      },
+      referenceCode: {
+        type: DataTypes.STRING(100),
+        allowNull: true,
+        field: "reference_code",
+      },
+      paidAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: "paid_at",
+      },
+      note: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      recordedByAdminId: {
+        type: DataTypes.CHAR(36),
+        allowNull: true,
+        field: "recorded_by_admin_id",
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "created_at",
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "updated_at",
+      },
+    },
+    {
+      sequelize,
+      modelName: "Payment",
+      tableName: "payments",
+      timestamps: true,
+      createdAt: "createdAt",
+      updatedAt: "updatedAt",
+      indexes: [
+        {
+          name: "idx_payments_order_id",
+          fields: ["order_id"],
+        },
+        {
+          name: "idx_payments_reference_code",
+          fields: ["reference_code"],
+        },
+      ],
+    }
+  );
+
+  return Payment;
+};
@@ -1,5 +1,24 @@
 import { DataTypes, Model, Sequelize } from "sequelize";
 
+/**
+ * Stock level last notified to admins, used to send each alert once
+ */
+export enum StockAlertState {
+  IN_STOCK = "IN_STOCK",
+  LOW_STOCK = "LOW_STOCK",
+  OUT_OF_STOCK = "OUT_OF_STOCK",
+}
+
+/**
+ * Whether a product can be bought now. PRE_ORDER products are sold before
+ * stock arrives; COMING_SOON ones are announced but not yet orderable.
+ */
+export enum ProductAvailability {
+  IN_STOCK = "IN_STOCK",
+  COMING_SOON = "COMING_SOON",
+  PRE_ORDER = "PRE_ORDER",
+}
+
 export interface ProductAttributes {
   id: string;
   slug: string;
@@ -17,7 +36,20 @@ export interface ProductAttributes {
   createdAt: Date;
   updatedAt: Date;
   unitPrice: number;
+  /** Purchase cost per unit, copied onto order items when sold */
+  costPrice?: number | null;
   createdByAdminId: string;
+  /** Null falls back to the global default threshold */
+  lowStockThreshold?: number | null;
+  stockAlertState?: StockAlertState;
+  availability?: ProductAvailability;
+  /** Expected release of a COMING_SOON or PRE_ORDER product, YYYY-MM-DD */
+  expectedReleaseDate?: string | null;
+  /** Purchase limits for limited drops; null means no limit */
+  maxQuantityPerOrder?: number | null;
+  maxQuantityPerCustomer?: number | null;
+  /** Days of earlier orders counted against maxQuantityPerCustomer; null counts all */
+  purchaseLimitWindowDays?: number | null;
 }
 
 export interface ProductCreationAttributes
@@ -45,7 +77,15 @@ export class Product
   declare createdAt: Date;
   declare updatedAt: Date;
   declare unitPrice: number;
+  declare costPrice?: number | null;
   declare createdByAdminId: string;
+  declare lowStockThreshold?: number | null;
+  declare stockAlertState?: StockAlertState;
+  declare availability?: ProductAvailability;
+  declare expectedReleaseDate?: string | null;
+  declare maxQuantityPerOrder?: number | null;
+  declare maxQuantityPerCustomer?: number | null;
+  declare purchaseLimitWindowDays?: number | null;
 
   // Associations - Use declare to avoid shadowing Sequelize getters/setters
   declare consultationItems?: any[];
@@ -89,6 +129,26 @@ export class Product
       as: "translations",
       onDelete: "CASCADE",
     });
+    Product.hasMany(models.ProductPriceHistory, {
+      foreignKey: "productId",
+      as: "priceHistory",
+      onDelete: "CASCADE",
+    });
+    Product.hasMany(models.ProductScheduledPrice, {
+      foreignKey: "productId",
+      as: "scheduledPrices",
+      onDelete: "CASCADE",
+    });
+    Product.hasMany(models.StockMovement, {
+      foreignKey: "productId",
+      as: "stockMovements",
+      onDelete: "CASCADE",
+    });
+    Product.hasMany(models.ProductWaitlistEntry, {
+      foreignKey: "productId",
+      as: "waitlistEntries",
+      onDelete: "CASCADE",
+    });
     Product.belongsTo(models.Capacity, {
       foreignKey: "capacityId",
       as: "capacity",
@@ -191,11 +251,52 @@ export const ProductModel = (sequelize: Sequelize) => {
         defaultValue: 0,
         field: "unit_price",
       },
+      costPrice: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: true,
+        field: "cost_price",
+      },
       createdByAdminId: {
         type: DataTypes.UUID,
         allowNull: false,
         field: "created_by_admin_id",
       },
+      lowStockThreshold: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: "low_stock_threshold",
+      },
+      stockAlertState: {
+        type: DataTypes.ENUM(...Object.values(StockAlertState)),
+        allowNull: false,
+        defaultValue: StockAlertState.IN_STOCK,
+        field: "stock_alert_state",
+      },
+      availability: {
+        type: DataTypes.ENUM(...Object.values(ProductAvailability)),
+        allowNull: false,
+        defaultValue: ProductAvailability.IN_STOCK,
+      },
+      expectedReleaseDate: {
+        type: DataTypes.DATEONLY,
+        allowNull: true,
+        field: "expected_release_date",
+      },
+      maxQuantityPerOrder: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: "max_quantity_per_order",
+      },
+      maxQuantityPerCustomer: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: "max_quantity_per_customer",
+      },
+      purchaseLimitWindowDays: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: "purchase_limit_window_days",
+      },
     },
     {
       sequelize,
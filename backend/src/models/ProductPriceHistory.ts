@@ -0,0 +1,134 @@
+import { DataTypes, Model, Sequelize } from "sequelize";
+
+export enum PriceChangeSource {
+  MANUAL_EDIT = "MANUAL_EDIT",
+  ORDER_OVERRIDE = "ORDER_OVERRIDE",
+  BULK_IMPORT = "BULK_IMPORT",
+}
+
+export interface ProductPriceHistoryAttributes {
+  id: string;
+  productId: string;
+  /** Null for the price a product was created with */
+  oldPrice: number | null;
+  newPrice: number;
+  source: PriceChangeSource;
+  changedByAdminId: string | null;
+  /** Order whose creation overrode the price */
+  orderId: string | null;
+  note: string | null;
+  createdAt: Date;
+}
+
+export interface ProductPriceHistoryCreationAttributes
+  extends Omit<
+    ProductPriceHistoryAttributes,
+    "id" | "createdAt" | "changedByAdminId" | "orderId" | "note"
+  > {
+  id?: string;
+  changedByAdminId?: string | null;
+  orderId?: string | null;
+  note?: string | null;
+}
+
+export class ProductPriceHistory
+  extends Model<ProductPriceHistoryAttributes, ProductPriceHistoryCreationAttributes>
+  implements ProductPriceHistoryAttributes
+{
+  declare id: string;
+  declare productId: string;
+  declare oldPrice: number | null;
+  declare newPrice: number;
+  declare source: PriceChangeSource;
+  declare changedByAdminId: string | null;
+  declare orderId: string | null;
+  declare note: string | null;
+  declare createdAt: Date;
+
+  // Associations
+  declare product?: any;
+  declare changedByAdmin?: any;
+  declare order?: any;
+
+  static associate(models: any) {
+    ProductPriceHistory.belongsTo(models.Product, {
+      foreignKey: "productId",
+      as: "product",
+      onDelete: "CASCADE",
+    });
+    ProductPriceHistory.belongsTo(models.AdminUser, {
+      foreignKey: "changedByAdminId",
+      as: "changedByAdmin",
+    });
+    ProductPriceHistory.belongsTo(models.Order, {
+      foreignKey: "orderId",
+      as: "order",
+    });
+  }
+}
+
+export const ProductPriceHistoryModel = (sequelize: Sequelize) => {
+  ProductPriceHistory.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "product_id",
+      },
+      oldPrice: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: true,
+        field: "old_price",
+      },
+      newPrice: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        field: "new_price",
+      },
+      source: {
+        type: DataTypes.ENUM(...Object.values(PriceChangeSource)),
+        allowNull: false,
+      },
+      changedByAdminId: {
+        type: DataTypes.CHAR(36),
+        allowNull: true,
+        field: "changed_by_admin_id",
+      },
+      orderId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: "order_id",
+      },
+      note: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "created_at",
+      },
+    },
+    {
+      sequelize,
+      modelName: "ProductPriceHistory",
+      tableName: "product_price_history",
+      timestamps: true,
+      createdAt: "createdAt",
+      updatedAt: false,
+      indexes: [
+        {
+          name: "idx_product_price_history_product_created",
+          fields: ["product_id", "created_at"],
+        },
+      ],
+    }
+  );
+
+  return ProductPriceHistory;
+};
@@ -0,0 +1,122 @@
+import { DataTypes, Model, Sequelize } from "sequelize";
+
+export interface ProductScheduledPriceAttributes {
+  id: string;
+  productId: string;
+  price: number;
+  startsAt: Date;
+  /** Null keeps the price until another schedule or edit replaces it */
+  endsAt: Date | null;
+  label: string | null;
+  createdByAdminId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProductScheduledPriceCreationAttributes
+  extends Omit<
+    ProductScheduledPriceAttributes,
+    "id" | "createdAt" | "updatedAt" | "endsAt" | "label" | "createdByAdminId"
+  > {
+  id?: string;
+  endsAt?: Date | null;
+  label?: string | null;
+  createdByAdminId?: string | null;
+}
+
+export class ProductScheduledPrice
+  extends Model<ProductScheduledPriceAttributes, ProductScheduledPriceCreationAttributes>
+  implements ProductScheduledPriceAttributes
+{
+  declare id: string;
+  declare productId: string;
+  declare price: number;
+  declare startsAt: Date;
+  declare endsAt: Date | null;
+  declare label: string | null;
+  declare createdByAdminId: string | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Associations
+  declare product?: any;
+  declare createdByAdmin?: any;
+
+  static associate(models: any) {
+    ProductScheduledPrice.belongsTo(models.Product, {
+      foreignKey: "productId",
+      as: "product",
+      onDelete: "CASCADE",
+    });
+    ProductScheduledPrice.belongsTo(models.AdminUser, {
+      foreignKey: "createdByAdminId",
+      as: "createdByAdmin",
+    });
+  }
+}
+
+export const ProductScheduledPriceModel = (sequelize: Sequelize) => {
+  ProductScheduledPrice.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "product_id",
+      },
+      price: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      startsAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "starts_at",
+      },
+      endsAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: "ends_at",
+      },
+      label: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+      },
+      createdByAdminId: {
+        type: DataTypes.CHAR(36),
+        allowNull: true,
+        field: "created_by_admin_id",
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "created_at",
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "updated_at",
+      },
+    },
+    {
+      sequelize,
+      modelName: "ProductScheduledPrice",
+      tableName: "product_scheduled_prices",
+      timestamps: true,
+      createdAt: "createdAt",
+      updatedAt: "updatedAt",
+      indexes: [
+        {
+          name: "idx_product_scheduled_prices_product_starts",
+          fields: ["product_id", "starts_at"],
+        },
+      ],
+    }
+  );
+
+  return ProductScheduledPrice;
+};
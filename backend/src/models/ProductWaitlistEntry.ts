@@ -0,0 +1,118 @@
+import { DataTypes, Model, Sequelize } from "sequelize";
+
+export enum WaitlistContactType {
+  PHONE = "PHONE",
+  ZALO = "ZALO",
+  MESSENGER = "MESSENGER",
+}
+
+export interface ProductWaitlistEntryAttributes {
+  id: string;
+  productId: string;
+  contactType: WaitlistContactType;
+  /** Phone number, Zalo id or Messenger id */
+  contactValue: string;
+  customerName: string | null;
+  /** Set once admins got the entry in a back-in-stock report */
+  notifiedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProductWaitlistEntryCreationAttributes
+  extends Omit<
+    ProductWaitlistEntryAttributes,
+    "id" | "createdAt" | "updatedAt" | "customerName" | "notifiedAt"
+  > {
+  id?: string;
+  customerName?: string | null;
+  notifiedAt?: Date | null;
+}
+
+export class ProductWaitlistEntry
+  extends Model<ProductWaitlistEntryAttributes, ProductWaitlistEntryCreationAttributes>
+  implements ProductWaitlistEntryAttributes
+{
+  declare id: string;
+  declare productId: string;
+  declare contactType: WaitlistContactType;
+  declare contactValue: string;
+  declare customerName: string | null;
+  declare notifiedAt: Date | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Associations
+  declare product?: any;
+
+  static associate(models: any) {
+    ProductWaitlistEntry.belongsTo(models.Product, {
+      foreignKey: "productId",
+      as: "product",
+      onDelete: "CASCADE",
+    });
+  }
+}
+
+export const ProductWaitlistEntryModel = (sequelize: Sequelize) => {
+  ProductWaitlistEntry.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "product_id",
+      },
+      contactType: {
+        type: DataTypes.ENUM(...Object.values(WaitlistContactType)),
+        allowNull: false,
+        field: "contact_type",
+      },
+      contactValue: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        field: "contact_value",
+      },
+      customerName: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+        field: "customer_name",
+      },
+      notifiedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: "notified_at",
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "created_at",
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "updated_at",
+      },
+    },
+    {
+      sequelize,
+      modelName: "ProductWaitlistEntry",
+      tableName: "product_waitlist_entries",
+      timestamps: true,
+      createdAt: "createdAt",
+      updatedAt: "updatedAt",
+      indexes: [
+        {
+          name: "idx_product_waitlist_entries_product_notified",
+          fields: ["product_id", "notified_at"],
+        },
+      ],
+    }
+  );
+
+  return ProductWaitlistEntry;
+};
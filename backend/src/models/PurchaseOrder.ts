@@ -0,0 +1,176 @@
+import { DataTypes, Model, Sequelize } from "sequelize";
+
+export enum PurchaseOrderStatus {
+  DRAFT = "DRAFT",
+  ORDERED = "ORDERED",
+  PARTIALLY_RECEIVED = "PARTIALLY_RECEIVED",
+  RECEIVED = "RECEIVED",
+}
+
+export interface PurchaseOrderAttributes {
+  id: string;
+  poNumber: string;
+  supplierId: string;
+  status: PurchaseOrderStatus;
+  /** Sum of quantityOrdered x unitCost over the items */
+  totalCost: number;
+  expectedArrivalAt: Date | null;
+  orderedAt: Date | null;
+  /** Set when the last item is fully received */
+  receivedAt: Date | null;
+  notes: string | null;
+  createdByAdminId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PurchaseOrderCreationAttributes
+  extends Omit<
+    PurchaseOrderAttributes,
+    | "id"
+    | "createdAt"
+    | "updatedAt"
+    | "status"
+    | "totalCost"
+    | "expectedArrivalAt"
+    | "orderedAt"
+    | "receivedAt"
+    | "notes"
+    | "createdByAdminId"
+  > {
+  id?: string;
+  status?: PurchaseOrderStatus;
+  totalCost?: number;
+  expectedArrivalAt?: Date | null;
+  orderedAt?: Date | null;
+  receivedAt?: Date | null;
+  notes?: string | null;
+  createdByAdminId?: string | null;
+}
+
+export class PurchaseOrder
+  extends Model<PurchaseOrderAttributes, PurchaseOrderCreationAttributes>
+  implements PurchaseOrderAttributes
+{
+  declare id: string;
+  declare poNumber: string;
+  declare supplierId: string;
+  declare status: PurchaseOrderStatus;
+  declare totalCost: number;
+  declare expectedArrivalAt: Date | null;
+  declare orderedAt: Date | null;
+  declare receivedAt: Date | null;
+  declare notes: string | null;
+  declare createdByAdminId: string | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Associations
+  declare supplier?: any;
+  declare items?: any[];
+  declare createdByAdmin?: any;
+
+  static associate(models: any) {
+    PurchaseOrder.belongsTo(models.Supplier, {
+      foreignKey: "supplierId",
+      as: "supplier",
+    });
+    PurchaseOrder.hasMany(models.PurchaseOrderItem, {
+      foreignKey: "purchaseOrderId",
+      as: "items",
+      onDelete: "CASCADE",
+    });
+    PurchaseOrder.belongsTo(models.AdminUser, {
+      foreignKey: "createdByAdminId",
+      as: "createdByAdmin",
+    });
+  }
+}
+
+export const PurchaseOrderModel = (sequelize: Sequelize) => {
+  PurchaseOrder.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      poNumber: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        unique: true,
+        field: "po_number",
+      },
+      supplierId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "supplier_id",
+      },
+      status: {
+        type: DataTypes.ENUM(...Object.values(PurchaseOrderStatus)),
+        allowNull: false,
+        defaultValue: PurchaseOrderStatus.DRAFT,
+      },
+      totalCost: {
+        type: DataTypes.DECIMAL(12, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: "total_cost",
+      },
+      expectedArrivalAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: "expected_arrival_at",
+      },
+      orderedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: "ordered_at",
+      },
+      receivedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: "received_at",
+      },
+      notes: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      createdByAdminId: {
+        type: DataTypes.CHAR(36),
+        allowNull: true,
+        field: "created_by_admin_id",
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "created_at",
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "updated_at",
+      },
+    },
+    {
+      sequelize,
+      modelName: "PurchaseOrder",
+      tableName: "purchase_orders",
+      timestamps: true,
+      createdAt: "createdAt",
+      updatedAt: "updatedAt",
+      indexes: [
+        {
+          name: "idx_purchase_orders_supplier_id",
+          fields: ["supplier_id"],
+        },
+        {
+          name: "idx_purchase_orders_status_expected_arrival",
+          fields: ["status", "expected_arrival_at"],
+        },
+      ],
+    }
+  );
+
+  return PurchaseOrder;
+};
@@ -0,0 +1,121 @@
+import { DataTypes, Model, Sequelize } from "sequelize";
+
+export interface PurchaseOrderItemAttributes {
+  id: string;
+  purchaseOrderId: string;
+  productId: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  /** Price paid to the supplier per unit */
+  unitCost: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PurchaseOrderItemCreationAttributes
+  extends Omit<
+    PurchaseOrderItemAttributes,
+    "id" | "createdAt" | "updatedAt" | "quantityReceived"
+  > {
+  id?: string;
+  quantityReceived?: number;
+}
+
+export class PurchaseOrderItem
+  extends Model<PurchaseOrderItemAttributes, PurchaseOrderItemCreationAttributes>
+  implements PurchaseOrderItemAttributes
+{
+  declare id: string;
+  declare purchaseOrderId: string;
+  declare productId: string;
+  declare quantityOrdered: number;
+  declare quantityReceived: number;
+  declare unitCost: number;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Associations
+  declare purchaseOrder?: any;
+  declare product?: any;
+
+  static associate(models: any) {
+    PurchaseOrderItem.belongsTo(models.PurchaseOrder, {
+      foreignKey: "purchaseOrderId",
+      as: "purchaseOrder",
+      onDelete: "CASCADE",
+    });
+    PurchaseOrderItem.belongsTo(models.Product, {
+      foreignKey: "productId",
+      as: "product",
+    });
+  }
+}
+
+export const PurchaseOrderItemModel = (sequelize: Sequelize) => {
+  PurchaseOrderItem.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      purchaseOrderId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "purchase_order_id",
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "product_id",
+      },
+      quantityOrdered: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: "quantity_ordered",
+      },
+      quantityReceived: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: "quantity_received",
+      },
+      unitCost: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: "unit_cost",
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "created_at",
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "updated_at",
+      },
+    },
+    {
+      sequelize,
+      modelName: "PurchaseOrderItem",
+      tableName: "purchase_order_items",
+      timestamps: true,
+      createdAt: "createdAt",
+      updatedAt: "updatedAt",
+      indexes: [
+        {
+          name: "idx_purchase_order_items_purchase_order_id",
+          fields: ["purchase_order_id"],
+        },
+        {
+          name: "idx_purchase_order_items_product_id",
+          fields: ["product_id"],
+        },
+      ],
+    }
+  );
+
+  return PurchaseOrderItem;
+};
@@ -0,0 +1,219 @@
+import { DataTypes, Model, Sequelize } from "sequelize";
+
+export enum ReturnStatus {
+  REQUESTED = "REQUESTED",
+  APPROVED = "APPROVED",
+  REJECTED = "REJECTED",
+  /** Goods are back with the shop */
+  RECEIVED = "RECEIVED",
+  REFUNDED = "REFUNDED",
+}
+
+export enum ReturnReason {
+  BROKEN = "BROKEN",
+  WRONG_COLOR = "WRONG_COLOR",
+  WRONG_ITEM = "WRONG_ITEM",
+  DEFECTIVE = "DEFECTIVE",
+  CHANGED_MIND = "CHANGED_MIND",
+  OTHER = "OTHER",
+}
+
+export interface ReturnRequestAttributes {
+  id: string;
+  orderId: string;
+  status: ReturnStatus;
+  reason: ReturnReason;
+  /** Customer's explanation */
+  reasonNote: string | null;
+  /** Admin note on the approval, rejection or receipt */
+  adminNote: string | null;
+  refundAmount: number | null;
+  /** REFUND payment issued for this return */
+  refundPaymentId: string | null;
+  approvedAt: Date | null;
+  rejectedAt: Date | null;
+  receivedAt: Date | null;
+  refundedAt: Date | null;
+  createdByAdminId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReturnRequestCreationAttributes
+  extends Omit<
+    ReturnRequestAttributes,
+    | "id"
+    | "createdAt"
+    | "updatedAt"
+    | "status"
+    | "reasonNote"
+    | "adminNote"
+    | "refundAmount"
+    | "refundPaymentId"
+    | "approvedAt"
+    | "rejectedAt"
+    | "receivedAt"
+    | "refundedAt"
+    | "createdByAdminId"
+  > {
+  id?: string;
+  status?: ReturnStatus;
+  reasonNote?: string | null;
+  adminNote?: string | null;
+  refundAmount?: number | null;
+  refundPaymentId?: string | null;
+  approvedAt?: Date | null;
+  rejectedAt?: Date | null;
+  receivedAt?: Date | null;
+  refundedAt?: Date | null;
+  createdByAdminId?: string | null;
+}
+
+export class ReturnRequest
+  extends Model<ReturnRequestAttributes, ReturnRequestCreationAttributes>
+  implements ReturnRequestAttributes
+{
+  declare id: string;
+  declare orderId: string;
+  declare status: ReturnStatus;
+  declare reason: ReturnReason;
+  declare reasonNote: string | null;
+  declare adminNote: string | null;
+  declare refundAmount: number | null;
+  declare refundPaymentId: string | null;
+  declare approvedAt: Date | null;
+  declare rejectedAt: Date | null;
+  declare receivedAt: Date | null;
+  declare refundedAt: Date | null;
+  declare createdByAdminId: string | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Associations
+  declare order?: any;
+  declare items?: any[];
+  declare refundPayment?: any;
+  declare createdByAdmin?: any;
+
+  static associate(models: any) {
+    ReturnRequest.belongsTo(models.Order, {
+      foreignKey: "orderId",
+      as: "order",
+      onDelete: "CASCADE",
+    });
+    ReturnRequest.hasMany(models.ReturnRequestItem, {
+      foreignKey: "returnRequestId",
+      as: "items",
+      onDelete: "CASCADE",
+    });
+    ReturnRequest.belongsTo(models.Payment, {
+      foreignKey: "refundPaymentId",
+      as: "refundPayment",
+    });
+    ReturnRequest.belongsTo(models.AdminUser, {
+      foreignKey: "createdByAdminId",
+      as: "createdByAdmin",
+    });
+  }
+}
+
+export const ReturnRequestModel = (sequelize: Sequelize) => {
+  ReturnRequest.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      orderId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "order_id",
+      },
+      status: {
+        type: DataTypes.ENUM(...Object.values(ReturnStatus)),
+        allowNull: false,
+        defaultValue: ReturnStatus.REQUESTED,
+      },
+      reason: {
+        type: DataTypes.ENUM(...Object.values(ReturnReason)),
+        allowNull: false,
+      },
+      reasonNote: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: "reason_note",
+      },
+      adminNote: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: "admin_note",
+      },
+      refundAmount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: true,
+        field: "refund_amount",
+      },
+      refundPaymentId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: "refund_payment_id",
+      },
+      approvedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: "approved_at",
+      },
+      rejectedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: "rejected_at",
+      },
+      receivedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: "received_at",
+      },
+      refundedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: "refunded_at",
+      },
+      createdByAdminId: {
+        type: DataTypes.CHAR(36),
+        allowNull: true,
+        field: "created_by_admin_id",
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "created_at",
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "updated_at",
+      },
+    },
+    {
+      sequelize,
+      modelName: "ReturnRequest",
+      tableName: "return_requests",
+      timestamps: true,
+      createdAt: "createdAt",
+      updatedAt: "updatedAt",
+      indexes: [
+        {
+          name: "idx_return_requests_order_id",
+          fields: ["order_id"],
+        },
+        {
+          name: "idx_return_requests_status_created",
+          fields: ["status", "created_at"],
+        },
+      ],
+    }
+  );
+
+  return ReturnRequest;
+};
@@ -0,0 +1,139 @@
+import { DataTypes, Model, Sequelize } from "sequelize";
+
+/**
+ * What happens to a returned item once it is back
+ */
+export enum ReturnDisposition {
+  RESTOCK = "RESTOCK",
+  WRITE_OFF = "WRITE_OFF",
+}
+
+export interface ReturnRequestItemAttributes {
+  id: string;
+  returnRequestId: string;
+  orderItemId: string;
+  productId: string;
+  quantity: number;
+  /** Price the customer paid per unit, from the order item snapshot */
+  unitPrice: number;
+  /** Set when the goods are received */
+  disposition: ReturnDisposition | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReturnRequestItemCreationAttributes
+  extends Omit<
+    ReturnRequestItemAttributes,
+    "id" | "createdAt" | "updatedAt" | "disposition"
+  > {
+  id?: string;
+  disposition?: ReturnDisposition | null;
+}
+
+export class ReturnRequestItem
+  extends Model<ReturnRequestItemAttributes, ReturnRequestItemCreationAttributes>
+  implements ReturnRequestItemAttributes
+{
+  declare id: string;
+  declare returnRequestId: string;
+  declare orderItemId: string;
+  declare productId: string;
+  declare quantity: number;
+  declare unitPrice: number;
+  declare disposition: ReturnDisposition | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Associations
+  declare returnRequest?: any;
+  declare orderItem?: any;
+  declare product?: any;
+
+  static associate(models: any) {
+    ReturnRequestItem.belongsTo(models.ReturnRequest, {
+      foreignKey: "returnRequestId",
+      as: "returnRequest",
+      onDelete: "CASCADE",
+    });
+    ReturnRequestItem.belongsTo(models.OrderItem, {
+      foreignKey: "orderItemId",
+      as: "orderItem",
+    });
+    ReturnRequestItem.belongsTo(models.Product, {
+      foreignKey: "productId",
+      as: "product",
+    });
+  }
+}
+
+export const ReturnRequestItemModel = (sequelize: Sequelize) => {
+  ReturnRequestItem.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      returnRequestId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "return_request_id",
+      },
+      orderItemId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "order_item_id",
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "product_id",
+      },
+      quantity: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      unitPrice: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: "unit_price",
+      },
+      disposition: {
+        type: DataTypes.ENUM(...Object.values(ReturnDisposition)),
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "created_at",
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "updated_at",
+      },
+    },
+    {
+      sequelize,
+      modelName: "ReturnRequestItem",
+      tableName: "return_request_items",
+      timestamps: true,
+      createdAt: "createdAt",
+      updatedAt: "updatedAt",
+      indexes: [
+        {
+          name: "idx_return_request_items_return_request_id",
+          fields: ["return_request_id"],
+        },
+        {
+          name: "idx_return_request_items_order_item_id",
+          fields: ["order_item_id"],
+        },
+      ],
+    }
+  );
+
+  return ReturnRequestItem;
+};
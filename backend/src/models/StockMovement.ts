@@ -0,0 +1,137 @@
+import { DataTypes, Model, Sequelize } from "sequelize";
+
+export enum StockMovementReason {
+  SALE = "SALE",
+  CANCELLATION = "CANCELLATION",
+  MANUAL_ADJUSTMENT = "MANUAL_ADJUSTMENT",
+  RESTOCK = "RESTOCK",
+  /** Returned by a customer and put back on sale */
+  RETURN = "RETURN",
+  WRITE_OFF = "WRITE_OFF",
+}
+
+export interface StockMovementAttributes {
+  id: string;
+  productId: string;
+  /** Signed change, negative when stock leaves */
+  delta: number;
+  /** stockQuantity right after the change */
+  quantityAfter: number;
+  reason: StockMovementReason;
+  /** Order or other record that caused the change */
+  referenceId: string | null;
+  note: string | null;
+  createdByAdminId: string | null;
+  createdAt: Date;
+}
+
+export interface StockMovementCreationAttributes
+  extends Omit<
+    StockMovementAttributes,
+    "id" | "createdAt" | "referenceId" | "note" | "createdByAdminId"
+  > {
+  id?: string;
+  referenceId?: string | null;
+  note?: string | null;
+  createdByAdminId?: string | null;
+}
+
+export class StockMovement
+  extends Model<StockMovementAttributes, StockMovementCreationAttributes>
+  implements StockMovementAttributes
+{
+  declare id: string;
+  declare productId: string;
+  declare delta: number;
+  declare quantityAfter: number;
+  declare reason: StockMovementReason;
+  declare referenceId: string | null;
+  declare note: string | null;
+  declare createdByAdminId: string | null;
+  declare createdAt: Date;
+
+  // Associations
+  declare product?: any;
+  declare createdByAdmin?: any;
+
+  static associate(models: any) {
+    StockMovement.belongsTo(models.Product, {
+      foreignKey: "productId",
+      as: "product",
+      onDelete: "CASCADE",
+    });
+    StockMovement.belongsTo(models.AdminUser, {
+      foreignKey: "createdByAdminId",
+      as: "createdByAdmin",
+    });
+  }
+}
+
+export const StockMovementModel = (sequelize: Sequelize) => {
+  StockMovement.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: "product_id",
+      },
+      delta: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      quantityAfter: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: "quantity_after",
+      },
+      reason: {
+        type: DataTypes.ENUM(...Object.values(StockMovementReason)),
+        allowNull: false,
+      },
+      referenceId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: "reference_id",
+      },
+      note: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      createdByAdminId: {
+        type: DataTypes.CHAR(36),
+        allowNull: true,
+        field: "created_by_admin_id",
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "created_at",
+      },
+    },
+    {
+      sequelize,
+      modelName: "StockMovement",
+      tableName: "stock_movements",
+      timestamps: true,
+      createdAt: "createdAt",
+      updatedAt: false,
+      indexes: [
+        {
+          name: "idx_stock_movements_product_created",
+          fields: ["product_id", "created_at"],
+        },
+        {
+          name: "idx_stock_movements_reference",
+          fields: ["reference_id"],
+        },
+      ],
+    }
+  );
+
+  return StockMovement;
+};
@@ -0,0 +1,132 @@
+import { DataTypes, Model, Sequelize } from "sequelize";
+
+export interface SupplierAttributes {
+  id: string;
+  name: string;
+  contactName: string | null;
+  phoneNumber: string | null;
+  email: string | null;
+  address: string | null;
+  notes: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SupplierCreationAttributes
+  extends Omit<
+    SupplierAttributes,
+    | "id"
+    | "createdAt"
+    | "updatedAt"
+    | "contactName"
+    | "phoneNumber"
+    | "email"
+    | "address"
+    | "notes"
+    | "isActive"
+  > {
+  id?: string;
+  contactName?: string | null;
+  phoneNumber?: string | null;
+  email?: string | null;
+  address?: string | null;
+  notes?: string | null;
+  isActive?: boolean;
+}
+
+export class Supplier
+  extends Model<SupplierAttributes, SupplierCreationAttributes>
+  implements SupplierAttributes
+{
+  declare id: string;
+  declare name: string;
+  declare contactName: string | null;
+  declare phoneNumber: string | null;
+  declare email: string | null;
+  declare address: string | null;
+  declare notes: string | null;
+  declare isActive: boolean;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  // Associations
+  declare purchaseOrders?: any[];
+
+  static associate(models: any) {
+    Supplier.hasMany(models.PurchaseOrder, {
+      foreignKey: "supplierId",
+      as: "purchaseOrders",
+    });
+  }
+}
+
+export const SupplierModel = (sequelize: Sequelize) => {
+  Supplier.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      name: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+      },
+      contactName: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+        field: "contact_name",
+      },
+      phoneNumber: {
+        type: DataTypes.STRING(50),
+        allowNull: true,
+        field: "phone_number",
+      },
+      email: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+      },
+      address: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      notes: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      isActive: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+        field: "is_active",
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "created_at",
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: "updated_at",
+      },
+    },
+    {
+      sequelize,
+      modelName: "Supplier",
+      tableName: "suppliers",
+      timestamps: true,
+      createdAt: "createdAt",
+      updatedAt: "updatedAt",
+      indexes: [
+        {
+          name: "idx_suppliers_name",
+          fields: ["name"],
+        },
+      ],
+    }
+  );
+
+  return Supplier;
+};
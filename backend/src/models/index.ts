@@ -9,7 +9,7 @@ import { CustomerPhone, CustomerPhoneModel } from "./CustomerPhone";
 import { Color, ColorModel } from "./Color";
 import { Capacity, CapacityModel } from "./Capacity";
 import { Category, CategoryModel } from "./Category";
-import { Product, ProductModel } from "./Product";
+import { Product, ProductAvailability, ProductModel, StockAlertState } from "./Product";
 import {
   ProductTranslation,
   ProductTranslationModel,
@@ -18,13 +18,72 @@ import {
 import { ProductCategory, ProductCategoryModel } from "./ProductCategory";
 import { ProductColor, ProductColorModel } from "./ProductColor";
 import { ProductImage, ProductImageModel } from "./ProductImage";
-import { Order, OrderModel, OrderType, OrderStatus } from "./Order";
+import {
+  Order,
+  OrderModel,
+  OrderType,
+  OrderStatus,
+  ORDER_STATUS_TRANSITIONS,
+  canTransitionOrderStatus,
+} from "./Order";
 import { OrderItem, OrderItemModel } from "./OrderItem";
+import {
+  OrderStatusHistory,
+  OrderStatusHistoryModel,
+} from "./OrderStatusHistory";
+import {
+  Payment,
+  PaymentModel,
+  PaymentMethod,
+  PaymentType,
+  PaymentStatus,
+  OrderPaymentStatus,
+} from "./Payment";
 import { Consultation, ConsultationModel, ConsultationStatus } from "./Consultation";
 import { ConsultationItem, ConsultationItemModel } from "./ConsultationItem";
 import { HeroImage, HeroImageModel } from "./HeroImage";
 import { ProductAnalytics, ProductAnalyticsModel } from "./ProductAnalytics";
 import { PromotionalBanner, PromotionalBannerModel } from "./PromotionalBanner";
+import { Coupon, CouponModel, CouponType } from "./Coupon";
+import { CouponRedemption, CouponRedemptionModel } from "./CouponRedemption";
+import {
+  ProductPriceHistory,
+  ProductPriceHistoryModel,
+  PriceChangeSource,
+} from "./ProductPriceHistory";
+import {
+  ProductScheduledPrice,
+  ProductScheduledPriceModel,
+} from "./ProductScheduledPrice";
+import {
+  StockMovement,
+  StockMovementModel,
+  StockMovementReason,
+} from "./StockMovement";
+import {
+  ProductWaitlistEntry,
+  ProductWaitlistEntryModel,
+  WaitlistContactType,
+} from "./ProductWaitlistEntry";
+import { Supplier, SupplierModel } from "./Supplier";
+import {
+  PurchaseOrder,
+  PurchaseOrderModel,
+  PurchaseOrderStatus,
+} from "./PurchaseOrder";
+import { PurchaseOrderItem, PurchaseOrderItemModel } from "./PurchaseOrderItem";
+import {
+  ReturnRequest,
+  ReturnRequestModel,
+  ReturnStatus,
+  ReturnReason,
+} from "./ReturnRequest";
+import {
+  ReturnRequestItem,
+  ReturnRequestItemModel,
+  ReturnDisposition,
+} from "./ReturnRequestItem";
+import { IdempotencyKey, IdempotencyKeyModel } from "./IdempotencyKey";
 import { Setting, SettingModel } from "./Setting";
 import { News, NewsModel, NewsStatus } from "./News";
 import { NewsTranslation, NewsTranslationModel, NewsLocale } from "./NewsTranslation";
@@ -45,12 +104,26 @@ const models = {
   ProductImage: ProductImageModel(sequelize),
   Order: OrderModel(sequelize),
   OrderItem: OrderItemModel(sequelize),
+  OrderStatusHistory: OrderStatusHistoryModel(sequelize),
+  Payment: PaymentModel(sequelize),
   Consultation: ConsultationModel(sequelize),
   ConsultationItem: ConsultationItemModel(sequelize),
   HeroImage: HeroImageModel(sequelize),
   ProductAnalytics: ProductAnalyticsModel(sequelize),
 
   PromotionalBanner: PromotionalBannerModel(sequelize),
+  Coupon: CouponModel(sequelize),
+  CouponRedemption: CouponRedemptionModel(sequelize),
+  ProductPriceHistory: ProductPriceHistoryModel(sequelize),
+  ProductScheduledPrice: ProductScheduledPriceModel(sequelize),
+  StockMovement: StockMovementModel(sequelize),
+  ProductWaitlistEntry: ProductWaitlistEntryModel(sequelize),
+  Supplier: SupplierModel(sequelize),
+  PurchaseOrder: PurchaseOrderModel(sequelize),
+  PurchaseOrderItem: PurchaseOrderItemModel(sequelize),
+  ReturnRequest: ReturnRequestModel(sequelize),
+  ReturnRequestItem: ReturnRequestItemModel(sequelize),
+  IdempotencyKey: IdempotencyKeyModel(sequelize),
   Setting: SettingModel(sequelize),
   News: NewsModel(sequelize),
   NewsTranslation: NewsTranslationModel(sequelize),
@@ -75,6 +148,8 @@ export {
   Capacity,
   Category,
   Product,
+  ProductAvailability,
+  StockAlertState,
   ProductTranslation,
   ProductLocale,
   ProductCategory,
@@ -83,7 +158,15 @@ export {
   Order,
   OrderType,
   OrderStatus,
+  ORDER_STATUS_TRANSITIONS,
+  canTransitionOrderStatus,
   OrderItem,
+  OrderStatusHistory,
+  Payment,
+  PaymentMethod,
+  PaymentType,
+  PaymentStatus,
+  OrderPaymentStatus,
   Consultation,
   ConsultationStatus,
   ConsultationItem,
@@ -91,6 +174,26 @@ export {
   ProductAnalytics,
 
   PromotionalBanner,
+  Coupon,
+  CouponType,
+  CouponRedemption,
+  ProductPriceHistory,
+  PriceChangeSource,
+  ProductScheduledPrice,
+  StockMovement,
+  StockMovementReason,
+  ProductWaitlistEntry,
+  WaitlistContactType,
+  Supplier,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  PurchaseOrderItem,
+  ReturnRequest,
+  ReturnStatus,
+  ReturnReason,
+  ReturnRequestItem,
+  ReturnDisposition,
+  IdempotencyKey,
   Setting,
   News,
   NewsStatus,
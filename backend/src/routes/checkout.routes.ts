@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { checkout } from "../controllers/checkout.controller";
+import { rateLimitPublicSubmit } from "../middleware/auth.middleware";
+import { idempotency } from "../middleware/idempotency.middleware";
+
+const router = Router();
+
+// POST /api/checkout - Place an order from the storefront (rate limited)
+router.post("/", rateLimitPublicSubmit, idempotency("checkout"), checkout);
+
+export default router;
@@ -6,13 +6,15 @@ import {
   updateConsultationStatus,
   deleteConsultation,
   getPendingConsultationsCount,
+  convertConsultationToOrder,
 } from "../controllers/consultation.controller";
 import { authenticateWithAutoRefresh, rateLimitPublicSubmit } from "../middleware/auth.middleware";
+import { idempotency } from "../middleware/idempotency.middleware";
 
 const router = Router();
 
 // POST /api/consultations - Create new consultation (rate limited)
-router.post("/", rateLimitPublicSubmit, createConsultation);
+router.post("/", rateLimitPublicSubmit, idempotency("consultations:create"), createConsultation);
 
 // GET /api/consultations - Get all consultations with optional filters
 router.get("/", authenticateWithAutoRefresh, getConsultations);
@@ -34,6 +36,13 @@ router.put(
   updateConsultationStatus
 );
 
+// POST /api/admin/consultations/:id/convert-to-order - Create an order from a consultation
+router.post(
+  "/:id/convert-to-order",
+  authenticateWithAutoRefresh,
+  convertConsultationToOrder
+);
+
 // DELETE /api/consultations/:id - Delete consultation
 router.delete("/:id", authenticateWithAutoRefresh, deleteConsultation);
 
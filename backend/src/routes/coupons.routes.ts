@@ -0,0 +1,39 @@
+import { Router } from "express";
+import {
+  getCoupons,
+  getCouponById,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+  validateCoupon,
+  getCouponUsageReport,
+} from "../controllers/coupons.controller";
+import {
+  authenticateWithAutoRefresh,
+  requireAdmin,
+} from "../middleware/auth.middleware";
+
+const router = Router();
+
+// GET /api/admin/coupons - List coupons with redemption counts
+router.get("/", authenticateWithAutoRefresh, getCoupons);
+
+// GET /api/admin/coupons/reports/usage - Redemptions and discounts per coupon
+router.get("/reports/usage", authenticateWithAutoRefresh, getCouponUsageReport);
+
+// POST /api/admin/coupons/validate - Preview a coupon against an order
+router.post("/validate", authenticateWithAutoRefresh, validateCoupon);
+
+// GET /api/admin/coupons/:id - Get coupon by ID
+router.get("/:id", authenticateWithAutoRefresh, getCouponById);
+
+// POST /api/admin/coupons - Create coupon
+router.post("/", authenticateWithAutoRefresh, requireAdmin, createCoupon);
+
+// PUT /api/admin/coupons/:id - Update coupon
+router.put("/:id", authenticateWithAutoRefresh, requireAdmin, updateCoupon);
+
+// DELETE /api/admin/coupons/:id - Delete an unused coupon
+router.delete("/:id", authenticateWithAutoRefresh, requireAdmin, deleteCoupon);
+
+export default router;
@@ -1,5 +1,14 @@
 import express from "express";
-import { getDashboardStats, getRevenueData, getStatistics, getTopSellingProducts } from "../controllers/dashboard.controller";
+import {
+  getDashboardStats,
+  getRevenueData,
+  getStatistics,
+  getTopSellingProducts,
+  getProfitByOrder,
+  getProfitByProduct,
+  getProfitByCategory,
+  getProfitByMonth,
+} from "../controllers/dashboard.controller";
 import { authenticateWithAutoRefresh, requireAdmin } from "../middleware/auth.middleware";
 
 const router = express.Router();
@@ -9,5 +18,9 @@ router.get("/stats", authenticateWithAutoRefresh, requireAdmin, getDashboardStat
 router.get("/revenue", authenticateWithAutoRefresh, requireAdmin, getRevenueData);
 router.get("/statistics", authenticateWithAutoRefresh, requireAdmin, getStatistics);
 router.get("/top-selling-products", authenticateWithAutoRefresh, requireAdmin, getTopSellingProducts);
+router.get("/profit/orders", authenticateWithAutoRefresh, requireAdmin, getProfitByOrder);
+router.get("/profit/products", authenticateWithAutoRefresh, requireAdmin, getProfitByProduct);
+router.get("/profit/categories", authenticateWithAutoRefresh, requireAdmin, getProfitByCategory);
+router.get("/profit/monthly", authenticateWithAutoRefresh, requireAdmin, getProfitByMonth);
 
 export default router;
\ No newline at end of file
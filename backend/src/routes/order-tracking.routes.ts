@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { trackOrder } from "../controllers/order-tracking.controller";
+import {
+  rateLimitOrderTracking,
+  rateLimitOrderTrackingFailuresByIp,
+  rateLimitOrderTrackingFailuresByOrder,
+} from "../middleware/auth.middleware";
+
+const router = Router();
+
+// POST /api/orders/track - Public order status lookup by order number + phone.
+// POST keeps the phone number out of URLs and access logs.
+router.post(
+  "/track",
+  rateLimitOrderTracking,
+  rateLimitOrderTrackingFailuresByIp,
+  rateLimitOrderTrackingFailuresByOrder,
+  trackOrder
+);
+
+export default router;
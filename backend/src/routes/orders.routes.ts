@@ -2,13 +2,39 @@ import express from "express";
 import {
   getOrders,
   getOrderById,
+  getOrderHistory,
   createOrder,
   updateOrderStatus,
   updateOrder,
   getOrderStats,
   getRecentOrders,
+  exportOrders,
+  bulkUpdateOrders,
 } from "../controllers/orders.controller";
+import {
+  getOrderPayments,
+  createOrderPayment,
+  updateOrderPaymentStatus,
+  getOrderVietQr,
+} from "../controllers/payments.controller";
+import {
+  importBankStatement,
+  confirmBankStatementMatches,
+  statementUploadMiddleware,
+} from "../controllers/bank-reconciliation.controller";
+import {
+  getOrderInvoicePdf,
+  getOrderPackingSlipPdf,
+  printOrderDocuments,
+} from "../controllers/order-documents.controller";
+import {
+  getShippingProviders,
+  getShippingFeeSuggestion,
+  quoteShipping,
+  createShipment,
+} from "../controllers/shipping.controller";
 import { authenticateWithAutoRefresh, requireAdmin } from "../middleware/auth.middleware";
+import { idempotency } from "../middleware/idempotency.middleware";
 
 const router = express.Router();
 
@@ -16,9 +42,48 @@ const router = express.Router();
 router.get("/", authenticateWithAutoRefresh, getOrders);
 router.get("/stats", authenticateWithAutoRefresh, getOrderStats);
 router.get("/recent", authenticateWithAutoRefresh, getRecentOrders);
+router.get("/export", authenticateWithAutoRefresh, exportOrders);
+
+// Bank statement reconciliation
+router.post(
+  "/reconciliation/import",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  statementUploadMiddleware,
+  importBankStatement
+);
+router.post(
+  "/reconciliation/confirm",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  confirmBankStatementMatches
+);
+
+// Printable documents
+router.post("/documents/print", authenticateWithAutoRefresh, printOrderDocuments);
+router.get("/:id/invoice.pdf", authenticateWithAutoRefresh, getOrderInvoicePdf);
+router.get("/:id/packing-slip.pdf", authenticateWithAutoRefresh, getOrderPackingSlipPdf);
+
+// Shipping carriers
+router.get("/shipping/providers", authenticateWithAutoRefresh, getShippingProviders);
+router.post("/shipping/fee-suggestion", authenticateWithAutoRefresh, getShippingFeeSuggestion);
+router.post("/:id/shipping/quote", authenticateWithAutoRefresh, requireAdmin, quoteShipping);
+router.post("/:id/shipments", authenticateWithAutoRefresh, requireAdmin, createShipment);
+
+router.get("/:id/history", authenticateWithAutoRefresh, getOrderHistory);
+router.get("/:id/payments", authenticateWithAutoRefresh, getOrderPayments);
+router.get("/:id/vietqr", authenticateWithAutoRefresh, getOrderVietQr);
 router.get("/:id", authenticateWithAutoRefresh, getOrderById);
-router.post("/", authenticateWithAutoRefresh, requireAdmin, createOrder);
+router.post("/", authenticateWithAutoRefresh, requireAdmin, idempotency("orders:create"), createOrder);
+router.post("/bulk", authenticateWithAutoRefresh, requireAdmin, bulkUpdateOrders);
 router.patch("/:id/status", authenticateWithAutoRefresh, requireAdmin, updateOrderStatus);
 router.put("/:id", authenticateWithAutoRefresh, requireAdmin, updateOrder);
+router.post("/:id/payments", authenticateWithAutoRefresh, requireAdmin, createOrderPayment);
+router.patch(
+  "/:id/payments/:paymentId/status",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  updateOrderPaymentStatus
+);
 
 export default router;
@@ -18,9 +18,21 @@ import {
   getPublicProductById,
   reorderProductImages,
   getFeaturedProductsStats,
+  getProductPriceHistory,
+  getProductScheduledPrices,
+  scheduleProductPrice,
+  removeProductScheduledPrice,
+  bulkUpdateProductPrices,
+  getProductStockMovements,
+  getStockReconciliation,
+  joinProductWaitlist,
+  getProductWaitlist,
+  getProductPreOrders,
+  allocateProductPreOrders,
 } from "../controllers/products.controller";
 import {
   authenticateWithAutoRefresh,
+  rateLimitPublicSubmit,
   requireAdmin,
   requireStaff,
 } from "../middleware/auth.middleware";
@@ -110,6 +122,9 @@ router.get("/public", redisCacheMiddleware(300), getPublicProducts);
 // Public product by ID/slug route - cached for 10 minutes (600s)
 router.get("/public/:id", redisCacheMiddleware(600), getPublicProductById);
 
+// Back-in-stock waitlist for sold-out products (rate limited)
+router.post("/public/:id/waitlist", rateLimitPublicSubmit, joinProductWaitlist);
+
 /**
  * @swagger
  * /api/products/{id}:
@@ -403,8 +418,7 @@ router.get("/:id", redisCacheMiddleware(600), getPublicProductById);
  *         schema:
  *           type: integer
  *           minimum: 0
- *           default: 10
- *         description: Stock threshold for low stock alert
+ *         description: Stock threshold for low stock alert; omit to use each product's own threshold
  *     responses:
  *       200:
  *         description: Low stock products retrieved successfully
@@ -876,7 +890,62 @@ adminProductsRouter.get(
   authenticateWithAutoRefresh,
   getFeaturedProductsStats
 );
+adminProductsRouter.patch(
+  "/prices/bulk",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  bulkUpdateProductPrices
+);
+adminProductsRouter.get(
+  "/stock/reconciliation",
+  authenticateWithAutoRefresh,
+  getStockReconciliation
+);
 adminProductsRouter.get("/:id", authenticateWithAutoRefresh, getProductById);
+adminProductsRouter.get(
+  "/:id/waitlist",
+  authenticateWithAutoRefresh,
+  getProductWaitlist
+);
+adminProductsRouter.get(
+  "/:id/pre-orders",
+  authenticateWithAutoRefresh,
+  getProductPreOrders
+);
+adminProductsRouter.post(
+  "/:id/pre-orders/allocate",
+  authenticateWithAutoRefresh,
+  requireStaff,
+  syncProduct.update(),
+  allocateProductPreOrders
+);
+adminProductsRouter.get(
+  "/:id/stock-movements",
+  authenticateWithAutoRefresh,
+  getProductStockMovements
+);
+adminProductsRouter.get(
+  "/:id/price-history",
+  authenticateWithAutoRefresh,
+  getProductPriceHistory
+);
+adminProductsRouter.get(
+  "/:id/scheduled-prices",
+  authenticateWithAutoRefresh,
+  getProductScheduledPrices
+);
+adminProductsRouter.post(
+  "/:id/scheduled-prices",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  scheduleProductPrice
+);
+adminProductsRouter.delete(
+  "/:id/scheduled-prices/:scheduleId",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  removeProductScheduledPrice
+);
 adminProductsRouter.post(
   "/",
   authenticateWithAutoRefresh,
@@ -0,0 +1,59 @@
+import { Router } from "express";
+import {
+  getSuppliers,
+  getSupplierById,
+  createSupplier,
+  updateSupplier,
+  deleteSupplier,
+  getPurchaseOrders,
+  getPurchaseOrderById,
+  createPurchaseOrder,
+  updatePurchaseOrder,
+  orderPurchaseOrder,
+  receivePurchaseOrder,
+  deletePurchaseOrder,
+} from "../controllers/purchase-orders.controller";
+import {
+  authenticateWithAutoRefresh,
+  requireAdmin,
+} from "../middleware/auth.middleware";
+
+const router = Router();
+
+// GET /api/admin/purchase-orders/suppliers - List suppliers
+router.get("/suppliers", authenticateWithAutoRefresh, getSuppliers);
+
+// GET /api/admin/purchase-orders/suppliers/:id - Get supplier by ID
+router.get("/suppliers/:id", authenticateWithAutoRefresh, getSupplierById);
+
+// POST /api/admin/purchase-orders/suppliers - Create supplier
+router.post("/suppliers", authenticateWithAutoRefresh, requireAdmin, createSupplier);
+
+// PUT /api/admin/purchase-orders/suppliers/:id - Update supplier
+router.put("/suppliers/:id", authenticateWithAutoRefresh, requireAdmin, updateSupplier);
+
+// DELETE /api/admin/purchase-orders/suppliers/:id - Delete a supplier without purchase orders
+router.delete("/suppliers/:id", authenticateWithAutoRefresh, requireAdmin, deleteSupplier);
+
+// GET /api/admin/purchase-orders - List purchase orders
+router.get("/", authenticateWithAutoRefresh, getPurchaseOrders);
+
+// GET /api/admin/purchase-orders/:id - Get purchase order with items
+router.get("/:id", authenticateWithAutoRefresh, getPurchaseOrderById);
+
+// POST /api/admin/purchase-orders - Create a DRAFT purchase order
+router.post("/", authenticateWithAutoRefresh, requireAdmin, createPurchaseOrder);
+
+// PUT /api/admin/purchase-orders/:id - Update purchase order
+router.put("/:id", authenticateWithAutoRefresh, requireAdmin, updatePurchaseOrder);
+
+// POST /api/admin/purchase-orders/:id/order - Mark as placed with the supplier
+router.post("/:id/order", authenticateWithAutoRefresh, requireAdmin, orderPurchaseOrder);
+
+// POST /api/admin/purchase-orders/:id/receive - Receive goods into stock
+router.post("/:id/receive", authenticateWithAutoRefresh, receivePurchaseOrder);
+
+// DELETE /api/admin/purchase-orders/:id - Delete a DRAFT purchase order
+router.delete("/:id", authenticateWithAutoRefresh, requireAdmin, deletePurchaseOrder);
+
+export default router;
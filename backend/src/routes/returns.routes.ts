@@ -0,0 +1,39 @@
+import { Router } from "express";
+import {
+  getReturns,
+  getReturnById,
+  createReturn,
+  approveReturn,
+  rejectReturn,
+  receiveReturn,
+  refundReturn,
+} from "../controllers/returns.controller";
+import {
+  authenticateWithAutoRefresh,
+  requireAdmin,
+} from "../middleware/auth.middleware";
+
+const router = Router();
+
+// GET /api/admin/returns - List return requests
+router.get("/", authenticateWithAutoRefresh, getReturns);
+
+// GET /api/admin/returns/:id - Get return request with items
+router.get("/:id", authenticateWithAutoRefresh, getReturnById);
+
+// POST /api/admin/returns - Open a return for a delivered order
+router.post("/", authenticateWithAutoRefresh, createReturn);
+
+// POST /api/admin/returns/:id/approve - Approve a requested return
+router.post("/:id/approve", authenticateWithAutoRefresh, requireAdmin, approveReturn);
+
+// POST /api/admin/returns/:id/reject - Reject a requested return
+router.post("/:id/reject", authenticateWithAutoRefresh, requireAdmin, rejectReturn);
+
+// POST /api/admin/returns/:id/receive - Receive goods back, restock or write off
+router.post("/:id/receive", authenticateWithAutoRefresh, receiveReturn);
+
+// POST /api/admin/returns/:id/refund - Refund the customer
+router.post("/:id/refund", authenticateWithAutoRefresh, requireAdmin, refundReturn);
+
+export default router;
@@ -4,6 +4,16 @@ import {
   updateEffectSettings,
   getWatermarkSettings,
   updateWatermarkSettings,
+  getBankTransferSettings,
+  updateBankTransferSettings,
+  getOrderDocumentSettings,
+  updateOrderDocumentSettings,
+  getOrderNumberSettings,
+  updateOrderNumberSettings,
+  getShippingFeeRules,
+  updateShippingFeeRules,
+  getInventoryAlertSettings,
+  updateInventoryAlertSettings,
 } from "../controllers/settings.controller";
 import {
   authenticateWithAutoRefresh,
@@ -32,4 +42,74 @@ router.put(
   updateWatermarkSettings
 );
 
+// Bank account used for VietQR payment instructions
+router.get(
+  "/bank-transfer-settings",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  getBankTransferSettings
+);
+router.put(
+  "/bank-transfer-settings",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  updateBankTransferSettings
+);
+
+// Shop header printed on invoices and packing slips
+router.get(
+  "/document-settings",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  getOrderDocumentSettings
+);
+router.put(
+  "/document-settings",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  updateOrderDocumentSettings
+);
+
+// Prefix and format of new order numbers
+router.get(
+  "/order-number-settings",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  getOrderNumberSettings
+);
+router.put(
+  "/order-number-settings",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  updateOrderNumberSettings
+);
+
+// Rules behind the suggested shipping fee on orders
+router.get(
+  "/shipping-fee-rules",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  getShippingFeeRules
+);
+router.put(
+  "/shipping-fee-rules",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  updateShippingFeeRules
+);
+
+// Default reorder threshold and stock alert notifications
+router.get(
+  "/inventory-alerts",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  getInventoryAlertSettings
+);
+router.put(
+  "/inventory-alerts",
+  authenticateWithAutoRefresh,
+  requireAdmin,
+  updateInventoryAlertSettings
+);
+
 export default router;
@@ -0,0 +1,9 @@
+import { Router } from "express";
+import { receiveShippingWebhook } from "../controllers/shipping.controller";
+
+const router = Router();
+
+// POST /api/shipping/webhooks/:provider - Carrier status updates
+router.post("/:provider", receiveShippingWebhook);
+
+export default router;
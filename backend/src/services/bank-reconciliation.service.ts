@@ -0,0 +1,510 @@
+import { logger } from "@/utils/logger";
+import { Op } from "sequelize";
+import { sequelize } from "../config/database";
+import {
+  Order,
+  Payment,
+  OrderStatus,
+  PaymentMethod,
+  PaymentStatus,
+} from "../models";
+import { parseCsv } from "../utils/csv";
+import { removeVietnameseDiacritics } from "../utils/vietnamese-slug";
+import {
+  buildOrderNumberPattern,
+  formatOrderNumberParts,
+  getOrderNumberFormats,
+  OrderNumberSettingsDto,
+} from "./order-number.service";
+import { changeOrderStatus } from "./order-status.service";
+import {
+  getOrderPaymentSummaries,
+  recordOrderPayment,
+} from "./payment.service";
+
+/**
+ * Header aliases seen in statement exports of Vietcombank, Techcombank,
+ * MB, ACB, BIDV and VietinBank, compared without diacritics
+ */
+const COLUMN_ALIASES = {
+  date: [
+    "ngay giao dich",
+    "ngay gd",
+    "ngay hieu luc",
+    "thoi gian giao dich",
+    "ngay",
+    "transaction date",
+    "posting date",
+    "date",
+  ],
+  reference: [
+    "so tham chieu",
+    "ma giao dich",
+    "so but toan",
+    "so ct",
+    "reference",
+    "reference no",
+    "transaction id",
+    "ref",
+  ],
+  credit: ["so tien ghi co", "ghi co", "co", "credit", "credit amount"],
+  debit: ["so tien ghi no", "ghi no", "no", "debit", "debit amount"],
+  amount: ["so tien", "amount"],
+  description: [
+    "noi dung",
+    "noi dung giao dich",
+    "noi dung chi tiet",
+    "mo ta",
+    "dien giai",
+    "chi tiet giao dich",
+    "description",
+    "transaction details",
+    "remark",
+  ],
+};
+
+type StatementColumn = keyof typeof COLUMN_ALIASES;
+
+const OPEN_ORDER_STATUSES = [
+  OrderStatus.PENDING,
+  OrderStatus.CONFIRMED,
+  OrderStatus.PROCESSING,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+];
+
+const MAX_AMOUNT_CANDIDATES = 5;
+
+export interface StatementRow {
+  rowNumber: number;
+  transactionDate: Date | null;
+  reference: string | null;
+  description: string;
+  amount: number;
+}
+
+export type ReconciliationReason =
+  | "AMOUNT_MISMATCH"
+  | "MULTIPLE_ORDERS"
+  | "AMOUNT_ONLY"
+  | "ORDER_NOT_FOUND"
+  | "ORDER_NOT_OPEN"
+  | "ALREADY_RECORDED"
+  | "NO_MATCH";
+
+export interface ReconciliationCandidate {
+  orderId: string;
+  orderNumber: string;
+  status: OrderStatus;
+  totalAmount: number;
+  balanceDue: number;
+}
+
+export interface ReconciliationRow extends StatementRow {
+  orderNumbers: string[];
+  candidates: ReconciliationCandidate[];
+  reason?: ReconciliationReason;
+}
+
+export interface ReconciliationResult {
+  matched: ReconciliationRow[];
+  ambiguous: ReconciliationRow[];
+  unmatched: ReconciliationRow[];
+  summary: {
+    totalRows: number;
+    creditRows: number;
+    skippedDebitRows: number;
+    matched: number;
+    ambiguous: number;
+    unmatched: number;
+  };
+}
+
+export interface ReconciliationMatchInput {
+  orderId: string;
+  amount: number;
+  reference?: string | null;
+  transactionDate?: Date | null;
+  description?: string;
+}
+
+export interface ReconciliationConfirmResult {
+  orderId: string;
+  reference: string | null;
+  success: boolean;
+  paymentId?: string;
+  statusChanged?: boolean;
+  error?: { code: string; message: string };
+}
+
+const normalizeHeader = (value: string): string =>
+  removeVietnameseDiacritics(value)
+    .toLowerCase()
+    .replace(/\(.*?\)/g, "")
+    .replace(/[^a-z0-9 ]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * Parse "1,500,000", "1.500.000", "1500000.00" or "+1,500,000 VND" as VND
+ */
+const parseAmount = (value: string | undefined): number => {
+  if (!value) return 0;
+  const trimmed = value.replace(/\s|VND|đ/gi, "");
+  const negative = trimmed.startsWith("-") || /^\(.*\)$/.test(trimmed);
+  const digits = trimmed.replace(/[.,]\d{1,2}$/, "").replace(/\D/g, "");
+  const amount = digits ? parseInt(digits, 10) : 0;
+  return negative ? -amount : amount;
+};
+
+/**
+ * Parse dd/mm/yyyy (optionally with time) or ISO dates
+ */
+const parseDate = (value: string | undefined): Date | null => {
+  if (!value) return null;
+
+  const match = value.match(
+    /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/
+  );
+  if (match) {
+    const [, day, month, year, hour = "0", minute = "0", second = "0"] = match;
+    return new Date(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour),
+      Number(minute),
+      Number(second)
+    );
+  }
+
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/**
+ * Locate the header row (banks put account info above it) and map columns
+ */
+const findHeader = (
+  rows: string[][]
+): { index: number; columns: Partial<Record<StatementColumn, number>> } | null => {
+  for (let index = 0; index < Math.min(rows.length, 30); index++) {
+    const headers = rows[index].map(normalizeHeader);
+    const columns: Partial<Record<StatementColumn, number>> = {};
+
+    for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [
+      StatementColumn,
+      string[]
+    ][]) {
+      // Aliases are ordered most specific first
+      for (const alias of aliases) {
+        const position = headers.indexOf(alias);
+        if (position !== -1 && !Object.values(columns).includes(position)) {
+          columns[column] = position;
+          break;
+        }
+      }
+    }
+
+    const hasAmount =
+      columns.credit !== undefined || columns.amount !== undefined;
+    if (columns.description !== undefined && hasAmount) {
+      return { index, columns };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Parse a bank statement CSV export into normalized rows.
+ * Credits are positive amounts, debits negative.
+ */
+export const parseBankStatement = (content: string): StatementRow[] => {
+  const rows = parseCsv(content);
+  const header = findHeader(rows);
+
+  if (!header) {
+    throw {
+      status: 400,
+      code: "INVALID_STATEMENT_FORMAT",
+      message:
+        "Could not find the statement header (description and credit/amount columns)",
+    };
+  }
+
+  const { index, columns } = header;
+  const cell = (row: string[], column: StatementColumn) =>
+    columns[column] !== undefined ? row[columns[column] as number] : undefined;
+
+  return rows.slice(index + 1).flatMap((row, i) => {
+    const description = cell(row, "description") ?? "";
+    const credit = parseAmount(cell(row, "credit"));
+    const debit = Math.abs(parseAmount(cell(row, "debit")));
+    const amount =
+      columns.credit !== undefined
+        ? credit || -debit
+        : parseAmount(cell(row, "amount"));
+
+    // Footer lines such as totals and signatures have no description/amount
+    if (!description && amount === 0) return [];
+
+    return [
+      {
+        rowNumber: index + i + 2,
+        transactionDate: parseDate(cell(row, "date")),
+        reference: cell(row, "reference") || null,
+        description,
+        amount,
+      },
+    ];
+  });
+};
+
+/** Order numbers in a memo, in the formats generateOrderNumber has used */
+const extractOrderNumbers = (
+  description: string,
+  formats: OrderNumberSettingsDto[]
+): string[] => {
+  const numbers = new Set<string>();
+  for (const format of formats) {
+    for (const match of description.matchAll(buildOrderNumberPattern(format))) {
+      numbers.add(formatOrderNumberParts(format, match[1], match[2]));
+    }
+  }
+  return [...numbers];
+};
+
+const toCandidates = async (
+  orders: Order[]
+): Promise<ReconciliationCandidate[]> => {
+  const summaries = await getOrderPaymentSummaries(orders);
+  return orders.map((order) => ({
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    status: order.status,
+    totalAmount: Number(order.totalAmount),
+    balanceDue: summaries.get(order.id)?.balanceDue ?? Number(order.totalAmount),
+  }));
+};
+
+/**
+ * Match statement credits against open orders by order number in the memo
+ * and by amount. Nothing is written; admins confirm matches separately.
+ */
+export const reconcileStatement = async (
+  rows: StatementRow[]
+): Promise<ReconciliationResult> => {
+  const credits = rows.filter((row) => row.amount > 0);
+  const formats = await getOrderNumberFormats();
+  const result: ReconciliationResult = {
+    matched: [],
+    ambiguous: [],
+    unmatched: [],
+    summary: {
+      totalRows: rows.length,
+      creditRows: credits.length,
+      skippedDebitRows: rows.length - credits.length,
+      matched: 0,
+      ambiguous: 0,
+      unmatched: 0,
+    },
+  };
+
+  const references = credits
+    .map((row) => row.reference)
+    .filter((reference): reference is string => !!reference);
+  const recordedReferences = new Set(
+    references.length
+      ? (
+          await Payment.findAll({
+            where: {
+              referenceCode: { [Op.in]: references },
+              status: { [Op.ne]: PaymentStatus.FAILED },
+            },
+            attributes: ["referenceCode"],
+          })
+        ).map((payment) => payment.referenceCode)
+      : []
+  );
+
+  const allOrderNumbers = [
+    ...new Set(credits.flatMap((row) => extractOrderNumbers(row.description, formats))),
+  ];
+  const referencedOrders = allOrderNumbers.length
+    ? await Order.findAll({
+        where: { orderNumber: { [Op.in]: allOrderNumbers } },
+        attributes: ["id", "orderNumber", "status", "totalAmount"],
+      })
+    : [];
+  const candidatesByNumber = new Map(
+    (await toCandidates(referencedOrders)).map((candidate) => [
+      candidate.orderNumber,
+      candidate,
+    ])
+  );
+
+  for (const row of credits) {
+    const orderNumbers = extractOrderNumbers(row.description, formats);
+    const entry: ReconciliationRow = { ...row, orderNumbers, candidates: [] };
+
+    if (row.reference && recordedReferences.has(row.reference)) {
+      result.unmatched.push({ ...entry, reason: "ALREADY_RECORDED" });
+      continue;
+    }
+
+    if (orderNumbers.length > 0) {
+      const found = orderNumbers
+        .map((orderNumber) => candidatesByNumber.get(orderNumber))
+        .filter((candidate): candidate is ReconciliationCandidate => !!candidate);
+      const open = found.filter(
+        (candidate) =>
+          candidate.status !== OrderStatus.CANCELLED && candidate.balanceDue > 0
+      );
+
+      if (found.length === 0) {
+        result.unmatched.push({ ...entry, reason: "ORDER_NOT_FOUND" });
+      } else if (open.length === 0) {
+        result.unmatched.push({
+          ...entry,
+          candidates: found,
+          reason: "ORDER_NOT_OPEN",
+        });
+      } else if (open.length > 1) {
+        result.ambiguous.push({
+          ...entry,
+          candidates: open,
+          reason: "MULTIPLE_ORDERS",
+        });
+      } else if (open[0].balanceDue === row.amount) {
+        result.matched.push({ ...entry, candidates: open });
+      } else {
+        // Partial transfer or overpayment: admins decide
+        result.ambiguous.push({
+          ...entry,
+          candidates: open,
+          reason: "AMOUNT_MISMATCH",
+        });
+      }
+      continue;
+    }
+
+    // No order number in the memo: fall back to unpaid orders with that amount
+    const sameAmount = await Order.findAll({
+      where: {
+        totalAmount: row.amount,
+        status: { [Op.in]: OPEN_ORDER_STATUSES },
+      },
+      attributes: ["id", "orderNumber", "status", "totalAmount"],
+      order: [["createdAt", "DESC"]],
+      limit: MAX_AMOUNT_CANDIDATES * 2,
+    });
+    const candidates = (await toCandidates(sameAmount))
+      .filter((candidate) => candidate.balanceDue === row.amount)
+      .slice(0, MAX_AMOUNT_CANDIDATES);
+
+    if (candidates.length > 0) {
+      result.ambiguous.push({ ...entry, candidates, reason: "AMOUNT_ONLY" });
+    } else {
+      result.unmatched.push({ ...entry, reason: "NO_MATCH" });
+    }
+  }
+
+  result.summary.matched = result.matched.length;
+  result.summary.ambiguous = result.ambiguous.length;
+  result.summary.unmatched = result.unmatched.length;
+
+  return result;
+};
+
+/**
+ * Record confirmed statement lines as bank-transfer payments and confirm
+ * PENDING orders through the normal status flow. Each match runs in its
+ * own transaction so one bad line does not block the rest.
+ */
+export const confirmReconciliationMatches = async (
+  matches: ReconciliationMatchInput[],
+  adminId: string | null
+): Promise<ReconciliationConfirmResult[]> => {
+  const results: ReconciliationConfirmResult[] = [];
+
+  for (const match of matches) {
+    const reference = match.reference || null;
+
+    try {
+      const outcome = await sequelize.transaction(async (t) => {
+        if (reference) {
+          const existing = await Payment.findOne({
+            where: {
+              referenceCode: reference,
+              status: { [Op.ne]: PaymentStatus.FAILED },
+            },
+            attributes: ["id"],
+            transaction: t,
+          });
+          if (existing) {
+            throw {
+              status: 409,
+              code: "PAYMENT_ALREADY_RECORDED",
+              message: `Bank transaction ${reference} has already been recorded`,
+            };
+          }
+        }
+
+        const { payment } = await recordOrderPayment(
+          match.orderId,
+          {
+            method: PaymentMethod.BANK_TRANSFER,
+            amount: match.amount,
+            referenceCode: reference ?? undefined,
+            paidAt: match.transactionDate ?? undefined,
+            note: match.description
+              ? `Bank statement: ${match.description}`
+              : "Bank statement reconciliation",
+          },
+          adminId,
+          { transaction: t }
+        );
+
+        const order = await Order.findByPk(match.orderId, {
+          attributes: ["id", "status"],
+          transaction: t,
+        });
+
+        let statusChanged = false;
+        if (order?.status === OrderStatus.PENDING) {
+          await changeOrderStatus(match.orderId, OrderStatus.CONFIRMED, {
+            notes: "Bank transfer received",
+            adminId,
+            transaction: t,
+          });
+          statusChanged = true;
+        }
+
+        return { paymentId: payment.id, statusChanged };
+      });
+
+      results.push({
+        orderId: match.orderId,
+        reference,
+        success: true,
+        ...outcome,
+      });
+    } catch (error: any) {
+      if (!(error.status && error.code)) {
+        logger.error(`Bank reconciliation failed for order ${match.orderId}:`, error);
+      }
+      results.push({
+        orderId: match.orderId,
+        reference,
+        success: false,
+        error:
+          error.status && error.code
+            ? { code: error.code, message: error.message }
+            : { code: "CREATE_ORDER_PAYMENT_ERROR", message: "Failed to record payment" },
+      });
+    }
+  }
+
+  return results;
+};
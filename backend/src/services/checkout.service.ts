@@ -0,0 +1,275 @@
+import { logger } from "@/utils/logger";
+import { v4 as uuidv4 } from "uuid";
+import { sequelize } from "../config/database";
+import {
+  Color,
+  Order,
+  OrderItem,
+  OrderStatus,
+  OrderType,
+  Product,
+  ProductAvailability,
+  ProductColor,
+  StockMovementReason,
+} from "../models";
+import { cleanPhoneNumber } from "../utils/phoneValidation";
+import {
+  createCustomerWithPhone,
+  CustomerAddressInput,
+  findCustomerByPhone,
+  saveCustomerAddress,
+} from "./customer-match.service";
+import { generateOrderNumber } from "./order-number.service";
+import { buildProductSnapshot } from "./order-items.service";
+import { recordOrderCreated } from "./order-status.service";
+import { getEffectivePrice } from "./product-price.service";
+import {
+  enforcePurchaseLimits,
+  PurchaseLimitLine,
+  PurchaseLimitViolation,
+} from "./purchase-limit.service";
+import { suggestShippingFee } from "./shipping-fee.service";
+import { socketService } from "./socket.service";
+import { adjustStock } from "./stock.service";
+
+export interface CheckoutItemInput {
+  productId: string;
+  quantity: number;
+  /** One of the product's colours */
+  colorId?: string;
+  /** Price the customer saw; the order is refused if it has changed */
+  unitPrice?: number;
+}
+
+export interface CheckoutInput {
+  fullName: string;
+  phoneNumber: string;
+  deliveryAddress: CustomerAddressInput;
+  items: CheckoutItemInput[];
+  notes?: string;
+}
+
+const checkoutError = (status: number, code: string, message: string, details?: unknown) => ({
+  status,
+  code,
+  message,
+  details,
+});
+
+/**
+ * Place a PENDING order from the storefront. Prices and stock come from
+ * the products, never from the request; the customer is matched by phone
+ * or created, and stock is taken the same way as an admin-created order.
+ */
+export const placeGuestOrder = async (input: CheckoutInput) => {
+  // One line per product and colour
+  const lines = new Map<string, CheckoutItemInput>();
+  for (const item of input.items) {
+    const key = `${item.productId}:${item.colorId ?? ""}`;
+    const line = lines.get(key);
+    lines.set(key, line ? { ...line, quantity: line.quantity + item.quantity } : { ...item });
+  }
+
+  const order = await sequelize.transaction(async (t) => {
+    // Anyone can type a phone number here, so a matched customer's saved
+    // addresses are left alone; the address stays on the order only
+    const existingCustomer = await findCustomerByPhone(input.phoneNumber, t);
+    const customer =
+      existingCustomer ??
+      (await createCustomerWithPhone(
+        { fullName: input.fullName, phoneNumber: input.phoneNumber, adminId: null },
+        t
+      ));
+    if (!existingCustomer) {
+      await saveCustomerAddress(customer.id, input.deliveryAddress, t);
+    }
+
+    const orderId = uuidv4();
+    const orderItems: any[] = [];
+    const limitLines: PurchaseLimitLine[] = [];
+    let subtotal = 0;
+
+    // Lock products in a stable order to avoid deadlocks with other orders
+    const sortedLines = [...lines.values()].sort((a, b) =>
+      a.productId.localeCompare(b.productId)
+    );
+
+    for (const line of sortedLines) {
+      const product = await Product.findByPk(line.productId, {
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
+
+      if (!product || product.isDeleted || !product.isActive) {
+        throw checkoutError(400, "PRODUCT_NOT_FOUND", `Product with ID ${line.productId} not found`);
+      }
+
+      // Pre-orders carry a deposit and are taken by the shop, not online
+      if (product.availability && product.availability !== ProductAvailability.IN_STOCK) {
+        throw checkoutError(
+          409,
+          "PRODUCT_NOT_AVAILABLE",
+          `Product ${product.name} is not available for online checkout yet`,
+          { productId: product.id, availability: product.availability }
+        );
+      }
+
+      let colorName: string | undefined;
+      if (line.colorId) {
+        const productColor = await ProductColor.findOne({
+          where: { productId: product.id, colorId: line.colorId },
+          include: [{ model: Color, as: "color", where: { isActive: true } }],
+          transaction: t,
+        });
+        if (!productColor) {
+          throw checkoutError(
+            400,
+            "INVALID_COLOR",
+            `Color is not available for product ${product.name}`,
+            { productId: product.id, colorId: line.colorId }
+          );
+        }
+        colorName = productColor.color.name;
+      }
+
+      if (product.stockQuantity < line.quantity) {
+        throw checkoutError(
+          409,
+          "INSUFFICIENT_STOCK",
+          `Insufficient stock for product ${product.name}. Available: ${Math.max(product.stockQuantity, 0)}, Requested: ${line.quantity}`,
+          { productId: product.id, available: Math.max(product.stockQuantity, 0) }
+        );
+      }
+
+      const unitPrice = await getEffectivePrice(product, t);
+      if (line.unitPrice !== undefined && Number(line.unitPrice) !== Number(unitPrice)) {
+        throw checkoutError(
+          409,
+          "PRICE_CHANGED",
+          `The price of ${product.name} has changed`,
+          { productId: product.id, unitPrice }
+        );
+      }
+      subtotal += unitPrice * line.quantity;
+
+      orderItems.push({
+        productId: product.id,
+        quantity: line.quantity,
+        productSnapshot: await buildProductSnapshot(
+          product,
+          { unitPrice, requestedColor: colorName },
+          t
+        ),
+      });
+
+      await adjustStock(product, -line.quantity, {
+        reason: StockMovementReason.SALE,
+        referenceId: orderId,
+        adminId: null,
+        note: "Online checkout",
+        transaction: t,
+      });
+      limitLines.push({ product, quantity: line.quantity });
+    }
+
+    // Shoppers learn the limit, not what was bought before under the phone
+    await enforcePurchaseLimits(customer.id, limitLines, { transaction: t }).catch(
+      (error) => {
+        if (error?.code !== "PURCHASE_LIMIT_EXCEEDED") throw error;
+        throw checkoutError(
+          error.status,
+          error.code,
+          error.message,
+          (error.details as PurchaseLimitViolation[]).map((violation) => ({
+            productId: violation.productId,
+            limit: violation.limit,
+            maxQuantity: violation.maxQuantity,
+          }))
+        );
+      }
+    );
+
+    const shippingFee = await suggestShippingFee(
+      customer.id,
+      {
+        city: input.deliveryAddress.city,
+        district: input.deliveryAddress.district,
+        itemQuantity: orderItems.reduce((sum, item) => sum + item.quantity, 0),
+        subtotal,
+      },
+      t
+    );
+    const originalShippingCost = shippingFee?.originalShippingCost ?? 0;
+    const shippingDiscount = shippingFee?.shippingDiscount ?? 0;
+    const shippingCost = shippingFee?.shippingCost ?? 0;
+
+    const phoneNumber = cleanPhoneNumber(input.phoneNumber);
+    const order = await Order.create(
+      {
+        id: orderId,
+        orderNumber: await generateOrderNumber(),
+        customerId: customer.id,
+        orderType: OrderType.PRODUCT,
+        status: OrderStatus.PENDING,
+        deliveryAddress: {
+          fullName: input.fullName,
+          phoneNumber,
+          addressLine: input.deliveryAddress.addressLine,
+          ward: input.deliveryAddress.ward || undefined,
+          district: input.deliveryAddress.district || undefined,
+          city: input.deliveryAddress.city,
+        },
+        customerMainPhone: phoneNumber,
+        notes: input.notes,
+        totalAmount: subtotal + shippingCost,
+        originalShippingCost,
+        shippingDiscount,
+        shippingCost,
+      },
+      { transaction: t }
+    );
+
+    await OrderItem.bulkCreate(
+      orderItems.map((item) => ({ ...item, orderId: order.id })),
+      { transaction: t }
+    );
+
+    await recordOrderCreated(order.id, null, t, "Placed via online checkout");
+
+    t.afterCommit(() => {
+      try {
+        socketService.emitOrderCreated({
+          id: order.id,
+          customerName: input.fullName,
+          totalAmount: Number(order.totalAmount),
+        });
+      } catch (error) {
+        logger.error("Error emitting order created notification:", error);
+      }
+    });
+
+    return order;
+  });
+
+  const items = await OrderItem.findAll({
+    where: { orderId: order.id },
+    attributes: ["quantity", "productSnapshot"],
+    order: [["createdAt", "ASC"]],
+  });
+
+  return {
+    orderNumber: order.orderNumber,
+    status: order.status,
+    items: items.map((item) => ({
+      productId: item.productSnapshot?.id,
+      name: item.productSnapshot?.name,
+      color: item.productSnapshot?.requestedColor ?? null,
+      quantity: item.quantity,
+      unitPrice: Number(item.productSnapshot?.unitPrice ?? 0),
+    })),
+    subtotal: Number(order.totalAmount) - Number(order.shippingCost),
+    shippingCost: Number(order.shippingCost),
+    totalAmount: Number(order.totalAmount),
+    createdAt: order.createdAt,
+  };
+};
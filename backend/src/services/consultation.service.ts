@@ -3,8 +3,25 @@ import { Consultation, ConsultationStatus } from "../models/Consultation";
 import { ConsultationItem } from "../models/ConsultationItem";
 import { Product } from "../models/Product";
 import { ProductImage } from "../models/ProductImage";
+import {
+  Order,
+  OrderItem,
+  OrderStatus,
+  OrderType,
+  StockMovementReason,
+} from "../models";
 import { sequelize } from "../config/database";
 import { Op } from "sequelize";
+import { cleanPhoneNumber } from "../utils/phoneValidation";
+import { findOrCreateCustomerByPhone, saveCustomerAddress } from "./customer-match.service";
+import { generateOrderNumber } from "./order-number.service";
+import { buildProductSnapshot } from "./order-items.service";
+import { getEffectivePrice } from "./product-price.service";
+import { recordOrderCreated } from "./order-status.service";
+import { suggestShippingFee } from "./shipping-fee.service";
+import { takeOrderItemStock } from "./pre-order.service";
+import { enforcePurchaseLimits, PurchaseLimitLine } from "./purchase-limit.service";
+import { v4 as uuidv4 } from "uuid";
 
 export interface ConsultationCreateData {
   customer: {
@@ -31,6 +48,41 @@ export interface ConsultationFilters {
   dateTo?: string;
 }
 
+export interface ConsultationAddressInput {
+  addressLine: string;
+  ward?: string | null;
+  district?: string | null;
+  city: string;
+}
+
+export interface ConvertConsultationOptions {
+  adminId: string;
+  /** Structured address, replacing the one parsed from the consultation */
+  address?: ConsultationAddressInput;
+  notes?: string;
+}
+
+/**
+ * Split a free-text address ("12 Lê Lợi, Bến Nghé, Quận 1, TP. HCM") into
+ * street, ward, district and city, reading from the end
+ */
+export const parseConsultationAddress = (address: string): ConsultationAddressInput => {
+  const parts = address
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+  if (parts.length < 2) {
+    return { addressLine: address.trim(), city: address.trim() };
+  }
+
+  const city = parts.pop()!;
+  const district = parts.length > 1 ? parts.pop()! : null;
+  const ward = parts.length > 1 ? parts.pop()! : null;
+
+  return { addressLine: parts.join(", "), ward, district, city };
+};
+
 export class ConsultationService {
   constructor() {}
 
@@ -156,6 +208,11 @@ export class ConsultationService {
               },
             ],
           },
+          {
+            model: Order,
+            as: "order",
+            attributes: ["id", "orderNumber", "status"],
+          },
         ],
         order: [["createdAt", "DESC"]],
         offset: skip,
@@ -199,6 +256,11 @@ export class ConsultationService {
               },
             ],
           },
+          {
+            model: Order,
+            as: "order",
+            attributes: ["id", "orderNumber", "status"],
+          },
         ],
       });
 
@@ -280,4 +342,177 @@ export class ConsultationService {
       throw new Error("Failed to count pending consultations from database");
     }
   }
+
+  /**
+   * Turn a consultation into a PENDING order: the customer is matched by
+   * phone or created, the address is saved to the customer and each
+   * consultation item becomes an order line at the current product price.
+   * Failures are thrown as `{ status, code, message }` objects.
+   */
+  async convertToOrder(id: string, options: ConvertConsultationOptions) {
+    return sequelize.transaction(async (t) => {
+      const consultation = await Consultation.findByPk(id, {
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
+
+      if (!consultation) {
+        throw {
+          status: 404,
+          code: "CONSULTATION_NOT_FOUND",
+          message: "Consultation not found",
+        };
+      }
+
+      const existingOrder = await Order.findOne({
+        where: { consultationId: id },
+        attributes: ["id", "orderNumber"],
+        transaction: t,
+      });
+      if (existingOrder) {
+        throw {
+          status: 409,
+          code: "CONSULTATION_ALREADY_CONVERTED",
+          message: `Consultation was already converted to order ${existingOrder.orderNumber}`,
+          details: { orderId: existingOrder.id },
+        };
+      }
+
+      const consultationItems = await ConsultationItem.findAll({
+        where: { consultationId: id },
+        transaction: t,
+      });
+      if (consultationItems.length === 0) {
+        throw {
+          status: 400,
+          code: "CONSULTATION_HAS_NO_ITEMS",
+          message: "Consultation has no items to order",
+        };
+      }
+
+      // Customer
+      const customer = await findOrCreateCustomerByPhone(
+        {
+          fullName: consultation.customerName,
+          phoneNumber: consultation.phoneNumber,
+          adminId: options.adminId,
+        },
+        t
+      );
+
+      // Address, reusing an identical saved one
+      const address = options.address ?? parseConsultationAddress(consultation.address);
+      await saveCustomerAddress(customer.id, address, t);
+
+      // Items: one line per product and colour, a consultation row per cup
+      const lines = new Map<string, { productId: string; color: string; quantity: number }>();
+      for (const item of consultationItems) {
+        const key = `${item.productId}:${item.color}`;
+        const line = lines.get(key) ?? { productId: item.productId, color: item.color, quantity: 0 };
+        line.quantity += 1;
+        lines.set(key, line);
+      }
+
+      const orderId = uuidv4();
+      const orderItems: any[] = [];
+      const limitLines: PurchaseLimitLine[] = [];
+      let subtotal = 0;
+      for (const line of lines.values()) {
+        const product = await Product.findByPk(line.productId, {
+          transaction: t,
+          lock: t.LOCK.UPDATE,
+        });
+
+        if (!product || product.isDeleted) {
+          throw {
+            status: 400,
+            code: "PRODUCT_NOT_FOUND",
+            message: `Product with ID ${line.productId} not found`,
+          };
+        }
+
+        const { isPreOrder } = await takeOrderItemStock(product, line.quantity, {
+          reason: StockMovementReason.SALE,
+          referenceId: orderId,
+          adminId: options.adminId,
+          transaction: t,
+        });
+
+        const unitPrice = await getEffectivePrice(product, t);
+        subtotal += unitPrice * line.quantity;
+
+        orderItems.push({
+          productId: product.id,
+          quantity: line.quantity,
+          productSnapshot: await buildProductSnapshot(
+            product,
+            { unitPrice, requestedColor: line.color || undefined },
+            t
+          ),
+          isPreOrder,
+        });
+        limitLines.push({ product, quantity: line.quantity });
+      }
+
+      await enforcePurchaseLimits(customer.id, limitLines, { transaction: t });
+
+      const shippingFee = await suggestShippingFee(
+        customer.id,
+        {
+          city: address.city,
+          district: address.district,
+          itemQuantity: orderItems.reduce((sum, item) => sum + item.quantity, 0),
+          subtotal,
+        },
+        t
+      );
+      const originalShippingCost = shippingFee?.originalShippingCost ?? 0;
+      const shippingDiscount = shippingFee?.shippingDiscount ?? 0;
+      const shippingCost = shippingFee?.shippingCost ?? 0;
+
+      const order = await Order.create(
+        {
+          id: orderId,
+          orderNumber: await generateOrderNumber(),
+          customerId: customer.id,
+          orderType: OrderType.PRODUCT,
+          status: OrderStatus.PENDING,
+          deliveryAddress: {
+            fullName: consultation.customerName,
+            phoneNumber: cleanPhoneNumber(consultation.phoneNumber),
+            addressLine: address.addressLine,
+            ward: address.ward || undefined,
+            district: address.district || undefined,
+            city: address.city,
+          },
+          notes: options.notes ?? consultation.notes,
+          totalAmount: subtotal + shippingCost,
+          originalShippingCost,
+          shippingDiscount,
+          shippingCost,
+          consultationId: consultation.id,
+        },
+        { transaction: t }
+      );
+
+      await OrderItem.bulkCreate(
+        orderItems.map((item) => ({ ...item, orderId: order.id })),
+        { transaction: t }
+      );
+
+      await recordOrderCreated(
+        order.id,
+        options.adminId,
+        t,
+        "Converted from consultation"
+      );
+
+      await consultation.update(
+        { status: ConsultationStatus.RESOLVED },
+        { transaction: t }
+      );
+
+      return { order, customer, consultation };
+    });
+  }
 }
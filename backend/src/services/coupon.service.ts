@@ -0,0 +1,388 @@
+import { Op, Transaction, WhereOptions } from "sequelize";
+import { sequelize } from "../config/database";
+import {
+  Coupon,
+  CouponRedemption,
+  CouponType,
+  Order,
+  OrderStatus,
+  ProductCategory,
+} from "../models";
+import { getValidityWindowState } from "../utils/validity-window";
+
+export interface CouponOrderItem {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface CouponOrderContext {
+  customerId: string;
+  items: CouponOrderItem[];
+  /** Merchandise subtotal, shipping excluded */
+  subtotal: number;
+  originalShippingCost: number;
+  /** Order being edited, left out of the usage counts */
+  orderId?: string;
+}
+
+export interface CouponEvaluation {
+  coupon: Coupon;
+  /** Subtotal of the items the coupon applies to */
+  eligibleSubtotal: number;
+  discountAmount: number;
+  shippingDiscountAmount: number;
+}
+
+export interface CouponUsageFilter {
+  couponId?: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+export const normalizeCouponCode = (code: string): string =>
+  code.trim().toUpperCase();
+
+const couponError = (status: number, code: string, message: string, details?: unknown) => ({
+  status,
+  code,
+  message,
+  details,
+});
+
+/**
+ * Redemptions of a coupon that still count towards its limits. Cancelled
+ * orders give their redemption back.
+ */
+const countRedemptions = async (
+  couponId: string,
+  where: WhereOptions,
+  t?: Transaction
+): Promise<number> =>
+  CouponRedemption.count({
+    where: { couponId, ...where },
+    include: [
+      {
+        model: Order,
+        as: "order",
+        attributes: [],
+        where: { status: { [Op.ne]: OrderStatus.CANCELLED } },
+      },
+    ],
+    transaction: t,
+  });
+
+/**
+ * Subtotal of the order items a coupon is scoped to. A coupon without
+ * products or categories applies to the whole order.
+ */
+const getEligibleSubtotal = async (
+  coupon: Coupon,
+  context: CouponOrderContext,
+  t?: Transaction
+): Promise<number> => {
+  const productIds = coupon.productIds || [];
+  const categoryIds = coupon.categoryIds || [];
+
+  if (productIds.length === 0 && categoryIds.length === 0) {
+    return context.subtotal;
+  }
+
+  const eligible = new Set(productIds);
+
+  if (categoryIds.length > 0 && context.items.length > 0) {
+    const links = await ProductCategory.findAll({
+      where: {
+        productId: { [Op.in]: context.items.map((item) => item.productId) },
+        categoryId: { [Op.in]: categoryIds },
+      },
+      attributes: ["productId"],
+      transaction: t,
+    });
+    links.forEach((link) => eligible.add(link.productId));
+  }
+
+  return context.items
+    .filter((item) => eligible.has(item.productId))
+    .reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+};
+
+/**
+ * Discount a coupon gives an order, without any validity or limit checks
+ */
+const computeCouponDiscount = async (
+  coupon: Coupon,
+  context: CouponOrderContext,
+  t?: Transaction
+): Promise<CouponEvaluation> => {
+  const eligibleSubtotal = await getEligibleSubtotal(coupon, context, t);
+
+  let discountAmount = 0;
+  let shippingDiscountAmount = 0;
+
+  switch (coupon.type) {
+    case CouponType.PERCENTAGE: {
+      discountAmount = Math.round((eligibleSubtotal * Number(coupon.value)) / 100);
+      if (coupon.maxDiscountAmount !== null) {
+        discountAmount = Math.min(discountAmount, Number(coupon.maxDiscountAmount));
+      }
+      break;
+    }
+    case CouponType.FIXED_AMOUNT:
+      discountAmount = Math.min(Number(coupon.value), eligibleSubtotal);
+      break;
+    case CouponType.FREE_SHIPPING:
+      shippingDiscountAmount = context.originalShippingCost;
+      break;
+  }
+
+  return { coupon, eligibleSubtotal, discountAmount, shippingDiscountAmount };
+};
+
+/**
+ * Check a coupon against an order and compute its discount. Failures are
+ * thrown as `{ status, code, message }` objects.
+ *
+ * Pass the order transaction so the coupon row is locked and usage limits
+ * hold under concurrent orders.
+ */
+export const evaluateCoupon = async (
+  rawCode: string,
+  context: CouponOrderContext,
+  t?: Transaction
+): Promise<CouponEvaluation> => {
+  const code = normalizeCouponCode(rawCode);
+
+  const coupon = await Coupon.findOne({
+    where: { code },
+    transaction: t,
+    lock: t ? t.LOCK.UPDATE : undefined,
+  });
+
+  if (!coupon) {
+    throw couponError(404, "COUPON_NOT_FOUND", `Coupon ${code} does not exist`);
+  }
+
+  if (!coupon.isActive) {
+    throw couponError(409, "COUPON_INACTIVE", `Coupon ${code} is no longer active`);
+  }
+
+  const windowState = getValidityWindowState(coupon);
+  if (windowState === "NOT_STARTED") {
+    throw couponError(409, "COUPON_NOT_STARTED", `Coupon ${code} is not valid yet`, {
+      validFrom: coupon.validFrom,
+    });
+  }
+  if (windowState === "EXPIRED") {
+    throw couponError(409, "COUPON_EXPIRED", `Coupon ${code} has expired`, {
+      validUntil: coupon.validUntil,
+    });
+  }
+
+  const minOrderValue = Number(coupon.minOrderValue || 0);
+  if (context.subtotal < minOrderValue) {
+    throw couponError(
+      409,
+      "COUPON_MIN_ORDER_VALUE",
+      `Coupon ${code} requires an order value of at least ${minOrderValue}`,
+      { minOrderValue, subtotal: context.subtotal }
+    );
+  }
+
+  const excludeOrder = context.orderId
+    ? { orderId: { [Op.ne]: context.orderId } }
+    : {};
+
+  if (coupon.usageLimit !== null) {
+    const used = await countRedemptions(coupon.id, excludeOrder, t);
+    if (used >= coupon.usageLimit) {
+      throw couponError(409, "COUPON_USAGE_LIMIT_REACHED", `Coupon ${code} has been fully redeemed`);
+    }
+  }
+
+  if (coupon.usageLimitPerCustomer !== null) {
+    const used = await countRedemptions(
+      coupon.id,
+      { ...excludeOrder, customerId: context.customerId },
+      t
+    );
+    if (used >= coupon.usageLimitPerCustomer) {
+      throw couponError(
+        409,
+        "COUPON_CUSTOMER_LIMIT_REACHED",
+        `Customer has already used coupon ${code} ${used} time(s)`
+      );
+    }
+  }
+
+  const evaluation = await computeCouponDiscount(coupon, context, t);
+  if (evaluation.eligibleSubtotal <= 0 && coupon.type !== CouponType.FREE_SHIPPING) {
+    throw couponError(
+      409,
+      "COUPON_NOT_APPLICABLE",
+      `Coupon ${code} does not apply to any item in this order`
+    );
+  }
+
+  return evaluation;
+};
+
+/**
+ * Recompute the discount of the coupon already on an order, e.g. after its
+ * items change. The coupon was checked when it was applied, so it stays
+ * even if it has since expired, been deactivated or reached its limits.
+ */
+export const recalculateRedeemedCoupon = async (
+  redemption: Pick<CouponRedemption, "couponId">,
+  context: CouponOrderContext,
+  t?: Transaction
+): Promise<CouponEvaluation | null> => {
+  const coupon = await Coupon.findByPk(redemption.couponId, { transaction: t });
+  return coupon ? computeCouponDiscount(coupon, context, t) : null;
+};
+
+/**
+ * Record the coupon used by an order, replacing any previous one
+ */
+export const saveOrderCouponRedemption = async (
+  orderId: string,
+  customerId: string,
+  evaluation: CouponEvaluation | null,
+  t: Transaction
+): Promise<void> => {
+  await CouponRedemption.destroy({ where: { orderId }, transaction: t });
+
+  if (!evaluation) return;
+
+  await CouponRedemption.create(
+    {
+      couponId: evaluation.coupon.id,
+      orderId,
+      customerId,
+      code: evaluation.coupon.code,
+      discountAmount: evaluation.discountAmount,
+      shippingDiscountAmount: evaluation.shippingDiscountAmount,
+    },
+    { transaction: t }
+  );
+};
+
+/**
+ * Redemptions per coupon, cancelled orders excluded
+ */
+export const getCouponUsageReport = async (filter: CouponUsageFilter = {}) => {
+  const where: any = {};
+  if (filter.couponId) where.couponId = filter.couponId;
+  if (filter.dateFrom || filter.dateTo) {
+    where.createdAt = {
+      ...(filter.dateFrom && { [Op.gte]: filter.dateFrom }),
+      ...(filter.dateTo && { [Op.lte]: filter.dateTo }),
+    };
+  }
+
+  const redemptions = await CouponRedemption.findAll({
+    where,
+    attributes: ["couponId", "customerId", "discountAmount", "shippingDiscountAmount"],
+    include: [
+      {
+        model: Order,
+        as: "order",
+        attributes: ["id", "totalAmount"],
+        where: { status: { [Op.ne]: OrderStatus.CANCELLED } },
+      },
+    ],
+  });
+
+  const couponIds = [...new Set(redemptions.map((r) => r.couponId))];
+  const coupons = await Coupon.findAll({
+    where: filter.couponId ? { id: filter.couponId } : { id: { [Op.in]: couponIds } },
+    attributes: ["id", "code", "name", "type", "usageLimit", "isActive"],
+  });
+
+  const byCoupon = new Map<
+    string,
+    {
+      redemptions: number;
+      customers: Set<string>;
+      discountAmount: number;
+      shippingDiscountAmount: number;
+      orderRevenue: number;
+    }
+  >();
+
+  for (const redemption of redemptions) {
+    const entry = byCoupon.get(redemption.couponId) ?? {
+      redemptions: 0,
+      customers: new Set<string>(),
+      discountAmount: 0,
+      shippingDiscountAmount: 0,
+      orderRevenue: 0,
+    };
+    entry.redemptions += 1;
+    entry.customers.add(redemption.customerId);
+    entry.discountAmount += Number(redemption.discountAmount);
+    entry.shippingDiscountAmount += Number(redemption.shippingDiscountAmount);
+    entry.orderRevenue += Number(redemption.order?.totalAmount ?? 0);
+    byCoupon.set(redemption.couponId, entry);
+  }
+
+  const rows = coupons
+    .map((coupon) => {
+      const entry = byCoupon.get(coupon.id);
+      return {
+        couponId: coupon.id,
+        code: coupon.code,
+        name: coupon.name,
+        type: coupon.type,
+        isActive: coupon.isActive,
+        usageLimit: coupon.usageLimit,
+        redemptions: entry?.redemptions ?? 0,
+        uniqueCustomers: entry?.customers.size ?? 0,
+        discountAmount: entry?.discountAmount ?? 0,
+        shippingDiscountAmount: entry?.shippingDiscountAmount ?? 0,
+        orderRevenue: entry?.orderRevenue ?? 0,
+      };
+    })
+    .sort((a, b) => b.redemptions - a.redemptions);
+
+  return {
+    coupons: rows,
+    totals: {
+      redemptions: rows.reduce((sum, row) => sum + row.redemptions, 0),
+      discountAmount: rows.reduce((sum, row) => sum + row.discountAmount, 0),
+      shippingDiscountAmount: rows.reduce((sum, row) => sum + row.shippingDiscountAmount, 0),
+      orderRevenue: rows.reduce((sum, row) => sum + row.orderRevenue, 0),
+    },
+  };
+};
+
+/**
+ * Live redemption counts for a list of coupons, cancelled orders excluded
+ */
+export const getCouponRedemptionCounts = async (
+  couponIds: string[]
+): Promise<Map<string, number>> => {
+  const counts = new Map<string, number>();
+  if (couponIds.length === 0) return counts;
+
+  const rows = (await CouponRedemption.findAll({
+    where: { couponId: { [Op.in]: couponIds } },
+    attributes: [
+      "couponId",
+      [sequelize.fn("COUNT", sequelize.col("CouponRedemption.id")), "count"],
+    ],
+    include: [
+      {
+        model: Order,
+        as: "order",
+        attributes: [],
+        where: { status: { [Op.ne]: OrderStatus.CANCELLED } },
+      },
+    ],
+    group: ["CouponRedemption.coupon_id"],
+    raw: true,
+  })) as unknown as { couponId: string; count: string }[];
+
+  rows.forEach((row) => counts.set(row.couponId, Number(row.count)));
+  return counts;
+};
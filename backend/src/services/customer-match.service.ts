@@ -0,0 +1,104 @@
+import { Transaction, literal, where as sequelizeWhere } from "sequelize";
+import { Customer, CustomerAddress, CustomerPhone } from "../models";
+import {
+  cleanPhoneNumber,
+  normalizedPhoneSql,
+  normalizePhoneNumber,
+} from "../utils/phoneValidation";
+
+export interface CustomerAddressInput {
+  addressLine: string;
+  ward?: string | null;
+  district?: string | null;
+  city: string;
+}
+
+const normalizeAddressPart = (value?: string | null) =>
+  (value || "").trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Customer owning a phone number, however it was formatted when saved
+ */
+export const findCustomerByPhone = async (phoneNumber: string, t: Transaction) => {
+  const normalized = normalizePhoneNumber(phoneNumber);
+  if (!normalized) return null;
+
+  const phone = await CustomerPhone.findOne({
+    where: sequelizeWhere(literal(normalizedPhoneSql("phone_number")), normalized),
+    order: [["isMain", "DESC"]],
+    transaction: t,
+  });
+
+  return phone ? Customer.findByPk(phone.customerId, { transaction: t }) : null;
+};
+
+/**
+ * Create a customer with the phone number as main
+ */
+export const createCustomerWithPhone = async (
+  data: { fullName: string; phoneNumber: string; adminId: string | null },
+  t: Transaction
+) => {
+  const customer = await Customer.create(
+    {
+      fullName: data.fullName,
+      isVip: false,
+      createdByAdminId: data.adminId,
+    },
+    { transaction: t }
+  );
+  await CustomerPhone.create(
+    {
+      customerId: customer.id,
+      phoneNumber: cleanPhoneNumber(data.phoneNumber),
+      isMain: true,
+    },
+    { transaction: t }
+  );
+
+  return customer;
+};
+
+/**
+ * Match a customer by phone, or create one with that phone as main
+ */
+export const findOrCreateCustomerByPhone = async (
+  data: { fullName: string; phoneNumber: string; adminId: string | null },
+  t: Transaction
+) => {
+  const existing = await findCustomerByPhone(data.phoneNumber, t);
+  return existing ?? createCustomerWithPhone(data, t);
+};
+
+/**
+ * Save a delivery address on the customer unless an identical one is
+ * already there. The first address becomes the default.
+ */
+export const saveCustomerAddress = async (
+  customerId: string,
+  address: CustomerAddressInput,
+  t: Transaction
+) => {
+  const savedAddresses = await CustomerAddress.findAll({
+    where: { customerId },
+    transaction: t,
+  });
+  const sameAddress = savedAddresses.find(
+    (saved) =>
+      normalizeAddressPart(saved.addressLine) === normalizeAddressPart(address.addressLine) &&
+      normalizeAddressPart(saved.city) === normalizeAddressPart(address.city)
+  );
+  if (sameAddress) return;
+
+  await CustomerAddress.create(
+    {
+      customerId,
+      addressLine: address.addressLine,
+      ward: address.ward || undefined,
+      district: address.district || undefined,
+      city: address.city,
+      isDefault: savedAddresses.length === 0,
+    },
+    { transaction: t }
+  );
+};
@@ -0,0 +1,187 @@
+import { Transaction } from "sequelize";
+import { logger } from "@/utils/logger";
+import { Product, Setting, StockAlertState } from "../models";
+import { socketService } from "./socket.service";
+
+const INVENTORY_ALERT_SETTINGS_KEY = "inventoryAlerts";
+const CACHE_TTL_MS = 30_000;
+
+export interface InventoryAlertSettingsDto {
+  enabled: boolean;
+  /** Reorder threshold for products without their own */
+  defaultLowStockThreshold: number;
+}
+
+const DEFAULT_INVENTORY_ALERT_SETTINGS: InventoryAlertSettingsDto = {
+  enabled: true,
+  defaultLowStockThreshold: 5,
+};
+
+let inventoryAlertSettingsCache:
+  | { value: InventoryAlertSettingsDto; expiresAt: number }
+  | null = null;
+
+const parseStoredValue = (raw: unknown): Partial<InventoryAlertSettingsDto> => {
+  if (!raw) return {};
+
+  let parsed: unknown = raw;
+  if (typeof parsed === "string") {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return {};
+    }
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return {};
+  }
+
+  return parsed as Partial<InventoryAlertSettingsDto>;
+};
+
+const sanitizeInventoryAlertSettings = (
+  input: Partial<InventoryAlertSettingsDto>
+): InventoryAlertSettingsDto => {
+  const threshold = Number(input.defaultLowStockThreshold);
+
+  return {
+    enabled:
+      typeof input.enabled === "boolean"
+        ? input.enabled
+        : DEFAULT_INVENTORY_ALERT_SETTINGS.enabled,
+    defaultLowStockThreshold:
+      Number.isFinite(threshold) && threshold >= 0
+        ? Math.min(Math.round(threshold), 100_000)
+        : DEFAULT_INVENTORY_ALERT_SETTINGS.defaultLowStockThreshold,
+  };
+};
+
+export const getInventoryAlertSettings =
+  async (): Promise<InventoryAlertSettingsDto> => {
+    const now = Date.now();
+    if (inventoryAlertSettingsCache && inventoryAlertSettingsCache.expiresAt > now) {
+      return { ...inventoryAlertSettingsCache.value };
+    }
+
+    const setting = await Setting.findOne({
+      where: { key: INVENTORY_ALERT_SETTINGS_KEY },
+    });
+
+    const value = sanitizeInventoryAlertSettings(
+      setting ? parseStoredValue(setting.value) : {}
+    );
+
+    inventoryAlertSettingsCache = {
+      value,
+      expiresAt: now + CACHE_TTL_MS,
+    };
+
+    return { ...value };
+  };
+
+export const updateInventoryAlertSettings = async (
+  payload: Partial<InventoryAlertSettingsDto>
+): Promise<InventoryAlertSettingsDto> => {
+  const current = await getInventoryAlertSettings();
+  const next = sanitizeInventoryAlertSettings({
+    ...current,
+    ...payload,
+  });
+
+  const [setting] = await Setting.findOrCreate({
+    where: { key: INVENTORY_ALERT_SETTINGS_KEY },
+    defaults: {
+      key: INVENTORY_ALERT_SETTINGS_KEY,
+      value: next,
+      description: "Inventory alert settings",
+    },
+  });
+
+  setting.value = next;
+  setting.changed("value", true);
+  if (!setting.description) {
+    setting.description = "Inventory alert settings";
+  }
+  await setting.save();
+
+  inventoryAlertSettingsCache = {
+    value: next,
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  };
+
+  return { ...next };
+};
+
+/**
+ * Threshold at or below which a product counts as low on stock
+ */
+export const getLowStockThreshold = (
+  product: Pick<Product, "lowStockThreshold">,
+  settings: InventoryAlertSettingsDto
+): number => product.lowStockThreshold ?? settings.defaultLowStockThreshold;
+
+export const getStockAlertState = (
+  stockQuantity: number,
+  threshold: number
+): StockAlertState => {
+  if (stockQuantity <= 0) return StockAlertState.OUT_OF_STOCK;
+  if (stockQuantity <= threshold) return StockAlertState.LOW_STOCK;
+  return StockAlertState.IN_STOCK;
+};
+
+const STATE_RANK: Record<StockAlertState, number> = {
+  [StockAlertState.OUT_OF_STOCK]: 0,
+  [StockAlertState.LOW_STOCK]: 1,
+  [StockAlertState.IN_STOCK]: 2,
+};
+
+/**
+ * Compare a product's stock with its threshold and notify admins when it
+ * crosses into another state. The last notified state is kept on the
+ * product, so repeated sales while already low stay silent.
+ *
+ * Notifications go out after the transaction commits.
+ */
+export const checkStockAlert = async (
+  product: Product,
+  transaction?: Transaction
+): Promise<void> => {
+  const settings = await getInventoryAlertSettings();
+  const threshold = getLowStockThreshold(product, settings);
+  const previous = product.stockAlertState ?? StockAlertState.IN_STOCK;
+  const next = getStockAlertState(product.stockQuantity, threshold);
+
+  if (previous === next) return;
+
+  await product.update({ stockAlertState: next }, { transaction });
+
+  if (!settings.enabled) return;
+
+  const action =
+    STATE_RANK[next] > STATE_RANK[previous]
+      ? "restocked"
+      : next === StockAlertState.OUT_OF_STOCK
+      ? "out_of_stock"
+      : "low_stock";
+
+  const emit = () => {
+    try {
+      socketService.emitInventoryNotification({
+        productId: product.id,
+        productName: product.name,
+        currentStock: product.stockQuantity,
+        threshold,
+        action,
+      });
+    } catch (error) {
+      logger.error("Error emitting inventory notification:", error);
+    }
+  };
+
+  if (transaction) {
+    transaction.afterCommit(emit);
+  } else {
+    emit();
+  }
+};
@@ -0,0 +1,586 @@
+import sharp from "sharp";
+import { Op } from "sequelize";
+import {
+  Customer,
+  CustomerPhone,
+  Order,
+  OrderItem,
+  Payment,
+  Setting,
+} from "../models";
+import { buildImagePdf, PdfImagePage } from "../utils/pdf";
+import { summarizeOrderPayments } from "./payment.service";
+
+const ORDER_DOCUMENT_SETTINGS_KEY = "orderDocumentSettings";
+const CACHE_TTL_MS = 30_000;
+
+export type OrderDocumentType = "invoice" | "packing-slip";
+
+export interface OrderDocumentSettingsDto {
+  shopName: string;
+  address: string;
+  phone: string;
+  email: string;
+  website: string;
+  footerNote: string;
+}
+
+const DEFAULT_ORDER_DOCUMENT_SETTINGS: OrderDocumentSettingsDto = {
+  shopName: process.env.SHOP_NAME || "hasron.vn",
+  address: "",
+  phone: "",
+  email: "",
+  website: "",
+  footerNote: "Cảm ơn quý khách đã mua hàng!",
+};
+
+let documentSettingsCache:
+  | { value: OrderDocumentSettingsDto; expiresAt: number }
+  | null = null;
+
+const parseStoredValue = (raw: unknown): Partial<OrderDocumentSettingsDto> => {
+  if (!raw) return {};
+
+  let parsed: unknown = raw;
+  if (typeof parsed === "string") {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return {};
+    }
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return {};
+  }
+
+  return parsed as Partial<OrderDocumentSettingsDto>;
+};
+
+const sanitizeDocumentSettings = (
+  input: Partial<OrderDocumentSettingsDto>
+): OrderDocumentSettingsDto => {
+  const text = (value: unknown, fallback: string) =>
+    typeof value === "string" ? value.trim().slice(0, 200) : fallback;
+
+  return {
+    shopName:
+      text(input.shopName, "") || DEFAULT_ORDER_DOCUMENT_SETTINGS.shopName,
+    address: text(input.address, DEFAULT_ORDER_DOCUMENT_SETTINGS.address),
+    phone: text(input.phone, DEFAULT_ORDER_DOCUMENT_SETTINGS.phone),
+    email: text(input.email, DEFAULT_ORDER_DOCUMENT_SETTINGS.email),
+    website: text(input.website, DEFAULT_ORDER_DOCUMENT_SETTINGS.website),
+    footerNote: text(input.footerNote, DEFAULT_ORDER_DOCUMENT_SETTINGS.footerNote),
+  };
+};
+
+export const getOrderDocumentSettings =
+  async (): Promise<OrderDocumentSettingsDto> => {
+    const now = Date.now();
+    if (documentSettingsCache && documentSettingsCache.expiresAt > now) {
+      return { ...documentSettingsCache.value };
+    }
+
+    const setting = await Setting.findOne({
+      where: { key: ORDER_DOCUMENT_SETTINGS_KEY },
+    });
+
+    const sanitized = setting
+      ? sanitizeDocumentSettings(parseStoredValue(setting.value))
+      : { ...DEFAULT_ORDER_DOCUMENT_SETTINGS };
+
+    documentSettingsCache = {
+      value: sanitized,
+      expiresAt: now + CACHE_TTL_MS,
+    };
+
+    return { ...sanitized };
+  };
+
+export const updateOrderDocumentSettings = async (
+  payload: Partial<OrderDocumentSettingsDto>
+): Promise<OrderDocumentSettingsDto> => {
+  const current = await getOrderDocumentSettings();
+  const next = sanitizeDocumentSettings({
+    ...current,
+    ...payload,
+  });
+
+  const [setting] = await Setting.findOrCreate({
+    where: { key: ORDER_DOCUMENT_SETTINGS_KEY },
+    defaults: {
+      key: ORDER_DOCUMENT_SETTINGS_KEY,
+      value: next,
+      description: "Shop header printed on invoices and packing slips",
+    },
+  });
+
+  setting.value = next;
+  setting.changed("value", true);
+  if (!setting.description) {
+    setting.description = "Shop header printed on invoices and packing slips";
+  }
+  await setting.save();
+
+  documentSettingsCache = {
+    value: next,
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  };
+
+  return { ...next };
+};
+
+// A4 at 150 DPI
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const MARGIN = 90;
+const CONTENT_RIGHT = PAGE_WIDTH - MARGIN;
+const FOOTER_TOP = PAGE_HEIGHT - MARGIN - 40;
+const FONT_FAMILY =
+  "Arial, 'Helvetica Neue', Helvetica, Tahoma, 'Segoe UI', sans-serif";
+const BODY_SIZE = 24;
+const LINE_HEIGHT = 34;
+const ROW_PADDING = 14;
+
+const DOCUMENT_TITLES: Record<OrderDocumentType, string> = {
+  invoice: "HÓA ĐƠN BÁN HÀNG",
+  "packing-slip": "PHIẾU GIAO HÀNG",
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const formatMoney = (value: number): string =>
+  `${Math.round(Number(value) || 0).toLocaleString("vi-VN")} ₫`;
+
+const formatDate = (value: Date): string =>
+  new Date(value).toLocaleDateString("vi-VN", {
+    timeZone: "Asia/Ho_Chi_Minh",
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+  });
+
+/**
+ * Greedy word wrap. Widths are estimated (~0.55em per glyph), which is
+ * close enough for Arial-like fonts.
+ */
+const wrapText = (text: string, maxWidth: number, fontSize = BODY_SIZE) => {
+  const maxChars = Math.max(8, Math.floor(maxWidth / (fontSize * 0.55)));
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= maxChars) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+
+    while (current.length > maxChars) {
+      lines.push(current.slice(0, maxChars));
+      current = current.slice(maxChars);
+    }
+  }
+
+  if (current) lines.push(current);
+  return lines.length ? lines : [""];
+};
+
+interface TextOptions {
+  size?: number;
+  weight?: "400" | "700";
+  anchor?: "start" | "middle" | "end";
+  fill?: string;
+}
+
+class SvgPage {
+  private readonly parts: string[] = [];
+
+  text(x: number, y: number, content: string, options: TextOptions = {}) {
+    if (!content) return;
+    const { size = BODY_SIZE, weight = "400", anchor = "start", fill = "#000" } =
+      options;
+    this.parts.push(
+      `<text x="${x}" y="${y}" font-family="${FONT_FAMILY}" font-size="${size}" ` +
+        `font-weight="${weight}" text-anchor="${anchor}" fill="${fill}">${escapeXml(content)}</text>`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 2) {
+    this.parts.push(
+      `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#000" stroke-width="${width}" />`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill = "none") {
+    this.parts.push(
+      `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${fill}" stroke="#000" stroke-width="2" />`
+    );
+  }
+
+  toSvg(): string {
+    return (
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}">` +
+      `<rect width="100%" height="100%" fill="#fff" />${this.parts.join("")}</svg>`
+    );
+  }
+}
+
+interface DocumentLine {
+  index: number;
+  name: string;
+  variant: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+interface TableColumn {
+  title: string;
+  x: number;
+  anchor: "start" | "end";
+  value: (line: DocumentLine) => string;
+  /** Product names wrap; check columns draw an empty tick box */
+  kind?: "name" | "check";
+}
+
+const INVOICE_COLUMNS: TableColumn[] = [
+  { title: "#", x: MARGIN, anchor: "start", value: (l) => String(l.index) },
+  { title: "Sản phẩm", x: MARGIN + 50, anchor: "start", value: (l) => l.name, kind: "name" },
+  { title: "SL", x: 770, anchor: "end", value: (l) => String(l.quantity) },
+  { title: "Đơn giá", x: 960, anchor: "end", value: (l) => formatMoney(l.unitPrice) },
+  { title: "Thành tiền", x: CONTENT_RIGHT, anchor: "end", value: (l) => formatMoney(l.amount) },
+];
+
+const PACKING_SLIP_COLUMNS: TableColumn[] = [
+  { title: "#", x: MARGIN, anchor: "start", value: (l) => String(l.index) },
+  { title: "Sản phẩm", x: MARGIN + 50, anchor: "start", value: (l) => l.name, kind: "name" },
+  { title: "Màu / phân loại", x: 760, anchor: "start", value: (l) => l.variant },
+  { title: "SL", x: 1060, anchor: "end", value: (l) => String(l.quantity) },
+  { title: "Đủ", x: CONTENT_RIGHT, anchor: "end", value: () => "", kind: "check" },
+];
+
+// Width available to the (wrapping) product name column
+const NAME_COLUMN_WIDTH: Record<OrderDocumentType, number> = {
+  invoice: 770 - 120 - (MARGIN + 50),
+  "packing-slip": 760 - 30 - (MARGIN + 50),
+};
+
+const formatAddress = (address: any): string => {
+  if (!address) return "";
+  if (typeof address === "string") return address;
+
+  return [
+    address.addressLine ?? address.addressLine1,
+    address.addressLine2,
+    address.district,
+    address.city,
+    address.postalCode,
+  ]
+    .filter((part) => typeof part === "string" && part.trim())
+    .join(", ");
+};
+
+const toDocumentLines = (order: Order): DocumentLine[] => {
+  const items: any[] = order.items || [];
+
+  if (items.length === 0 && order.customDescription) {
+    const amount =
+      Number(order.totalAmount) -
+      Number(order.shippingCost || 0) +
+      Number(order.discountAmount || 0);
+    return [
+      {
+        index: 1,
+        name: order.customDescription,
+        variant: "",
+        quantity: 1,
+        unitPrice: amount,
+        amount,
+      },
+    ];
+  }
+
+  return items.map((item, i) => {
+    const snapshot = item.productSnapshot || {};
+    const unitPrice = Number(snapshot.unitPrice ?? 0);
+    const capacity = snapshot.capacity?.name;
+
+    return {
+      index: i + 1,
+      name: [snapshot.name || item.product?.name || "Sản phẩm", capacity]
+        .filter(Boolean)
+        .join(" - "),
+      variant: snapshot.requestedColor || "",
+      quantity: item.quantity,
+      unitPrice,
+      amount: unitPrice * item.quantity,
+    };
+  });
+};
+
+/**
+ * Lay out one order onto as many pages as its line items need
+ */
+const layoutOrder = (
+  order: Order,
+  type: OrderDocumentType,
+  shop: OrderDocumentSettingsDto
+): SvgPage[] => {
+  const pages: SvgPage[] = [];
+  const columns = type === "invoice" ? INVOICE_COLUMNS : PACKING_SLIP_COLUMNS;
+  const lines = toDocumentLines(order);
+  const customer = order.customer;
+  const phone =
+    order.customerMainPhone ||
+    customer?.customerPhones?.find((p: any) => p.isMain)?.phoneNumber ||
+    customer?.customerPhones?.[0]?.phoneNumber ||
+    "";
+  const address = order.deliveryAddress || {};
+  const summary = summarizeOrderPayments(order.totalAmount, order.payments || []);
+
+  let page = new SvgPage();
+  let y = 0;
+
+  const drawHeader = (first: boolean) => {
+    page.text(MARGIN, MARGIN + 30, shop.shopName, { size: 40, weight: "700" });
+    const contact = [shop.address, [shop.phone, shop.email, shop.website].filter(Boolean).join(" · ")]
+      .filter(Boolean);
+    contact.forEach((text, i) =>
+      page.text(MARGIN, MARGIN + 70 + i * 30, text, { size: 22, fill: "#333" })
+    );
+
+    page.text(CONTENT_RIGHT, MARGIN + 30, DOCUMENT_TITLES[type], {
+      size: 36,
+      weight: "700",
+      anchor: "end",
+    });
+    page.text(CONTENT_RIGHT, MARGIN + 70, `Mã đơn: ${order.orderNumber}`, {
+      anchor: "end",
+      weight: "700",
+    });
+    page.text(CONTENT_RIGHT, MARGIN + 102, `Ngày đặt: ${formatDate(order.createdAt)}`, {
+      anchor: "end",
+      size: 22,
+    });
+
+    y = MARGIN + 150;
+    page.line(MARGIN, y, CONTENT_RIGHT, y, 3);
+    y += 50;
+
+    if (!first) return;
+
+    page.text(MARGIN, y, "Người nhận:", { weight: "700" });
+    page.text(MARGIN + 190, y, address.fullName || customer?.fullName || "");
+    y += LINE_HEIGHT + 4;
+    page.text(MARGIN, y, "Điện thoại:", { weight: "700" });
+    page.text(MARGIN + 190, y, address.phoneNumber || phone);
+    y += LINE_HEIGHT + 4;
+    page.text(MARGIN, y, "Địa chỉ:", { weight: "700" });
+    for (const line of wrapText(formatAddress(address), CONTENT_RIGHT - MARGIN - 190)) {
+      page.text(MARGIN + 190, y, line);
+      y += LINE_HEIGHT;
+    }
+
+    if (order.notes) {
+      y += 4;
+      page.text(MARGIN, y, "Ghi chú:", { weight: "700" });
+      for (const line of wrapText(order.notes, CONTENT_RIGHT - MARGIN - 190).slice(0, 3)) {
+        page.text(MARGIN + 190, y, line);
+        y += LINE_HEIGHT;
+      }
+    }
+
+    y += 30;
+  };
+
+  const drawTableHeader = () => {
+    page.rect(MARGIN, y - 34, CONTENT_RIGHT - MARGIN, 50, "#e6e6e6");
+    columns.forEach((column) =>
+      page.text(column.anchor === "end" ? column.x - 10 : column.x + 10, y, column.title, {
+        weight: "700",
+        anchor: column.anchor,
+      })
+    );
+    y += 16 + ROW_PADDING + LINE_HEIGHT - 10;
+  };
+
+  const newPage = () => {
+    pages.push(page);
+    page = new SvgPage();
+    drawHeader(false);
+    drawTableHeader();
+  };
+
+  drawHeader(true);
+  drawTableHeader();
+
+  const nameWidth = NAME_COLUMN_WIDTH[type];
+  for (const line of lines) {
+    const nameLines = wrapText(line.name, nameWidth);
+    const rowHeight = nameLines.length * LINE_HEIGHT + ROW_PADDING;
+    if (y + rowHeight > FOOTER_TOP - 20) newPage();
+
+    columns.forEach((column) => {
+      const x = column.anchor === "end" ? column.x - 10 : column.x + 10;
+      if (column.kind === "name") {
+        nameLines.forEach((text, i) => page.text(x, y + i * LINE_HEIGHT, text));
+      } else if (column.kind === "check") {
+        page.rect(column.x - 40, y - 24, 28, 28);
+      } else {
+        page.text(x, y, column.value(line), { anchor: column.anchor });
+      }
+    });
+
+    y += rowHeight;
+    page.line(MARGIN, y - LINE_HEIGHT + 6, CONTENT_RIGHT, y - LINE_HEIGHT + 6, 1);
+  }
+
+  const totals: [string, string, boolean?][] = [];
+  if (type === "invoice") {
+    const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+    totals.push(["Tạm tính", formatMoney(subtotal)]);
+    if (Number(order.discountAmount) > 0) {
+      const label = order.couponCode ? `Giảm giá (${order.couponCode})` : "Giảm giá";
+      totals.push([label, `-${formatMoney(order.discountAmount)}`]);
+    }
+    totals.push(["Phí vận chuyển", formatMoney(order.originalShippingCost || order.shippingCost)]);
+    if (Number(order.shippingDiscount) > 0) {
+      totals.push(["Giảm phí vận chuyển", `-${formatMoney(order.shippingDiscount)}`]);
+    }
+    totals.push(["Tổng cộng", formatMoney(order.totalAmount), true]);
+    if (summary.netPaid > 0) {
+      totals.push(["Đã thanh toán", formatMoney(summary.netPaid)]);
+      totals.push(["Còn lại", formatMoney(summary.balanceDue), true]);
+    }
+  } else {
+    const quantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+    totals.push(["Tổng số lượng", String(quantity)]);
+    totals.push(["Thu hộ (COD)", formatMoney(summary.balanceDue), true]);
+  }
+
+  const totalsHeight = totals.length * (LINE_HEIGHT + 8) + 40;
+  const signatureHeight = type === "packing-slip" ? 180 : 0;
+  if (y + totalsHeight + signatureHeight > FOOTER_TOP) {
+    pages.push(page);
+    page = new SvgPage();
+    drawHeader(false);
+  }
+
+  y += 20;
+  for (const [label, value, strong] of totals) {
+    page.text(830, y, label, { anchor: "end", weight: strong ? "700" : "400" });
+    page.text(CONTENT_RIGHT - 10, y, value, {
+      anchor: "end",
+      weight: strong ? "700" : "400",
+      size: strong ? 28 : BODY_SIZE,
+    });
+    y += LINE_HEIGHT + 8;
+  }
+
+  if (type === "packing-slip") {
+    y += 50;
+    page.text(MARGIN + 150, y, "Người gửi", { anchor: "middle", weight: "700" });
+    page.text(CONTENT_RIGHT - 150, y, "Người nhận", { anchor: "middle", weight: "700" });
+    page.text(MARGIN + 150, y + 30, "(Ký, ghi rõ họ tên)", { anchor: "middle", size: 20, fill: "#555" });
+    page.text(CONTENT_RIGHT - 150, y + 30, "(Ký, ghi rõ họ tên)", { anchor: "middle", size: 20, fill: "#555" });
+  }
+
+  pages.push(page);
+
+  pages.forEach((p, i) => {
+    p.line(MARGIN, FOOTER_TOP, CONTENT_RIGHT, FOOTER_TOP, 1);
+    p.text(MARGIN, FOOTER_TOP + 36, shop.footerNote, { size: 20, fill: "#555" });
+    p.text(CONTENT_RIGHT, FOOTER_TOP + 36, `${order.orderNumber} · Trang ${i + 1}/${pages.length}`, {
+      size: 20,
+      anchor: "end",
+      fill: "#555",
+    });
+  });
+
+  return pages;
+};
+
+const renderPage = async (page: SvgPage): Promise<PdfImagePage> => {
+  const jpeg = await sharp(Buffer.from(page.toSvg()))
+    .flatten({ background: "#ffffff" })
+    .toColourspace("b-w")
+    .jpeg({ quality: 70 })
+    .toBuffer();
+
+  return { jpeg, width: PAGE_WIDTH, height: PAGE_HEIGHT, channels: 1 };
+};
+
+/**
+ * Render invoices or packing slips for one or more orders into a single
+ * PDF, in the order the ids were given.
+ *
+ * Errors are thrown as `{ status, code, message }` objects.
+ */
+export const renderOrderDocuments = async (
+  orderIds: string[],
+  type: OrderDocumentType
+): Promise<Buffer> => {
+  const uniqueIds = [...new Set(orderIds)];
+
+  const orders = await Order.findAll({
+    where: { id: { [Op.in]: uniqueIds } },
+    include: [
+      {
+        model: Customer,
+        as: "customer",
+        attributes: ["id", "fullName"],
+        include: [
+          {
+            model: CustomerPhone,
+            as: "customerPhones",
+            attributes: ["id", "phoneNumber", "isMain"],
+          },
+        ],
+      },
+      {
+        model: OrderItem,
+        as: "items",
+        attributes: ["id", "productId", "quantity", "productSnapshot", "createdAt"],
+      },
+      {
+        model: Payment,
+        as: "payments",
+        attributes: ["id", "type", "amount", "status"],
+      },
+    ],
+    order: [[{ model: OrderItem, as: "items" }, "createdAt", "ASC"]],
+  });
+
+  const byId = new Map(orders.map((order) => [order.id, order]));
+  const missing = uniqueIds.filter((id) => !byId.has(id));
+  if (missing.length > 0) {
+    throw {
+      status: 404,
+      code: "ORDER_NOT_FOUND",
+      message: missing.length === 1 ? "Order not found" : "Some orders were not found",
+      details: { missing },
+    };
+  }
+
+  const shop = await getOrderDocumentSettings();
+  const pages: PdfImagePage[] = [];
+
+  // Rendered one page at a time to keep memory flat for bulk prints
+  for (const id of uniqueIds) {
+    for (const page of layoutOrder(byId.get(id) as Order, type, shop)) {
+      pages.push(await renderPage(page));
+    }
+  }
+
+  return buildImagePdf(pages);
+};
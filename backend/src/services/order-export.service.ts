@@ -0,0 +1,180 @@
+import { Op, WhereOptions } from "sequelize";
+import { Customer, CustomerPhone, Order, OrderItem } from "../models";
+import { XlsxCell } from "../utils/xlsx";
+
+/** One row per order, or one row per order item with the order repeated */
+export type OrderExportRows = "order" | "item";
+
+const BATCH_SIZE = 200;
+
+const ORDER_HEADER = [
+  "Order number",
+  "Created at",
+  "Status",
+  "Type",
+  "Customer",
+  "Main phone",
+  "Address",
+  "Items",
+  "Item count",
+  "Coupon discount",
+  "Original shipping cost",
+  "Shipping discount",
+  "Shipping cost",
+  "Total",
+];
+
+const ITEM_HEADER = [
+  "Order number",
+  "Created at",
+  "Status",
+  "Type",
+  "Customer",
+  "Main phone",
+  "Address",
+  "Product",
+  "Color",
+  "Quantity",
+  "Unit price",
+  "Line total",
+  "Shipping cost",
+  "Shipping discount",
+  "Order total",
+];
+
+export const getOrderExportHeader = (rows: OrderExportRows) =>
+  rows === "item" ? ITEM_HEADER : ORDER_HEADER;
+
+const formatAddress = (address: any): string =>
+  [address?.addressLine, address?.district, address?.city, address?.postalCode]
+    .filter(Boolean)
+    .join(", ");
+
+const mainPhone = (order: Order): string =>
+  order.customerMainPhone ||
+  order.customer?.customerPhones?.find((p: any) => p.isMain)?.phoneNumber ||
+  order.customer?.customerPhones?.[0]?.phoneNumber ||
+  "";
+
+const itemName = (item: OrderItem): string => item.productSnapshot?.name || "Unknown";
+
+/**
+ * Orders matching `where`, newest first, read in keyset batches so large
+ * exports never load the whole table
+ */
+async function* iterateOrders(where: WhereOptions): AsyncIterable<Order> {
+  let cursor: { createdAt: Date; id: string } | null = null;
+
+  while (true) {
+    const batch: Order[] = await Order.findAll({
+      where: cursor
+        ? {
+            [Op.and]: [
+              where,
+              {
+                [Op.or]: [
+                  { createdAt: { [Op.lt]: cursor.createdAt } },
+                  { createdAt: cursor.createdAt, id: { [Op.lt]: cursor.id } },
+                ],
+              },
+            ],
+          }
+        : where,
+      include: [
+        {
+          model: Customer,
+          as: "customer",
+          attributes: ["id", "fullName"],
+          include: [
+            {
+              model: CustomerPhone,
+              as: "customerPhones",
+              attributes: ["id", "phoneNumber", "isMain"],
+            },
+          ],
+        },
+        {
+          model: OrderItem,
+          as: "items",
+          attributes: ["id", "quantity", "productSnapshot", "createdAt"],
+        },
+      ],
+      order: [
+        ["createdAt", "DESC"],
+        ["id", "DESC"],
+        [{ model: OrderItem, as: "items" }, "createdAt", "ASC"],
+      ],
+      limit: BATCH_SIZE,
+    });
+
+    for (const order of batch) yield order;
+
+    if (batch.length < BATCH_SIZE) return;
+    const last = batch[batch.length - 1];
+    cursor = { createdAt: last.createdAt, id: last.id };
+  }
+}
+
+/**
+ * Export rows for the orders matching `where`, in the column order of
+ * getOrderExportHeader. Item details come from the snapshot taken at sale
+ * time, not the current product.
+ */
+export async function* getOrderExportRows(
+  where: WhereOptions,
+  rows: OrderExportRows
+): AsyncIterable<XlsxCell[]> {
+  for await (const order of iterateOrders(where)) {
+    const items: OrderItem[] = order.items || [];
+    const orderColumns: XlsxCell[] = [
+      order.orderNumber,
+      order.createdAt,
+      order.status,
+      order.orderType,
+      order.customer?.fullName || "",
+      mainPhone(order),
+      formatAddress(order.deliveryAddress),
+    ];
+
+    if (rows === "order") {
+      yield [
+        ...orderColumns,
+        items.length > 0
+          ? items.map((item) => `${itemName(item)} x${item.quantity}`).join("; ")
+          : order.customDescription || "",
+        items.reduce((sum, item) => sum + item.quantity, 0),
+        Number(order.discountAmount || 0),
+        Number(order.originalShippingCost || 0),
+        Number(order.shippingDiscount || 0),
+        Number(order.shippingCost || 0),
+        Number(order.totalAmount || 0),
+      ];
+      continue;
+    }
+
+    const orderTotals: XlsxCell[] = [
+      Number(order.shippingCost || 0),
+      Number(order.shippingDiscount || 0),
+      Number(order.totalAmount || 0),
+    ];
+
+    // Custom orders have no items; keep them in the sheet with their description
+    if (items.length === 0) {
+      yield [...orderColumns, order.customDescription || "", "", null, null, null, ...orderTotals];
+      continue;
+    }
+
+    for (const item of items) {
+      const unitPrice = Number(item.productSnapshot?.unitPrice ?? 0);
+      yield [
+        ...orderColumns,
+        itemName(item),
+        item.productSnapshot?.requestedColor || "",
+        item.quantity,
+        unitPrice,
+        unitPrice * item.quantity,
+        ...orderTotals,
+      ];
+    }
+  }
+}
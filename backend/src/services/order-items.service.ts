@@ -0,0 +1,69 @@
+import { Transaction } from "sequelize";
+import {
+  Capacity,
+  Category,
+  Color,
+  Product,
+  ProductCategory,
+  ProductColor,
+  ProductImage,
+} from "../models";
+
+/**
+ * Complete product snapshot stored on an order item, so the order keeps
+ * showing what was sold after the product changes
+ */
+export const buildProductSnapshot = async (
+  product: Product,
+  options: { unitPrice: number; requestedColor?: string },
+  t?: Transaction
+) => {
+  const [capacity, productCategories, productColors, productImages] =
+    await Promise.all([
+      product.capacityId ? Capacity.findByPk(product.capacityId, { transaction: t }) : null,
+      ProductCategory.findAll({
+        where: { productId: product.id },
+        include: [{ model: Category, as: "category" }],
+        transaction: t,
+      }),
+      ProductColor.findAll({
+        where: { productId: product.id },
+        include: [{ model: Color, as: "color" }],
+        transaction: t,
+      }),
+      ProductImage.findAll({
+        where: { productId: product.id },
+        limit: 1,
+        order: [["createdAt", "ASC"]],
+        transaction: t,
+      }),
+    ]);
+
+  return {
+    id: product.id,
+    name: product.name,
+    slug: product.slug,
+    description: product.description,
+    basePrice: product.unitPrice,
+    unitPrice: options.unitPrice,
+    // Cost at sale time, so profit reports survive later cost changes
+    costPrice:
+      product.costPrice !== null && product.costPrice !== undefined
+        ? Number(product.costPrice)
+        : null,
+    requestedColor: options.requestedColor,
+    capacity: capacity
+      ? { id: capacity.id, name: capacity.name, slug: capacity.slug, volumeMl: capacity.volumeMl }
+      : null,
+    categories: productCategories
+      .filter((pc) => pc.category)
+      .map((pc) => ({ id: pc.category.id, name: pc.category.name, slug: pc.category.slug })),
+    colors: productColors
+      .filter((pc) => pc.color)
+      .map((pc) => ({ id: pc.color.id, name: pc.color.name, slug: pc.color.slug, hexCode: pc.color.hexCode })),
+    image: productImages.length > 0
+      ? { id: productImages[0].id, url: productImages[0].url, altText: productImages[0].altText }
+      : null,
+    snapshotCreatedAt: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,221 @@
+import { QueryTypes } from "sequelize";
+import { sequelize } from "../config/database";
+import { Setting } from "../models";
+
+const ORDER_NUMBER_SETTINGS_KEY = "orderNumberFormat";
+const CACHE_TTL_MS = 30_000;
+
+/** Order numbers follow the shop's calendar, not the server clock */
+const SHOP_TIME_ZONE = "Asia/Ho_Chi_Minh";
+
+export type OrderNumberDateFormat = "YYMMDD" | "YYYYMMDD";
+
+export interface OrderNumberSettingsDto {
+  prefix: string;
+  dateFormat: OrderNumberDateFormat;
+  /** Placed between prefix, date and sequence, e.g. "-" for ORD-261019-0001 */
+  separator: "" | "-";
+  /** Minimum sequence width; longer sequences are never cut */
+  sequenceDigits: number;
+}
+
+const DEFAULT_ORDER_NUMBER_SETTINGS: OrderNumberSettingsDto = {
+  prefix: "ORD",
+  dateFormat: "YYMMDD",
+  separator: "",
+  sequenceDigits: 4,
+};
+
+let orderNumberSettingsCache:
+  | { value: OrderNumberSettingsDto; expiresAt: number }
+  | null = null;
+
+const parseStoredValue = (raw: unknown): Partial<OrderNumberSettingsDto> => {
+  if (!raw) return {};
+
+  let parsed: unknown = raw;
+  if (typeof parsed === "string") {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return {};
+    }
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return {};
+  }
+
+  return parsed as Partial<OrderNumberSettingsDto>;
+};
+
+const sanitizeOrderNumberSettings = (
+  input: Partial<OrderNumberSettingsDto>
+): OrderNumberSettingsDto => {
+  const prefix =
+    typeof input.prefix === "string" ? input.prefix.trim().toUpperCase() : "";
+  const digits = Number(input.sequenceDigits);
+
+  return {
+    prefix: /^[A-Z0-9]{1,10}$/.test(prefix)
+      ? prefix
+      : DEFAULT_ORDER_NUMBER_SETTINGS.prefix,
+    dateFormat:
+      input.dateFormat === "YYYYMMDD" || input.dateFormat === "YYMMDD"
+        ? input.dateFormat
+        : DEFAULT_ORDER_NUMBER_SETTINGS.dateFormat,
+    separator:
+      input.separator === "-" || input.separator === ""
+        ? input.separator
+        : DEFAULT_ORDER_NUMBER_SETTINGS.separator,
+    sequenceDigits:
+      Number.isInteger(digits) && digits >= 3 && digits <= 8
+        ? digits
+        : DEFAULT_ORDER_NUMBER_SETTINGS.sequenceDigits,
+  };
+};
+
+export const getOrderNumberSettings =
+  async (): Promise<OrderNumberSettingsDto> => {
+    const now = Date.now();
+    if (orderNumberSettingsCache && orderNumberSettingsCache.expiresAt > now) {
+      return { ...orderNumberSettingsCache.value };
+    }
+
+    const setting = await Setting.findOne({
+      where: { key: ORDER_NUMBER_SETTINGS_KEY },
+    });
+
+    const value = setting
+      ? sanitizeOrderNumberSettings(parseStoredValue(setting.value))
+      : { ...DEFAULT_ORDER_NUMBER_SETTINGS };
+
+    orderNumberSettingsCache = {
+      value,
+      expiresAt: now + CACHE_TTL_MS,
+    };
+
+    return { ...value };
+  };
+
+export const updateOrderNumberSettings = async (
+  payload: Partial<OrderNumberSettingsDto>
+): Promise<OrderNumberSettingsDto> => {
+  const current = await getOrderNumberSettings();
+  const next = sanitizeOrderNumberSettings({
+    ...current,
+    ...payload,
+  });
+
+  const [setting] = await Setting.findOrCreate({
+    where: { key: ORDER_NUMBER_SETTINGS_KEY },
+    defaults: {
+      key: ORDER_NUMBER_SETTINGS_KEY,
+      value: next,
+      description: "Prefix and format of new order numbers",
+    },
+  });
+
+  setting.value = next;
+  setting.changed("value", true);
+  if (!setting.description) {
+    setting.description = "Prefix and format of new order numbers";
+  }
+  await setting.save();
+
+  orderNumberSettingsCache = {
+    value: next,
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  };
+
+  return { ...next };
+};
+
+/**
+ * Formats to look for when reading order numbers back: the current one,
+ * plus the default for numbers issued before the format was changed
+ */
+export const getOrderNumberFormats = async (): Promise<OrderNumberSettingsDto[]> => {
+  const current = await getOrderNumberSettings();
+  const isDefault = (Object.keys(current) as (keyof OrderNumberSettingsDto)[]).every(
+    (key) => current[key] === DEFAULT_ORDER_NUMBER_SETTINGS[key]
+  );
+  return isDefault ? [current] : [current, { ...DEFAULT_ORDER_NUMBER_SETTINGS }];
+};
+
+/**
+ * Calendar date in the shop's time zone as YYYY-MM-DD
+ */
+const getShopDate = (date: Date): string =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone: SHOP_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Pattern finding order numbers of this format in free text, such as a
+ * bank transfer memo. Separators may be typed as spaces or left out.
+ * Group 1 is the date, group 2 the sequence.
+ */
+export const buildOrderNumberPattern = (settings: OrderNumberSettingsDto): RegExp =>
+  new RegExp(
+    `${escapeRegExp(settings.prefix)}[\\s-]?(\\d{${settings.dateFormat.length}})[\\s-]?(\\d{${settings.sequenceDigits},})`,
+    "gi"
+  );
+
+/**
+ * Put an order number found by buildOrderNumberPattern back in its
+ * canonical form
+ */
+export const formatOrderNumberParts = (
+  settings: OrderNumberSettingsDto,
+  date: string,
+  sequence: string
+): string => [settings.prefix, date, sequence].join(settings.separator);
+
+/**
+ * Generate a unique order number from the shop's daily counter.
+ *
+ * The counter lives in `order_number_sequences`, one row per shop date,
+ * and is bumped with a single upsert outside any order transaction, like a
+ * database sequence: concurrent orders never reuse or wait on a number,
+ * and an order that rolls back or is deleted simply leaves a gap.
+ */
+export async function generateOrderNumber(): Promise<string> {
+  const settings = await getOrderNumberSettings();
+  const shopDate = getShopDate(new Date());
+
+  const row = await sequelize.query<{ last_value: number }>(
+    `
+      INSERT INTO order_number_sequences (sequence_date, last_value, updated_at)
+      VALUES (:shopDate, 1, NOW())
+      ON CONFLICT (sequence_date)
+      DO UPDATE SET
+        last_value = order_number_sequences.last_value + 1,
+        updated_at = NOW()
+      RETURNING last_value
+    `,
+    {
+      replacements: { shopDate },
+      type: QueryTypes.SELECT,
+      plain: true,
+    }
+  );
+
+  if (!row) {
+    throw new Error("Failed to allocate an order number");
+  }
+
+  const [year, month, day] = shopDate.split("-");
+  const datePart =
+    settings.dateFormat === "YYYYMMDD"
+      ? `${year}${month}${day}`
+      : `${year.slice(-2)}${month}${day}`;
+  const sequence = String(row.last_value).padStart(settings.sequenceDigits, "0");
+
+  return formatOrderNumberParts(settings, datePart, sequence);
+}
@@ -0,0 +1,377 @@
+import { logger } from "@/utils/logger";
+import { Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import {
+  AdminUser,
+  Order,
+  OrderItem,
+  OrderStatusHistory,
+  Product,
+  OrderStatus,
+  ORDER_STATUS_TRANSITIONS,
+  canTransitionOrderStatus,
+  StockMovementReason,
+} from "../models";
+import { getStockedQuantity } from "./pre-order.service";
+import { socketService } from "./socket.service";
+import { adjustStock } from "./stock.service";
+
+export interface OrderStatusChangeOptions {
+  /** Reason for the change, stored on the status history entry */
+  notes?: string;
+  adminId?: string | null;
+  /** Run inside an existing transaction instead of opening a new one */
+  transaction?: Transaction;
+}
+
+export interface OrderStatusChangeResult {
+  order: Order;
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+}
+
+export interface BulkOrderUpdateInput {
+  /** Omitted: keep each order's status and only add the note */
+  status?: OrderStatus;
+  notes?: string;
+  adminId?: string | null;
+}
+
+export type BulkOrderUpdateResult =
+  | {
+      orderId: string;
+      success: true;
+      orderNumber: string;
+      fromStatus: OrderStatus;
+      toStatus: OrderStatus;
+    }
+  | {
+      orderId: string;
+      success: false;
+      error: { code: string; message: string; details?: unknown };
+    };
+
+/**
+ * Compute confirmedAt/completedAt for the target status.
+ * Moving back to PENDING clears both, DELIVERED stamps completion.
+ */
+const getStatusTimestamps = (
+  order: Order,
+  toStatus: OrderStatus
+): { confirmedAt: Date | null; completedAt: Date | null } => {
+  const now = new Date();
+
+  switch (toStatus) {
+    case OrderStatus.PENDING:
+      return { confirmedAt: null, completedAt: null };
+    case OrderStatus.CONFIRMED:
+      return {
+        // Stepping back from PROCESSING keeps the original confirmation time
+        confirmedAt:
+          order.status !== OrderStatus.PENDING && order.confirmedAt
+            ? order.confirmedAt
+            : now,
+        completedAt: null,
+      };
+    case OrderStatus.PROCESSING:
+    case OrderStatus.SHIPPED:
+      return { confirmedAt: order.confirmedAt || now, completedAt: null };
+    case OrderStatus.DELIVERED:
+      return {
+        confirmedAt: order.confirmedAt || now,
+        completedAt: order.completedAt || now,
+      };
+    case OrderStatus.CANCELLED:
+      return { confirmedAt: order.confirmedAt || null, completedAt: null };
+  }
+};
+
+/**
+ * Put stock back for every item of an order that is being cancelled.
+ * Pre-orders return only what was allocated to them and leave the queue.
+ */
+const restoreOrderStock = async (
+  order: Order,
+  items: OrderItem[],
+  adminId: string | null,
+  t: Transaction
+) => {
+  for (const item of items) {
+    const quantity = getStockedQuantity(item);
+    if (item.isPreOrder && item.allocatedQuantity > 0) {
+      await item.update({ allocatedQuantity: 0 }, { transaction: t });
+    }
+    if (quantity === 0) continue;
+
+    const product = await Product.findByPk(item.productId, {
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+
+    // Product may have been hard-deleted since the order was placed
+    if (!product) continue;
+
+    await adjustStock(product, quantity, {
+      reason: StockMovementReason.CANCELLATION,
+      referenceId: order.id,
+      adminId,
+      note: `Order ${order.orderNumber} cancelled`,
+      transaction: t,
+    });
+  }
+};
+
+/**
+ * Deduct stock again for an order leaving CANCELLED. Pre-orders rejoin
+ * the queue instead, keeping their place by order date.
+ */
+const deductOrderStock = async (
+  order: Order,
+  items: OrderItem[],
+  adminId: string | null,
+  t: Transaction
+) => {
+  for (const item of items) {
+    if (item.isPreOrder) continue;
+
+    const product = await Product.findByPk(item.productId, {
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+
+    if (!product) {
+      throw {
+        status: 400,
+        code: "PRODUCT_NOT_FOUND",
+        message: `Product with ID ${item.productId} not found`,
+      };
+    }
+
+    if (product.stockQuantity < item.quantity) {
+      throw {
+        status: 400,
+        code: "INSUFFICIENT_STOCK",
+        message: `Insufficient stock for product ${product.name}. Available: ${product.stockQuantity}, Requested: ${item.quantity}`,
+      };
+    }
+
+    await adjustStock(product, -item.quantity, {
+      reason: StockMovementReason.SALE,
+      referenceId: order.id,
+      adminId,
+      note: `Order ${order.orderNumber} reopened`,
+      transaction: t,
+    });
+  }
+};
+
+/**
+ * Record the initial PENDING entry of a freshly created order
+ */
+export const recordOrderCreated = async (
+  orderId: string,
+  adminId: string | null,
+  t: Transaction,
+  note?: string
+): Promise<void> => {
+  await OrderStatusHistory.create(
+    {
+      orderId,
+      fromStatus: null,
+      toStatus: OrderStatus.PENDING,
+      changedByAdminId: adminId,
+      note: note ?? null,
+    },
+    { transaction: t }
+  );
+};
+
+/**
+ * Get the status timeline of an order, oldest first
+ */
+export const getOrderStatusHistory = async (orderId: string) => {
+  return OrderStatusHistory.findAll({
+    where: { orderId },
+    include: [
+      {
+        model: AdminUser,
+        as: "changedByAdmin",
+        attributes: ["id", "username", "email"],
+      },
+    ],
+    order: [["createdAt", "ASC"]],
+  });
+};
+
+/**
+ * Move an order to a new status, enforcing ORDER_STATUS_TRANSITIONS and
+ * applying the stock and timestamp side effects of the transition. Each
+ * change is appended to the order's status history; the order's own
+ * `notes` field is left untouched.
+ *
+ * Errors are thrown as `{ status, code, message }` objects, like the rest
+ * of the order flow.
+ */
+export const changeOrderStatus = async (
+  orderId: string,
+  toStatus: OrderStatus,
+  options: OrderStatusChangeOptions = {}
+): Promise<OrderStatusChangeResult> => {
+  const run = async (t: Transaction): Promise<OrderStatusChangeResult> => {
+    const order = await Order.findByPk(orderId, {
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+
+    if (!order) {
+      throw { status: 404, code: "ORDER_NOT_FOUND", message: "Order not found" };
+    }
+
+    const fromStatus = order.status;
+
+    if (!canTransitionOrderStatus(fromStatus, toStatus)) {
+      throw {
+        status: 409,
+        code: "INVALID_STATUS_TRANSITION",
+        message: `Cannot change order status from ${fromStatus} to ${toStatus}`,
+        details: {
+          from: fromStatus,
+          to: toStatus,
+          allowed: ORDER_STATUS_TRANSITIONS[fromStatus],
+        },
+      };
+    }
+
+    if (fromStatus !== toStatus) {
+      const items = await OrderItem.findAll({
+        where: { orderId },
+        attributes: ["id", "productId", "quantity", "isPreOrder", "allocatedQuantity"],
+        transaction: t,
+      });
+
+      // Nothing ships while pre-ordered units are still on their way
+      if (toStatus === OrderStatus.SHIPPED) {
+        const waiting = items.filter((item) => getStockedQuantity(item) < item.quantity);
+        if (waiting.length > 0) {
+          throw {
+            status: 409,
+            code: "PRE_ORDER_NOT_ALLOCATED",
+            message: "Order has pre-order items still waiting for stock",
+            details: { orderItemIds: waiting.map((item) => item.id) },
+          };
+        }
+      }
+
+      if (toStatus === OrderStatus.CANCELLED) {
+        await restoreOrderStock(order, items, options.adminId ?? null, t);
+      } else if (fromStatus === OrderStatus.CANCELLED) {
+        await deductOrderStock(order, items, options.adminId ?? null, t);
+      }
+    }
+
+    await order.update(
+      {
+        status: toStatus,
+        ...getStatusTimestamps(order, toStatus),
+      },
+      { transaction: t }
+    );
+
+    // Same-status calls only leave a timeline entry when they carry a note
+    if (fromStatus !== toStatus || options.notes) {
+      await OrderStatusHistory.create(
+        {
+          orderId,
+          fromStatus,
+          toStatus,
+          changedByAdminId: options.adminId ?? null,
+          note: options.notes ?? null,
+        },
+        { transaction: t }
+      );
+    }
+
+    return { order, fromStatus, toStatus };
+  };
+
+  return options.transaction
+    ? run(options.transaction)
+    : sequelize.transaction(run);
+};
+
+/**
+ * Apply a status change or a note to several orders. Each order goes
+ * through changeOrderStatus in its own transaction, so one failing order
+ * does not hold back the others; the outcome is reported per order and
+ * the admin room gets a single summary notification.
+ */
+export const bulkChangeOrderStatus = async (
+  orderIds: string[],
+  input: BulkOrderUpdateInput
+): Promise<BulkOrderUpdateResult[]> => {
+  const results: BulkOrderUpdateResult[] = [];
+
+  for (const orderId of [...new Set(orderIds)]) {
+    try {
+      const { order, fromStatus, toStatus } = await sequelize.transaction(async (t) => {
+        let toStatus = input.status;
+        if (!toStatus) {
+          // Note only: lock first so the status cannot move underneath us
+          const current = await Order.findByPk(orderId, {
+            attributes: ["id", "status"],
+            transaction: t,
+            lock: t.LOCK.UPDATE,
+          });
+          if (!current) {
+            throw { status: 404, code: "ORDER_NOT_FOUND", message: "Order not found" };
+          }
+          toStatus = current.status;
+        }
+
+        return changeOrderStatus(orderId, toStatus, {
+          notes: input.notes,
+          adminId: input.adminId,
+          transaction: t,
+        });
+      });
+
+      results.push({
+        orderId,
+        success: true,
+        orderNumber: order.orderNumber,
+        fromStatus,
+        toStatus,
+      });
+    } catch (error: any) {
+      if (!(error.status && error.code)) {
+        logger.error(`Bulk status update failed for order ${orderId}:`, error);
+      }
+      results.push({
+        orderId,
+        success: false,
+        error:
+          error.status && error.code
+            ? { code: error.code, message: error.message, details: error.details }
+            : { code: "UPDATE_ORDER_STATUS_ERROR", message: "Failed to update order status" },
+      });
+    }
+  }
+
+  const succeeded = results.flatMap((result) =>
+    result.success ? [{ orderId: result.orderId, orderNumber: result.orderNumber }] : []
+  );
+  if (succeeded.length > 0) {
+    try {
+      socketService.emitBulkOrderNotification({
+        status: input.status ?? null,
+        note: input.notes ?? null,
+        succeeded,
+        failedCount: results.length - succeeded.length,
+      });
+    } catch (error) {
+      logger.error("Error emitting bulk order notification:", error);
+    }
+  }
+
+  return results;
+};
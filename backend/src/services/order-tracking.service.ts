@@ -0,0 +1,133 @@
+import {
+  Customer,
+  CustomerPhone,
+  Order,
+  OrderItem,
+  OrderStatusHistory,
+  Payment,
+} from "../models";
+import { normalizePhoneNumber } from "../utils/phoneValidation";
+import { getDepositDue, summarizeOrderPayments } from "./payment.service";
+
+/**
+ * Public order tracking. A lookup needs both the order number and a phone
+ * on the order; the response carries only what the customer needs to
+ * follow the order, with personal data masked.
+ */
+
+/** Same answer for an unknown order and a wrong phone, so neither leaks */
+const notFound = () => ({
+  status: 404,
+  code: "ORDER_NOT_FOUND",
+  message: "No order matches this order number and phone number",
+});
+
+const maskPhone = (phone: string): string => {
+  const digits = normalizePhoneNumber(phone);
+  return digits.length > 3 ? `${"*".repeat(digits.length - 3)}${digits.slice(-3)}` : "***";
+};
+
+/** "Nguyễn Văn An" -> "N***** V** A*" */
+const maskName = (name: string): string =>
+  name
+    .trim()
+    .split(/\s+/)
+    .map((word) => {
+      const [first, ...rest] = Array.from(word);
+      return first ? first + "*".repeat(rest.length) : "";
+    })
+    .join(" ");
+
+export const trackOrder = async (orderNumber: string, phone: string) => {
+  const order = await Order.findOne({
+    where: { orderNumber: orderNumber.trim().toUpperCase() },
+    include: [
+      {
+        model: Customer,
+        as: "customer",
+        attributes: ["id", "fullName"],
+        include: [
+          {
+            model: CustomerPhone,
+            as: "customerPhones",
+            attributes: ["phoneNumber"],
+          },
+        ],
+      },
+      {
+        model: OrderItem,
+        as: "items",
+        attributes: ["id", "quantity", "productSnapshot", "isPreOrder", "createdAt"],
+      },
+      {
+        model: OrderStatusHistory,
+        as: "statusHistory",
+        attributes: ["toStatus", "createdAt"],
+      },
+      {
+        model: Payment,
+        as: "payments",
+        attributes: ["type", "amount", "status"],
+      },
+    ],
+    order: [
+      [{ model: OrderItem, as: "items" }, "createdAt", "ASC"],
+      [{ model: OrderStatusHistory, as: "statusHistory" }, "createdAt", "ASC"],
+    ],
+  });
+
+  const given = normalizePhoneNumber(phone);
+  const phones = [
+    order?.customerMainPhone,
+    ...(order?.customer?.customerPhones ?? []).map((p: any) => p.phoneNumber),
+  ].filter((p): p is string => Boolean(p));
+
+  if (!order || !given || !phones.some((p) => normalizePhoneNumber(p) === given)) {
+    throw notFound();
+  }
+
+  const address = order.deliveryAddress || {};
+  const payment = summarizeOrderPayments(order.totalAmount, order.payments || []);
+
+  return {
+    orderNumber: order.orderNumber,
+    status: order.status,
+    orderType: order.orderType,
+    createdAt: order.createdAt,
+    confirmedAt: order.confirmedAt ?? null,
+    completedAt: order.completedAt ?? null,
+    customer: {
+      name: order.customer?.fullName ? maskName(order.customer.fullName) : null,
+      phone: maskPhone(order.customerMainPhone || phones[0]),
+    },
+    // Street address is left out; district and city are enough to recognise it
+    deliveryAddress: {
+      district: address.district ?? null,
+      city: address.city ?? null,
+    },
+    timeline: (order.statusHistory || []).map((entry: OrderStatusHistory) => ({
+      status: entry.toStatus,
+      at: entry.createdAt,
+    })),
+    items: (order.items || []).map((item: OrderItem) => ({
+      name: item.productSnapshot?.name ?? null,
+      quantity: item.quantity,
+      unitPrice: Number(item.productSnapshot?.unitPrice ?? 0),
+      requestedColor: item.productSnapshot?.requestedColor ?? null,
+      imageUrl: item.productSnapshot?.image?.url ?? null,
+      isPreOrder: item.isPreOrder,
+    })),
+    customDescription: order.customDescription ?? null,
+    shipping: {
+      provider: order.shippingProvider ?? null,
+      trackingCode: order.trackingCode ?? null,
+      status: order.shippingStatus ?? null,
+      cost: Number(order.shippingCost || 0),
+    },
+    totalAmount: Number(order.totalAmount || 0),
+    paymentStatus: payment.paymentStatus,
+    balanceDue: payment.balanceDue,
+    depositAmount: Number(order.depositAmount || 0),
+    depositDue: getDepositDue(order.depositAmount, payment),
+  };
+};
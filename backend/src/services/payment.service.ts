@@ -0,0 +1,379 @@
+import { logger } from "@/utils/logger";
+import { Op, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import {
+  AdminUser,
+  Customer,
+  Order,
+  Payment,
+  OrderStatus,
+  PaymentMethod,
+  PaymentType,
+  PaymentStatus,
+  OrderPaymentStatus,
+} from "../models";
+import { socketService } from "./socket.service";
+
+export interface OrderPaymentSummary {
+  totalAmount: number;
+  paidAmount: number;
+  refundedAmount: number;
+  netPaid: number;
+  balanceDue: number;
+  paymentStatus: OrderPaymentStatus;
+}
+
+export interface RecordPaymentInput {
+  type?: PaymentType;
+  method: PaymentMethod;
+  /** Omitted: pay the remaining balance, or refund everything paid */
+  amount?: number;
+  status?: PaymentStatus;
+  referenceCode?: string;
+  paidAt?: Date;
+  note?: string;
+}
+
+export interface PaymentOptions {
+  /** Run inside an existing transaction instead of opening a new one */
+  transaction?: Transaction;
+}
+
+export interface PaymentResult {
+  payment: Payment;
+  summary: OrderPaymentSummary;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Derive paid/refunded totals and the payment state of an order.
+ * Only COMPLETED payments count towards the balance.
+ */
+export const summarizeOrderPayments = (
+  totalAmount: number,
+  payments: Pick<Payment, "type" | "amount" | "status">[]
+): OrderPaymentSummary => {
+  let paidAmount = 0;
+  let refundedAmount = 0;
+
+  for (const payment of payments) {
+    if (payment.status !== PaymentStatus.COMPLETED) continue;
+
+    if (payment.type === PaymentType.REFUND) {
+      refundedAmount += Number(payment.amount);
+    } else {
+      paidAmount += Number(payment.amount);
+    }
+  }
+
+  const total = roundMoney(Number(totalAmount) || 0);
+  const netPaid = roundMoney(paidAmount - refundedAmount);
+  const balanceDue = roundMoney(Math.max(total - netPaid, 0));
+
+  let paymentStatus = OrderPaymentStatus.PAID;
+  if (balanceDue > 0) {
+    paymentStatus =
+      netPaid > 0 ? OrderPaymentStatus.PARTIALLY_PAID : OrderPaymentStatus.UNPAID;
+  }
+
+  return {
+    totalAmount: total,
+    paidAmount: roundMoney(paidAmount),
+    refundedAmount: roundMoney(refundedAmount),
+    netPaid,
+    balanceDue,
+    paymentStatus,
+  };
+};
+
+/**
+ * Part of an order's required deposit not yet covered by payments
+ */
+export const getDepositDue = (
+  depositAmount: number | null | undefined,
+  summary: Pick<OrderPaymentSummary, "netPaid">
+): number => roundMoney(Math.max(Number(depositAmount || 0) - summary.netPaid, 0));
+
+/**
+ * Payment summaries for a page of orders, loaded with a single query
+ */
+export const getOrderPaymentSummaries = async (
+  orders: Pick<Order, "id" | "totalAmount">[]
+): Promise<Map<string, OrderPaymentSummary>> => {
+  const summaries = new Map<string, OrderPaymentSummary>();
+  if (orders.length === 0) return summaries;
+
+  const payments = await Payment.findAll({
+    where: {
+      orderId: { [Op.in]: orders.map((order) => order.id) },
+      status: PaymentStatus.COMPLETED,
+    },
+    attributes: ["orderId", "type", "amount", "status"],
+  });
+
+  for (const order of orders) {
+    summaries.set(
+      order.id,
+      summarizeOrderPayments(
+        order.totalAmount,
+        payments.filter((payment) => payment.orderId === order.id)
+      )
+    );
+  }
+
+  return summaries;
+};
+
+/**
+ * List the payments of an order, oldest first, with its summary
+ */
+export const getOrderPayments = async (order: Pick<Order, "id" | "totalAmount">) => {
+  const payments = await Payment.findAll({
+    where: { orderId: order.id },
+    include: [
+      {
+        model: AdminUser,
+        as: "recordedByAdmin",
+        attributes: ["id", "username", "email"],
+      },
+    ],
+    order: [["createdAt", "ASC"]],
+  });
+
+  return {
+    payments,
+    summary: summarizeOrderPayments(order.totalAmount, payments),
+  };
+};
+
+const toNotificationStatus = (status: PaymentStatus) => {
+  switch (status) {
+    case PaymentStatus.COMPLETED:
+      return "success" as const;
+    case PaymentStatus.FAILED:
+      return "failed" as const;
+    case PaymentStatus.PENDING:
+      return "pending" as const;
+  }
+};
+
+/**
+ * Notify admins once the surrounding transaction has committed
+ */
+const notifyPayment = (order: Order, payment: Payment, t: Transaction) => {
+  t.afterCommit(() => {
+    try {
+      socketService.emitPaymentNotification({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        amount: Number(payment.amount),
+        status: toNotificationStatus(payment.status),
+        customerName: order.customer?.fullName || "",
+      });
+    } catch (error) {
+      logger.error("Failed to emit payment notification:", error);
+    }
+  });
+};
+
+const lockOrder = async (orderId: string, t: Transaction) => {
+  const order = await Order.findByPk(orderId, {
+    transaction: t,
+    lock: t.LOCK.UPDATE,
+  });
+
+  if (!order) {
+    throw { status: 404, code: "ORDER_NOT_FOUND", message: "Order not found" };
+  }
+
+  // Loaded separately: row locks cannot be combined with an outer join
+  order.customer = await Customer.findByPk(order.customerId, {
+    attributes: ["id", "fullName"],
+    transaction: t,
+  });
+
+  return order;
+};
+
+const getCompletedPayments = (orderId: string, t: Transaction) =>
+  Payment.findAll({
+    where: { orderId, status: PaymentStatus.COMPLETED },
+    attributes: ["id", "type", "amount", "status"],
+    transaction: t,
+  });
+
+/**
+ * Check that an amount fits in what is still owed (payments) or what has
+ * been paid so far (refunds)
+ */
+const assertAmountAllowed = (
+  type: PaymentType,
+  amount: number,
+  summary: OrderPaymentSummary
+) => {
+  if (type === PaymentType.REFUND) {
+    if (amount > summary.netPaid) {
+      throw {
+        status: 400,
+        code: "REFUND_EXCEEDS_PAID",
+        message: `Refund amount exceeds the amount paid (${summary.netPaid})`,
+        details: { netPaid: summary.netPaid, requested: amount },
+      };
+    }
+    return;
+  }
+
+  if (amount > summary.balanceDue) {
+    throw {
+      status: 400,
+      code: "PAYMENT_EXCEEDS_BALANCE",
+      message: `Payment amount exceeds the balance due (${summary.balanceDue})`,
+      details: { balanceDue: summary.balanceDue, requested: amount },
+    };
+  }
+};
+
+/**
+ * Record a payment or refund against an order. Full payments are recorded
+ * by omitting the amount; partial payments pass an amount below the balance.
+ *
+ * Errors are thrown as `{ status, code, message }` objects.
+ */
+export const recordOrderPayment = async (
+  orderId: string,
+  input: RecordPaymentInput,
+  adminId: string | null,
+  options: PaymentOptions = {}
+): Promise<PaymentResult> => {
+  const run = async (t: Transaction): Promise<PaymentResult> => {
+    const order = await lockOrder(orderId, t);
+    const type = input.type ?? PaymentType.PAYMENT;
+    const status = input.status ?? PaymentStatus.COMPLETED;
+
+    if (type === PaymentType.PAYMENT && order.status === OrderStatus.CANCELLED) {
+      throw {
+        status: 409,
+        code: "ORDER_CANCELLED",
+        message: "Cannot record a payment for a cancelled order",
+      };
+    }
+
+    const completedPayments = await getCompletedPayments(orderId, t);
+    const summary = summarizeOrderPayments(order.totalAmount, completedPayments);
+
+    const amount = roundMoney(
+      input.amount ??
+        (type === PaymentType.REFUND ? summary.netPaid : summary.balanceDue)
+    );
+
+    if (amount <= 0) {
+      throw type === PaymentType.REFUND
+        ? { status: 409, code: "NOTHING_TO_REFUND", message: "Order has no payments to refund" }
+        : { status: 409, code: "ORDER_ALREADY_PAID", message: "Order is already fully paid" };
+    }
+
+    // Failed attempts never move money, so they are not checked against the balance
+    if (status !== PaymentStatus.FAILED) {
+      assertAmountAllowed(type, amount, summary);
+    }
+
+    const payment = await Payment.create(
+      {
+        orderId,
+        type,
+        method: input.method,
+        amount,
+        status,
+        referenceCode: input.referenceCode ?? null,
+        paidAt:
+          input.paidAt ?? (status === PaymentStatus.COMPLETED ? new Date() : null),
+        note: input.note ?? null,
+        recordedByAdminId: adminId,
+      },
+      { transaction: t }
+    );
+
+    notifyPayment(order, payment, t);
+
+    return {
+      payment,
+      summary: summarizeOrderPayments(order.totalAmount, [
+        ...completedPayments,
+        ...(status === PaymentStatus.COMPLETED ? [payment] : []),
+      ]),
+    };
+  };
+
+  return options.transaction
+    ? run(options.transaction)
+    : sequelize.transaction(run);
+};
+
+/**
+ * Settle a PENDING payment as COMPLETED or FAILED
+ */
+export const updatePaymentStatus = async (
+  orderId: string,
+  paymentId: string,
+  status: PaymentStatus.COMPLETED | PaymentStatus.FAILED,
+  options: PaymentOptions & { paidAt?: Date; note?: string } = {}
+): Promise<PaymentResult> => {
+  const run = async (t: Transaction): Promise<PaymentResult> => {
+    const order = await lockOrder(orderId, t);
+
+    const payment = await Payment.findOne({
+      where: { id: paymentId, orderId },
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+
+    if (!payment) {
+      throw { status: 404, code: "PAYMENT_NOT_FOUND", message: "Payment not found" };
+    }
+
+    if (payment.status !== PaymentStatus.PENDING) {
+      throw {
+        status: 409,
+        code: "PAYMENT_NOT_PENDING",
+        message: `Payment is already ${payment.status}`,
+      };
+    }
+
+    const completedPayments = await getCompletedPayments(orderId, t);
+
+    if (status === PaymentStatus.COMPLETED) {
+      assertAmountAllowed(
+        payment.type,
+        Number(payment.amount),
+        summarizeOrderPayments(order.totalAmount, completedPayments)
+      );
+    }
+
+    await payment.update(
+      {
+        status,
+        paidAt:
+          status === PaymentStatus.COMPLETED
+            ? options.paidAt ?? payment.paidAt ?? new Date()
+            : payment.paidAt,
+        note: options.note ?? payment.note,
+      },
+      { transaction: t }
+    );
+
+    notifyPayment(order, payment, t);
+
+    return {
+      payment,
+      summary: summarizeOrderPayments(order.totalAmount, [
+        ...completedPayments,
+        ...(status === PaymentStatus.COMPLETED ? [payment] : []),
+      ]),
+    };
+  };
+
+  return options.transaction
+    ? run(options.transaction)
+    : sequelize.transaction(run);
+};
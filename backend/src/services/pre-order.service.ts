@@ -0,0 +1,186 @@
+import { logger } from "@/utils/logger";
+import { col, Op, Transaction, where } from "sequelize";
+import {
+  Customer,
+  Order,
+  OrderItem,
+  OrderStatus,
+  Product,
+  ProductAvailability,
+  StockMovementReason,
+} from "../models";
+import { socketService } from "./socket.service";
+import { adjustStock, StockChangeOptions } from "./stock.service";
+
+/**
+ * Pre-orders. Order lines for a PRE_ORDER product are accepted without
+ * stock and wait in a fulfilment queue; when stock is received it is
+ * handed to the waiting lines oldest order first, through the stock ledger
+ * like any sale.
+ */
+
+export interface PreOrderAllocation {
+  orderId: string;
+  orderNumber: string;
+  orderItemId: string;
+  /** Units allocated now */
+  quantity: number;
+  /** Units the line still waits for */
+  outstanding: number;
+}
+
+/**
+ * Units of an order item currently taken out of stock: all of a regular
+ * item, only the allocated part of a pre-order
+ */
+export const getStockedQuantity = (
+  item: Pick<OrderItem, "quantity" | "isPreOrder" | "allocatedQuantity">
+): number => (item.isPreOrder ? item.allocatedQuantity : item.quantity);
+
+/**
+ * Take stock for a new order line. PRE_ORDER products are accepted without
+ * stock and join the queue; COMING_SOON products cannot be ordered yet.
+ * The product row should already be locked by the caller's transaction.
+ */
+export const takeOrderItemStock = async (
+  product: Product,
+  quantity: number,
+  options: StockChangeOptions
+): Promise<{ isPreOrder: boolean }> => {
+  if (product.availability === ProductAvailability.COMING_SOON) {
+    throw {
+      status: 400,
+      code: "PRODUCT_NOT_AVAILABLE",
+      message: `Product ${product.name} is coming soon and cannot be ordered yet`,
+    };
+  }
+
+  if (product.availability === ProductAvailability.PRE_ORDER) {
+    return { isPreOrder: true };
+  }
+
+  if (product.stockQuantity < quantity) {
+    throw {
+      status: 400,
+      code: "INSUFFICIENT_STOCK",
+      message: `Insufficient stock for product ${product.name}. Available: ${product.stockQuantity}, Requested: ${quantity}`,
+    };
+  }
+
+  await adjustStock(product, -quantity, options);
+  return { isPreOrder: false };
+};
+
+/**
+ * Pre-order lines of a product still waiting for stock, in allocation
+ * order: oldest order first
+ */
+const findWaitingPreOrders = (productId: string, transaction?: Transaction) =>
+  OrderItem.findAll({
+    where: {
+      productId,
+      isPreOrder: true,
+      [Op.and]: [where(col("OrderItem.allocated_quantity"), Op.lt, col("OrderItem.quantity"))],
+    },
+    include: [
+      {
+        model: Order,
+        as: "order",
+        required: true,
+        where: { status: { [Op.ne]: OrderStatus.CANCELLED } },
+        attributes: ["id", "orderNumber", "status", "depositAmount", "createdAt"],
+        include: [{ model: Customer, as: "customer", attributes: ["id", "fullName"] }],
+      },
+    ],
+    order: [
+      [{ model: Order, as: "order" }, "createdAt", "ASC"],
+      ["createdAt", "ASC"],
+    ],
+    transaction,
+  });
+
+export const getPreOrderQueue = async (productId: string) => {
+  const items = await findWaitingPreOrders(productId);
+
+  return items.map((item) => ({
+    orderItemId: item.id,
+    orderId: item.orderId,
+    orderNumber: item.order.orderNumber,
+    orderStatus: item.order.status,
+    customerName: item.order.customer?.fullName ?? null,
+    depositAmount: Number(item.order.depositAmount || 0),
+    quantity: item.quantity,
+    allocatedQuantity: item.allocatedQuantity,
+    outstanding: item.quantity - item.allocatedQuantity,
+    orderedAt: item.order.createdAt,
+  }));
+};
+
+/**
+ * Hand a product's available stock to its waiting pre-orders, oldest order
+ * first. A line gets what is left when stock runs short, so the order at
+ * the front is always served before anyone behind it. The product row
+ * should already be locked by the caller's transaction; admins are
+ * notified once it commits.
+ */
+export const allocatePreOrders = async (
+  product: Product,
+  options: { adminId?: string | null; transaction?: Transaction }
+): Promise<PreOrderAllocation[]> => {
+  const allocations: PreOrderAllocation[] = [];
+  if (product.stockQuantity <= 0) return allocations;
+
+  const waiting = await findWaitingPreOrders(product.id, options.transaction);
+
+  for (const item of waiting) {
+    if (product.stockQuantity <= 0) break;
+
+    const quantity = Math.min(
+      item.quantity - item.allocatedQuantity,
+      product.stockQuantity
+    );
+
+    await adjustStock(product, -quantity, {
+      reason: StockMovementReason.SALE,
+      referenceId: item.orderId,
+      adminId: options.adminId ?? null,
+      note: `Pre-order ${item.order.orderNumber} allocated`,
+      transaction: options.transaction,
+    });
+    await item.update(
+      { allocatedQuantity: item.allocatedQuantity + quantity },
+      { transaction: options.transaction }
+    );
+
+    allocations.push({
+      orderId: item.orderId,
+      orderNumber: item.order.orderNumber,
+      orderItemId: item.id,
+      quantity,
+      outstanding: item.quantity - item.allocatedQuantity,
+    });
+  }
+
+  if (allocations.length === 0) return allocations;
+
+  const emit = () => {
+    try {
+      socketService.emitPreOrderNotification({
+        productId: product.id,
+        productName: product.name,
+        currentStock: product.stockQuantity,
+        allocations: allocations.map(({ orderItemId: _orderItemId, ...allocation }) => allocation),
+      });
+    } catch (error) {
+      logger.error("Error emitting pre-order notification:", error);
+    }
+  };
+
+  if (options.transaction) {
+    options.transaction.afterCommit(emit);
+  } else {
+    emit();
+  }
+
+  return allocations;
+};
@@ -0,0 +1,298 @@
+import { Op, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import {
+  AdminUser,
+  PriceChangeSource,
+  Product,
+  ProductPriceHistory,
+  ProductScheduledPrice,
+} from "../models";
+
+export interface PriceChangeOptions {
+  source: PriceChangeSource;
+  adminId?: string | null;
+  orderId?: string | null;
+  note?: string | null;
+  transaction?: Transaction;
+}
+
+export interface ScheduledPriceInput {
+  price: number;
+  startsAt: Date;
+  endsAt?: Date | null;
+  label?: string | null;
+}
+
+export interface BulkPriceUpdate {
+  productId: string;
+  unitPrice: number;
+}
+
+const priceError = (status: number, code: string, message: string, details?: unknown) => ({
+  status,
+  code,
+  message,
+  details,
+});
+
+/**
+ * Record a base price change. Calls where the price did not change are
+ * ignored so callers can pass every save through.
+ */
+export const recordPriceChange = async (
+  productId: string,
+  oldPrice: number | null,
+  newPrice: number,
+  options: PriceChangeOptions
+): Promise<ProductPriceHistory | null> => {
+  if (oldPrice !== null && Number(oldPrice) === Number(newPrice)) {
+    return null;
+  }
+
+  return ProductPriceHistory.create(
+    {
+      productId,
+      oldPrice: oldPrice === null ? null : Number(oldPrice),
+      newPrice: Number(newPrice),
+      source: options.source,
+      changedByAdminId: options.adminId ?? null,
+      orderId: options.orderId ?? null,
+      note: options.note ?? null,
+    },
+    { transaction: options.transaction }
+  );
+};
+
+/**
+ * Change a product's base price and record it in the history. The product
+ * row should already be locked by the caller's transaction.
+ */
+export const setProductPrice = async (
+  product: Product,
+  newPrice: number,
+  options: PriceChangeOptions
+): Promise<Product> => {
+  const oldPrice = Number(product.unitPrice);
+  if (oldPrice === Number(newPrice)) {
+    return product;
+  }
+
+  await product.update({ unitPrice: newPrice }, { transaction: options.transaction });
+  await recordPriceChange(product.id, oldPrice, newPrice, options);
+
+  return product;
+};
+
+/**
+ * Set the base price of many products at once, all or nothing
+ */
+export const bulkUpdateProductPrices = async (
+  updates: BulkPriceUpdate[],
+  options: { adminId?: string | null; note?: string | null } = {}
+): Promise<Product[]> =>
+  sequelize.transaction(async (t) => {
+    const products = await Product.findAll({
+      where: {
+        id: { [Op.in]: updates.map((update) => update.productId) },
+        isDeleted: false,
+      },
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+
+    const byId = new Map(products.map((product) => [product.id, product]));
+    const missing = updates
+      .map((update) => update.productId)
+      .filter((productId) => !byId.has(productId));
+    if (missing.length > 0) {
+      throw priceError(404, "PRODUCT_NOT_FOUND", "One or more products not found", {
+        productIds: missing,
+      });
+    }
+
+    for (const update of updates) {
+      await setProductPrice(byId.get(update.productId)!, update.unitPrice, {
+        source: PriceChangeSource.BULK_IMPORT,
+        adminId: options.adminId,
+        note: options.note,
+        transaction: t,
+      });
+    }
+
+    return updates.map((update) => byId.get(update.productId)!);
+  });
+
+export const listProductPriceHistory = async (
+  productId: string,
+  { page, limit }: { page: number; limit: number }
+) =>
+  ProductPriceHistory.findAndCountAll({
+    where: { productId },
+    include: [
+      {
+        model: AdminUser,
+        as: "changedByAdmin",
+        attributes: ["id", "username", "email"],
+      },
+    ],
+    order: [["createdAt", "DESC"]],
+    limit,
+    offset: (page - 1) * limit,
+  });
+
+export const listScheduledPrices = async (productId: string) =>
+  ProductScheduledPrice.findAll({
+    where: { productId },
+    order: [["startsAt", "ASC"]],
+  });
+
+/**
+ * Schedule a price for a period. Schedules of the same product may not
+ * overlap, so at most one applies at any moment.
+ */
+export const createScheduledPrice = async (
+  productId: string,
+  input: ScheduledPriceInput,
+  adminId?: string | null
+): Promise<ProductScheduledPrice> =>
+  sequelize.transaction(async (t) => {
+    // Lock the product so concurrent schedules cannot both pass the check
+    const product = await Product.findByPk(productId, {
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+    if (!product || product.isDeleted) {
+      throw priceError(404, "PRODUCT_NOT_FOUND", "Product not found");
+    }
+
+    const endsAt = input.endsAt ?? null;
+    const overlapping = await ProductScheduledPrice.findOne({
+      where: {
+        productId,
+        ...(endsAt && { startsAt: { [Op.lt]: endsAt } }),
+        [Op.or]: [{ endsAt: null }, { endsAt: { [Op.gt]: input.startsAt } }],
+      },
+      transaction: t,
+    });
+    if (overlapping) {
+      throw priceError(
+        409,
+        "SCHEDULED_PRICE_OVERLAP",
+        "Another scheduled price covers part of this period",
+        {
+          id: overlapping.id,
+          startsAt: overlapping.startsAt,
+          endsAt: overlapping.endsAt,
+        }
+      );
+    }
+
+    return ProductScheduledPrice.create(
+      {
+        productId,
+        price: input.price,
+        startsAt: input.startsAt,
+        endsAt,
+        label: input.label ?? null,
+        createdByAdminId: adminId ?? null,
+      },
+      { transaction: t }
+    );
+  });
+
+export const deleteScheduledPrice = async (
+  productId: string,
+  scheduleId: string
+): Promise<void> => {
+  const deleted = await ProductScheduledPrice.destroy({
+    where: { id: scheduleId, productId },
+  });
+  if (!deleted) {
+    throw priceError(404, "SCHEDULED_PRICE_NOT_FOUND", "Scheduled price not found");
+  }
+};
+
+/**
+ * Scheduled prices in effect at `now`, keyed by product id. Products
+ * without one sell at their base price.
+ */
+export const getActiveScheduledPrices = async (
+  productIds: string[],
+  now: Date = new Date(),
+  transaction?: Transaction
+): Promise<Map<string, ProductScheduledPrice>> => {
+  const active = new Map<string, ProductScheduledPrice>();
+  if (productIds.length === 0) return active;
+
+  const schedules = await ProductScheduledPrice.findAll({
+    where: {
+      productId: { [Op.in]: productIds },
+      startsAt: { [Op.lte]: now },
+      [Op.or]: [{ endsAt: null }, { endsAt: { [Op.gt]: now } }],
+    },
+    order: [["startsAt", "DESC"]],
+    transaction,
+  });
+
+  schedules.forEach((schedule) => {
+    if (!active.has(schedule.productId)) {
+      active.set(schedule.productId, schedule);
+    }
+  });
+
+  return active;
+};
+
+/**
+ * Next moment a scheduled price of any of the products starts or ends, so
+ * cached prices can expire with it. Null when nothing is scheduled.
+ */
+export const getNextPriceChange = async (
+  productIds: string[],
+  now: Date = new Date()
+): Promise<Date | null> => {
+  if (productIds.length === 0) return null;
+
+  const [nextStart, nextEnd] = await Promise.all([
+    ProductScheduledPrice.min<Date | null, ProductScheduledPrice>("startsAt", {
+      where: { productId: { [Op.in]: productIds }, startsAt: { [Op.gt]: now } },
+    }),
+    ProductScheduledPrice.min<Date | null, ProductScheduledPrice>("endsAt", {
+      where: { productId: { [Op.in]: productIds }, endsAt: { [Op.gt]: now } },
+    }),
+  ]);
+
+  const boundaries = [nextStart, nextEnd]
+    .filter((value): value is Date => value !== null && value !== undefined)
+    .map((value) => new Date(value).getTime());
+  return boundaries.length > 0 ? new Date(Math.min(...boundaries)) : null;
+};
+
+/**
+ * Price a product sells at now: its active scheduled price, else its base price
+ */
+export const getEffectivePrice = async (
+  product: Pick<Product, "id" | "unitPrice">,
+  transaction?: Transaction
+): Promise<number> => {
+  const schedule = (await getActiveScheduledPrices([product.id], new Date(), transaction)).get(
+    product.id
+  );
+  return Number(schedule ? schedule.price : product.unitPrice);
+};
+
+/**
+ * Replace `unitPrice` on a public product payload with the effective price.
+ * The base price moves to `regularPrice` while a schedule applies.
+ */
+export const applyEffectivePrice = <T extends { unitPrice: any }>(
+  product: T,
+  schedule: ProductScheduledPrice | undefined
+) => ({
+  ...product,
+  unitPrice: schedule ? Number(schedule.price) : Number(product.unitPrice),
+  regularPrice: schedule ? Number(product.unitPrice) : null,
+  priceSchedule: schedule
+    ? { id: schedule.id, label: schedule.label, endsAt: schedule.endsAt }
+    : null,
+});
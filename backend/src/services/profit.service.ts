@@ -0,0 +1,308 @@
+import { QueryTypes } from "sequelize";
+import { sequelize } from "../config/database";
+
+/**
+ * Gross profit of delivered orders.
+ *
+ * Revenue is what the customer paid for the goods: the order total without
+ * the shipping fee they were charged, so coupon discounts are already out,
+ * less refunds on returns. Product and category figures are before returns.
+ * Costs are the cost price snapshotted on each item at sale time (the
+ * product's current cost price for items sold before costs were recorded)
+ * plus the shipping subsidy, the part of the carrier fee the shop waived.
+ */
+
+export interface ProfitRange {
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+export interface ProfitFigures {
+  revenue: number;
+  costOfGoods: number;
+  shippingSubsidy: number;
+  grossProfit: number;
+  /** Gross profit as a percentage of revenue, one decimal */
+  margin: number;
+}
+
+export interface ProfitSummary extends ProfitFigures {
+  orders: number;
+  /** Refunded on returns, already taken off revenue */
+  refunds: number;
+  /** Items with no cost price, counted at zero cost */
+  itemsWithoutCost: number;
+}
+
+const toFigures = (row: {
+  revenue: unknown;
+  cost_of_goods: unknown;
+  shipping_subsidy: unknown;
+}): ProfitFigures => {
+  const revenue = Number(row.revenue || 0);
+  const costOfGoods = Number(row.cost_of_goods || 0);
+  const shippingSubsidy = Number(row.shipping_subsidy || 0);
+  const grossProfit = revenue - costOfGoods - shippingSubsidy;
+
+  return {
+    revenue,
+    costOfGoods,
+    shippingSubsidy,
+    grossProfit,
+    margin: revenue > 0 ? Math.round((grossProfit / revenue) * 1000) / 10 : 0,
+  };
+};
+
+const rangeFilter = (range: ProfitRange) =>
+  [
+    range.dateFrom ? "AND o.created_at >= :dateFrom" : "",
+    range.dateTo ? "AND o.created_at < :dateTo" : "",
+  ].join(" ");
+
+const rangeReplacements = (range: ProfitRange) => ({
+  ...(range.dateFrom && { dateFrom: range.dateFrom }),
+  ...(range.dateTo && { dateTo: range.dateTo }),
+});
+
+/**
+ * Delivered order lines with their revenue and cost, and each line's
+ * share of its order's coupon discount and shipping subsidy
+ */
+const orderLinesSql = (range: ProfitRange) => `
+  order_lines AS (
+    SELECT
+      oi.order_id,
+      oi.product_id,
+      oi.quantity,
+      oi.quantity * COALESCE((oi.product_snapshot->>'unitPrice')::numeric, 0) AS line_revenue,
+      oi.quantity * COALESCE((oi.product_snapshot->>'costPrice')::numeric, p.cost_price) AS line_cost
+    FROM order_items oi
+    INNER JOIN orders o ON oi.order_id = o.id
+    LEFT JOIN products p ON oi.product_id = p.id
+    WHERE o.status = 'DELIVERED' ${rangeFilter(range)}
+  ),
+  allocated_lines AS (
+    SELECT
+      l.*,
+      o.created_at,
+      CASE WHEN t.items_revenue > 0 THEN l.line_revenue / t.items_revenue ELSE 0 END AS share,
+      o.discount_amount,
+      o.shipping_discount
+    FROM order_lines l
+    INNER JOIN orders o ON l.order_id = o.id
+    INNER JOIN (
+      SELECT order_id, SUM(line_revenue) AS items_revenue
+      FROM order_lines
+      GROUP BY order_id
+    ) t ON t.order_id = l.order_id
+  )
+`;
+
+/**
+ * Per-line revenue and costs, with the order's discount and subsidy
+ * spread over its lines by revenue
+ */
+const allocatedColumns = `
+  SUM(a.line_revenue - a.discount_amount * a.share) AS revenue,
+  SUM(COALESCE(a.line_cost, 0)) AS cost_of_goods,
+  SUM(a.shipping_discount * a.share) AS shipping_subsidy,
+  SUM(a.quantity) AS quantity
+`;
+
+/**
+ * Per-order figures for delivered orders
+ */
+const orderProfitsSql = (range: ProfitRange) => `
+  WITH ${orderLinesSql(range)},
+  order_profits AS (
+    SELECT
+      o.id,
+      o.order_number,
+      o.order_type,
+      o.created_at,
+      o.total_amount - o.shipping_cost - COALESCE(r.refunded, 0) AS revenue,
+      COALESCE(r.refunded, 0) AS refunds,
+      COALESCE(c.cost_of_goods, 0) AS cost_of_goods,
+      o.shipping_discount AS shipping_subsidy,
+      COALESCE(c.items_without_cost, 0) AS items_without_cost
+    FROM orders o
+    LEFT JOIN (
+      SELECT
+        order_id,
+        SUM(COALESCE(line_cost, 0)) AS cost_of_goods,
+        COUNT(*) FILTER (WHERE line_cost IS NULL) AS items_without_cost
+      FROM order_lines
+      GROUP BY order_id
+    ) c ON c.order_id = o.id
+    LEFT JOIN (
+      SELECT order_id, SUM(refund_amount) AS refunded
+      FROM return_requests
+      WHERE status = 'REFUNDED'
+      GROUP BY order_id
+    ) r ON r.order_id = o.id
+    WHERE o.status = 'DELIVERED' ${rangeFilter(range)}
+  )
+`;
+
+export const getProfitSummary = async (range: ProfitRange = {}): Promise<ProfitSummary> => {
+  const row = await sequelize.query<any>(
+    `
+      ${orderProfitsSql(range)}
+      SELECT
+        COUNT(*) AS orders,
+        COALESCE(SUM(revenue), 0) AS revenue,
+        COALESCE(SUM(cost_of_goods), 0) AS cost_of_goods,
+        COALESCE(SUM(shipping_subsidy), 0) AS shipping_subsidy,
+        COALESCE(SUM(refunds), 0) AS refunds,
+        COALESCE(SUM(items_without_cost), 0) AS items_without_cost
+      FROM order_profits
+    `,
+    { replacements: rangeReplacements(range), type: QueryTypes.SELECT, plain: true }
+  );
+
+  return {
+    orders: Number(row?.orders || 0),
+    ...toFigures(row || {}),
+    refunds: Number(row?.refunds || 0),
+    itemsWithoutCost: Number(row?.items_without_cost || 0),
+  };
+};
+
+export const getOrderProfits = async (
+  range: ProfitRange,
+  { page, limit }: { page: number; limit: number }
+) => {
+  const replacements = { ...rangeReplacements(range), limit, offset: (page - 1) * limit };
+
+  const [rows, countRow] = await Promise.all([
+    sequelize.query<any>(
+      `
+        ${orderProfitsSql(range)}
+        SELECT * FROM order_profits
+        ORDER BY created_at DESC
+        LIMIT :limit OFFSET :offset
+      `,
+      { replacements, type: QueryTypes.SELECT }
+    ),
+    sequelize.query<any>(
+      `
+        ${orderProfitsSql(range)}
+        SELECT COUNT(*) AS total FROM order_profits
+      `,
+      { replacements, type: QueryTypes.SELECT, plain: true }
+    ),
+  ]);
+
+  return {
+    orders: rows.map((row) => ({
+      id: row.id,
+      orderNumber: row.order_number,
+      orderType: row.order_type,
+      createdAt: row.created_at,
+      ...toFigures(row),
+      refunds: Number(row.refunds || 0),
+      itemsWithoutCost: Number(row.items_without_cost || 0),
+    })),
+    total: Number(countRow?.total || 0),
+  };
+};
+
+export const getProductProfits = async (
+  range: ProfitRange,
+  options: { limit?: number; offset?: number; productIds?: string[] } = {}
+) => {
+  if (options.productIds && options.productIds.length === 0) return [];
+
+  const rows = await sequelize.query<any>(
+    `
+      WITH ${orderLinesSql(range)}
+      SELECT
+        a.product_id,
+        p.name AS product_name,
+        p.slug AS product_slug,
+        ${allocatedColumns}
+      FROM allocated_lines a
+      LEFT JOIN products p ON a.product_id = p.id
+      ${options.productIds ? "WHERE a.product_id IN (:productIds)" : ""}
+      GROUP BY a.product_id, p.name, p.slug
+      ORDER BY SUM(a.line_revenue - a.discount_amount * a.share)
+        - SUM(COALESCE(a.line_cost, 0))
+        - SUM(a.shipping_discount * a.share) DESC
+      ${options.limit !== undefined ? "LIMIT :limit OFFSET :offset" : ""}
+    `,
+    {
+      replacements: {
+        ...rangeReplacements(range),
+        ...(options.productIds && { productIds: options.productIds }),
+        ...(options.limit !== undefined && {
+          limit: options.limit,
+          offset: options.offset ?? 0,
+        }),
+      },
+      type: QueryTypes.SELECT,
+    }
+  );
+
+  return rows.map((row) => ({
+    productId: row.product_id,
+    name: row.product_name || "Unknown",
+    slug: row.product_slug,
+    quantity: Number(row.quantity || 0),
+    ...toFigures(row),
+  }));
+};
+
+/**
+ * Profit per category. A product in several categories counts towards
+ * each of them, so categories do not add up to the total.
+ */
+export const getCategoryProfits = async (range: ProfitRange) => {
+  const rows = await sequelize.query<any>(
+    `
+      WITH ${orderLinesSql(range)}
+      SELECT
+        c.id AS category_id,
+        c.name AS category_name,
+        c.slug AS category_slug,
+        ${allocatedColumns}
+      FROM allocated_lines a
+      INNER JOIN product_categories pc ON pc.product_id = a.product_id
+      INNER JOIN categories c ON pc.category_id = c.id
+      GROUP BY c.id, c.name, c.slug
+      ORDER BY c.name ASC
+    `,
+    { replacements: rangeReplacements(range), type: QueryTypes.SELECT }
+  );
+
+  return rows.map((row) => ({
+    categoryId: row.category_id,
+    name: row.category_name,
+    slug: row.category_slug,
+    quantity: Number(row.quantity || 0),
+    ...toFigures(row),
+  }));
+};
+
+export const getMonthlyProfits = async (range: ProfitRange) => {
+  const rows = await sequelize.query<any>(
+    `
+      ${orderProfitsSql(range)}
+      SELECT
+        TO_CHAR(DATE_TRUNC('month', created_at), 'YYYY-MM') AS month,
+        COUNT(*) AS orders,
+        SUM(revenue) AS revenue,
+        SUM(cost_of_goods) AS cost_of_goods,
+        SUM(shipping_subsidy) AS shipping_subsidy
+      FROM order_profits
+      GROUP BY DATE_TRUNC('month', created_at)
+      ORDER BY DATE_TRUNC('month', created_at) ASC
+    `,
+    { replacements: rangeReplacements(range), type: QueryTypes.SELECT }
+  );
+
+  return rows.map((row) => ({
+    month: row.month,
+    orders: Number(row.orders || 0),
+    ...toFigures(row),
+  }));
+};
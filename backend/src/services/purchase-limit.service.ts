@@ -0,0 +1,169 @@
+import { QueryTypes, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import { Product } from "../models";
+import { normalizedPhoneSql } from "../utils/phoneValidation";
+
+export interface PurchaseLimitLine {
+  product: Product;
+  quantity: number;
+}
+
+export interface PurchaseLimitViolation {
+  productId: string;
+  productName: string;
+  limit: "PER_ORDER" | "PER_CUSTOMER";
+  maxQuantity: number;
+  /** Bought on earlier orders within the window; 0 for the per-order limit */
+  previousQuantity: number;
+  requestedQuantity: number;
+}
+
+export interface PurchaseLimitOptions {
+  /** Order being edited, left out of the customer's earlier purchases */
+  excludeOrderId?: string;
+  /** Admin override: violations are returned instead of thrown */
+  override?: boolean;
+  transaction?: Transaction;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Units of a product on the customer's non-cancelled orders. Orders are
+ * matched through every phone number of the customer, compared in
+ * normalized form, so another customer record sharing one of those phones
+ * counts as the same buyer however the number was typed.
+ */
+const getPurchasedQuantity = async (
+  customerId: string,
+  productId: string,
+  options: { since: Date | null; excludeOrderId?: string; transaction?: Transaction }
+): Promise<number> => {
+  const row = await sequelize.query<{ quantity: string }>(
+    `
+      WITH buyer_phones AS (
+        SELECT DISTINCT ${normalizedPhoneSql("phone_number")} AS phone
+        FROM customer_phones
+        WHERE customer_id = :customerId
+          AND ${normalizedPhoneSql("phone_number")} <> ''
+      )
+      SELECT COALESCE(SUM(oi.quantity), 0) AS quantity
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE oi.product_id = :productId
+        AND o.status <> 'CANCELLED'
+        ${options.since ? "AND o.created_at >= :since" : ""}
+        ${options.excludeOrderId ? "AND o.id <> :excludeOrderId" : ""}
+        AND (
+          o.customer_id = :customerId
+          OR o.customer_id IN (
+            SELECT other.customer_id
+            FROM customer_phones other
+            WHERE ${normalizedPhoneSql("other.phone_number")} IN (SELECT phone FROM buyer_phones)
+          )
+          OR ${normalizedPhoneSql("o.customer_main_phone")} IN (SELECT phone FROM buyer_phones)
+        )
+    `,
+    {
+      replacements: {
+        productId,
+        customerId,
+        since: options.since,
+        excludeOrderId: options.excludeOrderId ?? null,
+      },
+      type: QueryTypes.SELECT,
+      plain: true,
+      transaction: options.transaction,
+    }
+  );
+
+  return Number(row?.quantity ?? 0);
+};
+
+/**
+ * Check an order's lines against the products' per-order and per-customer
+ * limits. Call it with the product rows locked, so two orders from the
+ * same customer cannot both slip under the limit.
+ *
+ * Violations are thrown as a `{ status, code, message, details }` object
+ * unless `override` is set, in which case they are returned.
+ */
+export const enforcePurchaseLimits = async (
+  customerId: string,
+  lines: PurchaseLimitLine[],
+  options: PurchaseLimitOptions = {}
+): Promise<PurchaseLimitViolation[]> => {
+  // Same product on several lines counts once
+  const quantities = new Map<string, PurchaseLimitLine>();
+  for (const line of lines) {
+    const existing = quantities.get(line.product.id);
+    quantities.set(line.product.id, {
+      product: line.product,
+      quantity: (existing?.quantity ?? 0) + line.quantity,
+    });
+  }
+
+  const violations: PurchaseLimitViolation[] = [];
+
+  for (const { product, quantity } of quantities.values()) {
+    if (product.maxQuantityPerOrder && quantity > product.maxQuantityPerOrder) {
+      violations.push({
+        productId: product.id,
+        productName: product.name,
+        limit: "PER_ORDER",
+        maxQuantity: product.maxQuantityPerOrder,
+        previousQuantity: 0,
+        requestedQuantity: quantity,
+      });
+    }
+
+    if (product.maxQuantityPerCustomer) {
+      const previousQuantity = await getPurchasedQuantity(customerId, product.id, {
+        since: product.purchaseLimitWindowDays
+          ? new Date(Date.now() - product.purchaseLimitWindowDays * DAY_MS)
+          : null,
+        excludeOrderId: options.excludeOrderId,
+        transaction: options.transaction,
+      });
+
+      if (previousQuantity + quantity > product.maxQuantityPerCustomer) {
+        violations.push({
+          productId: product.id,
+          productName: product.name,
+          limit: "PER_CUSTOMER",
+          maxQuantity: product.maxQuantityPerCustomer,
+          previousQuantity,
+          requestedQuantity: quantity,
+        });
+      }
+    }
+  }
+
+  if (violations.length > 0 && !options.override) {
+    const [first] = violations;
+    throw {
+      status: 409,
+      code: "PURCHASE_LIMIT_EXCEEDED",
+      message: `${first.productName} is limited to ${first.maxQuantity} per ${
+        first.limit === "PER_ORDER" ? "order" : "customer"
+      }`,
+      details: violations,
+    };
+  }
+
+  return violations;
+};
+
+/**
+ * Note for the order timeline recording which limits an admin overrode
+ */
+export const describePurchaseLimitOverride = (
+  violations: PurchaseLimitViolation[]
+): string =>
+  `Purchase limits overridden: ${violations
+    .map((violation) =>
+      violation.limit === "PER_ORDER"
+        ? `${violation.productName} ${violation.requestedQuantity} of max ${violation.maxQuantity} per order`
+        : `${violation.productName} ${violation.previousQuantity + violation.requestedQuantity} of max ${violation.maxQuantity} per customer`
+    )
+    .join("; ")}`;
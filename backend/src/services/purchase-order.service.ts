@@ -0,0 +1,432 @@
+import { Op, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import {
+  AdminUser,
+  Product,
+  PurchaseOrder,
+  PurchaseOrderItem,
+  PurchaseOrderStatus,
+  StockMovementReason,
+  Supplier,
+} from "../models";
+import { allocatePreOrders } from "./pre-order.service";
+import { adjustStock } from "./stock.service";
+import { releaseWaitlist } from "./waitlist.service";
+
+export interface PurchaseOrderItemInput {
+  productId: string;
+  quantityOrdered: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrderInput {
+  supplierId: string;
+  expectedArrivalAt?: Date | null;
+  notes?: string | null;
+  items: PurchaseOrderItemInput[];
+}
+
+export interface ReceivedItemInput {
+  productId: string;
+  quantity: number;
+}
+
+export interface PurchaseOrderFilter {
+  page: number;
+  limit: number;
+  status?: PurchaseOrderStatus;
+  supplierId?: string;
+  search?: string;
+}
+
+const purchaseOrderError = (
+  status: number,
+  code: string,
+  message: string,
+  details?: unknown
+) => ({ status, code, message, details });
+
+const purchaseOrderInclude = [
+  {
+    model: Supplier,
+    as: "supplier",
+    attributes: ["id", "name", "contactName", "phoneNumber"],
+  },
+  {
+    model: PurchaseOrderItem,
+    as: "items",
+    include: [
+      {
+        model: Product,
+        as: "product",
+        attributes: ["id", "name", "slug", "stockQuantity"],
+      },
+    ],
+  },
+  {
+    model: AdminUser,
+    as: "createdByAdmin",
+    attributes: ["id", "username", "email"],
+  },
+];
+
+/**
+ * Generate a unique PO number (must be called inside a transaction)
+ */
+const generatePoNumber = async (t: Transaction): Promise<string> => {
+  const date = new Date();
+  const year = date.getFullYear().toString().slice(-2);
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  const prefix = `PO${year}${month}${day}`;
+
+  const todayCount = await PurchaseOrder.count({
+    where: { poNumber: { [Op.like]: `${prefix}%` } },
+    transaction: t,
+  });
+
+  return `${prefix}${(todayCount + 1).toString().padStart(3, "0")}`;
+};
+
+/**
+ * Merge lines for the same product and check the products exist
+ */
+const prepareItems = async (
+  items: PurchaseOrderItemInput[],
+  t: Transaction
+): Promise<PurchaseOrderItemInput[]> => {
+  const merged = new Map<string, PurchaseOrderItemInput>();
+  for (const item of items) {
+    const existing = merged.get(item.productId);
+    if (existing && existing.unitCost !== item.unitCost) {
+      throw purchaseOrderError(
+        400,
+        "PURCHASE_ORDER_DUPLICATE_PRODUCT",
+        "A product appears twice with different unit costs",
+        { productId: item.productId }
+      );
+    }
+    merged.set(item.productId, {
+      ...item,
+      quantityOrdered: (existing?.quantityOrdered ?? 0) + item.quantityOrdered,
+    });
+  }
+
+  const productIds = [...merged.keys()];
+  const products = await Product.findAll({
+    where: { id: { [Op.in]: productIds }, isDeleted: false },
+    attributes: ["id"],
+    transaction: t,
+  });
+  const found = new Set(products.map((product) => product.id));
+  const missing = productIds.filter((id) => !found.has(id));
+  if (missing.length > 0) {
+    throw purchaseOrderError(404, "PRODUCT_NOT_FOUND", "Some products do not exist", {
+      productIds: missing,
+    });
+  }
+
+  return [...merged.values()];
+};
+
+const totalCostOf = (items: { quantityOrdered: number; unitCost: number }[]) =>
+  items.reduce((sum, item) => sum + item.quantityOrdered * Number(item.unitCost), 0);
+
+const findActiveSupplier = async (supplierId: string, t: Transaction) => {
+  const supplier = await Supplier.findByPk(supplierId, { transaction: t });
+  if (!supplier) {
+    throw purchaseOrderError(404, "SUPPLIER_NOT_FOUND", "Supplier not found");
+  }
+  if (!supplier.isActive) {
+    throw purchaseOrderError(409, "SUPPLIER_INACTIVE", `Supplier ${supplier.name} is inactive`);
+  }
+  return supplier;
+};
+
+const lockPurchaseOrder = async (id: string, t: Transaction) => {
+  const purchaseOrder = await PurchaseOrder.findByPk(id, {
+    transaction: t,
+    lock: t.LOCK.UPDATE,
+  });
+  if (!purchaseOrder) {
+    throw purchaseOrderError(404, "PURCHASE_ORDER_NOT_FOUND", "Purchase order not found");
+  }
+  return purchaseOrder;
+};
+
+export const getPurchaseOrder = async (id: string) => {
+  const purchaseOrder = await PurchaseOrder.findByPk(id, {
+    include: purchaseOrderInclude,
+    order: [[{ model: PurchaseOrderItem, as: "items" }, "createdAt", "ASC"]],
+  });
+  if (!purchaseOrder) {
+    throw purchaseOrderError(404, "PURCHASE_ORDER_NOT_FOUND", "Purchase order not found");
+  }
+  return purchaseOrder;
+};
+
+export const listPurchaseOrders = async (filter: PurchaseOrderFilter) => {
+  const where: any = {};
+  if (filter.status) where.status = filter.status;
+  if (filter.supplierId) where.supplierId = filter.supplierId;
+  if (filter.search) where.poNumber = { [Op.iLike]: `%${filter.search}%` };
+
+  return PurchaseOrder.findAndCountAll({
+    where,
+    include: [
+      {
+        model: Supplier,
+        as: "supplier",
+        attributes: ["id", "name"],
+      },
+    ],
+    order: [["createdAt", "DESC"]],
+    limit: filter.limit,
+    offset: (filter.page - 1) * filter.limit,
+  });
+};
+
+/**
+ * Create a DRAFT purchase order
+ */
+export const createPurchaseOrder = async (
+  input: PurchaseOrderInput,
+  adminId: string | null
+) => {
+  const id = await sequelize.transaction(async (t) => {
+    await findActiveSupplier(input.supplierId, t);
+    const items = await prepareItems(input.items, t);
+
+    const purchaseOrder = await PurchaseOrder.create(
+      {
+        poNumber: await generatePoNumber(t),
+        supplierId: input.supplierId,
+        expectedArrivalAt: input.expectedArrivalAt ?? null,
+        notes: input.notes ?? null,
+        totalCost: totalCostOf(items),
+        createdByAdminId: adminId,
+      },
+      { transaction: t }
+    );
+
+    await PurchaseOrderItem.bulkCreate(
+      items.map((item) => ({ ...item, purchaseOrderId: purchaseOrder.id })),
+      { transaction: t }
+    );
+
+    return purchaseOrder.id;
+  });
+
+  return getPurchaseOrder(id);
+};
+
+/**
+ * Update a purchase order. Supplier and items can only change while it is
+ * a DRAFT; the expected arrival and notes until it is fully received.
+ */
+export const updatePurchaseOrder = async (
+  id: string,
+  input: Partial<PurchaseOrderInput>
+) => {
+  await sequelize.transaction(async (t) => {
+    const purchaseOrder = await lockPurchaseOrder(id, t);
+
+    if (purchaseOrder.status === PurchaseOrderStatus.RECEIVED) {
+      throw purchaseOrderError(
+        409,
+        "PURCHASE_ORDER_NOT_EDITABLE",
+        "A received purchase order cannot be changed"
+      );
+    }
+
+    const changesContents = input.supplierId !== undefined || input.items !== undefined;
+    if (changesContents && purchaseOrder.status !== PurchaseOrderStatus.DRAFT) {
+      throw purchaseOrderError(
+        409,
+        "PURCHASE_ORDER_NOT_EDITABLE",
+        `Supplier and items cannot change once the purchase order is ${purchaseOrder.status}`
+      );
+    }
+
+    const updates: any = {};
+    if (input.expectedArrivalAt !== undefined) updates.expectedArrivalAt = input.expectedArrivalAt;
+    if (input.notes !== undefined) updates.notes = input.notes;
+
+    if (input.supplierId !== undefined) {
+      await findActiveSupplier(input.supplierId, t);
+      updates.supplierId = input.supplierId;
+    }
+
+    if (input.items !== undefined) {
+      const items = await prepareItems(input.items, t);
+      await PurchaseOrderItem.destroy({ where: { purchaseOrderId: id }, transaction: t });
+      await PurchaseOrderItem.bulkCreate(
+        items.map((item) => ({ ...item, purchaseOrderId: id })),
+        { transaction: t }
+      );
+      updates.totalCost = totalCostOf(items);
+    }
+
+    await purchaseOrder.update(updates, { transaction: t });
+  });
+
+  return getPurchaseOrder(id);
+};
+
+/**
+ * Mark a DRAFT purchase order as placed with the supplier
+ */
+export const markPurchaseOrderOrdered = async (
+  id: string,
+  expectedArrivalAt?: Date | null
+) => {
+  await sequelize.transaction(async (t) => {
+    const purchaseOrder = await lockPurchaseOrder(id, t);
+
+    if (purchaseOrder.status !== PurchaseOrderStatus.DRAFT) {
+      throw purchaseOrderError(
+        409,
+        "INVALID_PURCHASE_ORDER_STATUS",
+        `Cannot order a purchase order with status ${purchaseOrder.status}`
+      );
+    }
+
+    await purchaseOrder.update(
+      {
+        status: PurchaseOrderStatus.ORDERED,
+        orderedAt: new Date(),
+        ...(expectedArrivalAt !== undefined && { expectedArrivalAt }),
+      },
+      { transaction: t }
+    );
+  });
+
+  return getPurchaseOrder(id);
+};
+
+/**
+ * Receive goods against a purchase order. Stock of every product goes up
+ * through the stock ledger in the same transaction, so a failed receipt
+ * changes nothing. Arrived units go to waiting pre-orders first; products
+ * still in stock after that release their waitlist.
+ */
+export const receivePurchaseOrder = async (
+  id: string,
+  received: ReceivedItemInput[],
+  options: { adminId: string | null; note?: string | null }
+) => {
+  await sequelize.transaction(async (t) => {
+    const purchaseOrder = await lockPurchaseOrder(id, t);
+
+    if (
+      purchaseOrder.status !== PurchaseOrderStatus.ORDERED &&
+      purchaseOrder.status !== PurchaseOrderStatus.PARTIALLY_RECEIVED
+    ) {
+      throw purchaseOrderError(
+        409,
+        "INVALID_PURCHASE_ORDER_STATUS",
+        `Cannot receive goods for a purchase order with status ${purchaseOrder.status}`
+      );
+    }
+
+    const items = await PurchaseOrderItem.findAll({
+      where: { purchaseOrderId: id },
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+    const itemsByProduct = new Map(items.map((item) => [item.productId, item]));
+
+    const quantities = new Map<string, number>();
+    for (const line of received) {
+      quantities.set(line.productId, (quantities.get(line.productId) ?? 0) + line.quantity);
+    }
+
+    for (const [productId, quantity] of quantities) {
+      const item = itemsByProduct.get(productId);
+      if (!item) {
+        throw purchaseOrderError(
+          400,
+          "PRODUCT_NOT_ON_PURCHASE_ORDER",
+          "Product is not on this purchase order",
+          { productId }
+        );
+      }
+      const remaining = item.quantityOrdered - item.quantityReceived;
+      if (quantity > remaining) {
+        throw purchaseOrderError(
+          409,
+          "RECEIVED_QUANTITY_EXCEEDS_ORDERED",
+          `Only ${remaining} unit(s) of this product are still expected`,
+          { productId, remaining, quantity }
+        );
+      }
+    }
+
+    // Lock products in a stable order to avoid deadlocks with orders
+    const products = await Product.findAll({
+      where: { id: { [Op.in]: [...quantities.keys()] } },
+      order: [["id", "ASC"]],
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+
+    for (const product of products) {
+      const quantity = quantities.get(product.id)!;
+      const item = itemsByProduct.get(product.id)!;
+      const previousStock = product.stockQuantity;
+
+      await adjustStock(product, quantity, {
+        reason: StockMovementReason.RESTOCK,
+        referenceId: purchaseOrder.id,
+        note: options.note || `Received on ${purchaseOrder.poNumber}`,
+        adminId: options.adminId,
+        transaction: t,
+      });
+
+      await item.update(
+        { quantityReceived: item.quantityReceived + quantity },
+        { transaction: t }
+      );
+
+      // Waiting pre-orders are served before the waitlist hears about it
+      await allocatePreOrders(product, { adminId: options.adminId, transaction: t });
+
+      if (previousStock <= 0 && product.stockQuantity > 0) {
+        await releaseWaitlist(product, t);
+      }
+    }
+
+    const fullyReceived = items.every(
+      (item) => item.quantityReceived >= item.quantityOrdered
+    );
+    await purchaseOrder.update(
+      fullyReceived
+        ? { status: PurchaseOrderStatus.RECEIVED, receivedAt: new Date() }
+        : { status: PurchaseOrderStatus.PARTIALLY_RECEIVED },
+      { transaction: t }
+    );
+  });
+
+  return getPurchaseOrder(id);
+};
+
+/**
+ * Delete a purchase order that was never placed
+ */
+export const deletePurchaseOrder = async (id: string) =>
+  sequelize.transaction(async (t) => {
+    const purchaseOrder = await lockPurchaseOrder(id, t);
+
+    if (purchaseOrder.status !== PurchaseOrderStatus.DRAFT) {
+      throw purchaseOrderError(
+        409,
+        "PURCHASE_ORDER_NOT_DELETABLE",
+        "Only DRAFT purchase orders can be deleted"
+      );
+    }
+
+    await PurchaseOrderItem.destroy({ where: { purchaseOrderId: id }, transaction: t });
+    await purchaseOrder.destroy({ transaction: t });
+
+    return { id };
+  });
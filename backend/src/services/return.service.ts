@@ -0,0 +1,465 @@
+import { Op, QueryTypes, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import {
+  AdminUser,
+  Order,
+  OrderItem,
+  OrderStatus,
+  Payment,
+  PaymentMethod,
+  PaymentType,
+  Product,
+  ReturnDisposition,
+  ReturnReason,
+  ReturnRequest,
+  ReturnRequestItem,
+  ReturnStatus,
+  StockMovementReason,
+} from "../models";
+import { recordOrderPayment } from "./payment.service";
+import { adjustStock } from "./stock.service";
+
+export interface CreateReturnInput {
+  reason: ReturnReason;
+  reasonNote?: string | null;
+  items: { orderItemId: string; quantity: number }[];
+}
+
+export interface ReceiveReturnInput {
+  /** Applied to every item without its own disposition */
+  disposition: ReturnDisposition;
+  items?: { returnItemId: string; disposition: ReturnDisposition }[];
+  note?: string | null;
+}
+
+export interface RefundReturnInput {
+  method: PaymentMethod;
+  /** Omitted: refund the price paid for the returned items */
+  amount?: number;
+  referenceCode?: string;
+  note?: string;
+}
+
+export interface ReturnFilter {
+  page: number;
+  limit: number;
+  status?: ReturnStatus;
+  orderId?: string;
+}
+
+/** Returns that still hold on to their items' quantities */
+const OPEN_RETURN_STATUSES = [
+  ReturnStatus.REQUESTED,
+  ReturnStatus.APPROVED,
+  ReturnStatus.RECEIVED,
+  ReturnStatus.REFUNDED,
+];
+
+const returnError = (status: number, code: string, message: string, details?: unknown) => ({
+  status,
+  code,
+  message,
+  details,
+});
+
+const returnInclude = [
+  {
+    model: ReturnRequestItem,
+    as: "items",
+    include: [
+      {
+        model: Product,
+        as: "product",
+        attributes: ["id", "name", "slug"],
+      },
+    ],
+  },
+  {
+    model: Order,
+    as: "order",
+    attributes: ["id", "orderNumber", "customerId", "status", "totalAmount"],
+  },
+  {
+    model: Payment,
+    as: "refundPayment",
+    attributes: ["id", "method", "amount", "status", "referenceCode", "paidAt"],
+  },
+  {
+    model: AdminUser,
+    as: "createdByAdmin",
+    attributes: ["id", "username", "email"],
+  },
+];
+
+const lockReturn = async (id: string, t: Transaction) => {
+  const returnRequest = await ReturnRequest.findByPk(id, {
+    transaction: t,
+    lock: t.LOCK.UPDATE,
+  });
+  if (!returnRequest) {
+    throw returnError(404, "RETURN_NOT_FOUND", "Return request not found");
+  }
+  return returnRequest;
+};
+
+const assertStatus = (returnRequest: ReturnRequest, allowed: ReturnStatus[], action: string) => {
+  if (!allowed.includes(returnRequest.status)) {
+    throw returnError(
+      409,
+      "INVALID_RETURN_STATUS",
+      `Cannot ${action} a return with status ${returnRequest.status}`
+    );
+  }
+};
+
+export const getReturnRequest = async (id: string) => {
+  const returnRequest = await ReturnRequest.findByPk(id, { include: returnInclude });
+  if (!returnRequest) {
+    throw returnError(404, "RETURN_NOT_FOUND", "Return request not found");
+  }
+  return returnRequest;
+};
+
+export const listReturnRequests = async (filter: ReturnFilter) =>
+  ReturnRequest.findAndCountAll({
+    where: {
+      ...(filter.status && { status: filter.status }),
+      ...(filter.orderId && { orderId: filter.orderId }),
+    },
+    include: returnInclude,
+    order: [["createdAt", "DESC"]],
+    limit: filter.limit,
+    offset: (filter.page - 1) * filter.limit,
+    distinct: true,
+  });
+
+/**
+ * Open a return for items of a DELIVERED order. Each item can only be
+ * returned up to the quantity bought, across all non-rejected returns.
+ */
+export const createReturnRequest = async (
+  orderId: string,
+  input: CreateReturnInput,
+  adminId: string | null
+) => {
+  const id = await sequelize.transaction(async (t) => {
+    const order = await Order.findByPk(orderId, {
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+    if (!order) {
+      throw returnError(404, "ORDER_NOT_FOUND", "Order not found");
+    }
+    if (order.status !== OrderStatus.DELIVERED) {
+      throw returnError(
+        409,
+        "ORDER_NOT_RETURNABLE",
+        `Only delivered orders can be returned; this order is ${order.status}`
+      );
+    }
+
+    const orderItems = await OrderItem.findAll({
+      where: { orderId },
+      transaction: t,
+    });
+    const orderItemsById = new Map(orderItems.map((item) => [item.id, item]));
+
+    const alreadyReturned = await ReturnRequestItem.findAll({
+      where: { orderItemId: { [Op.in]: orderItems.map((item) => item.id) } },
+      include: [
+        {
+          model: ReturnRequest,
+          as: "returnRequest",
+          attributes: [],
+          where: { status: { [Op.in]: OPEN_RETURN_STATUSES } },
+        },
+      ],
+      attributes: ["orderItemId", "quantity"],
+      transaction: t,
+    });
+    const returnedQuantities = new Map<string, number>();
+    alreadyReturned.forEach((item) =>
+      returnedQuantities.set(
+        item.orderItemId,
+        (returnedQuantities.get(item.orderItemId) ?? 0) + item.quantity
+      )
+    );
+
+    const requested = new Map<string, number>();
+    for (const line of input.items) {
+      requested.set(line.orderItemId, (requested.get(line.orderItemId) ?? 0) + line.quantity);
+    }
+
+    for (const [orderItemId, quantity] of requested) {
+      const orderItem = orderItemsById.get(orderItemId);
+      if (!orderItem) {
+        throw returnError(400, "ORDER_ITEM_NOT_FOUND", "Item is not part of this order", {
+          orderItemId,
+        });
+      }
+      const returnable = orderItem.quantity - (returnedQuantities.get(orderItemId) ?? 0);
+      if (quantity > returnable) {
+        throw returnError(
+          409,
+          "RETURN_QUANTITY_EXCEEDED",
+          `Only ${returnable} unit(s) of this item can still be returned`,
+          { orderItemId, returnable, quantity }
+        );
+      }
+    }
+
+    const returnRequest = await ReturnRequest.create(
+      {
+        orderId,
+        reason: input.reason,
+        reasonNote: input.reasonNote ?? null,
+        createdByAdminId: adminId,
+      },
+      { transaction: t }
+    );
+
+    await ReturnRequestItem.bulkCreate(
+      [...requested].map(([orderItemId, quantity]) => {
+        const orderItem = orderItemsById.get(orderItemId)!;
+        return {
+          returnRequestId: returnRequest.id,
+          orderItemId,
+          productId: orderItem.productId,
+          quantity,
+          unitPrice: Number(orderItem.productSnapshot?.unitPrice ?? 0),
+        };
+      }),
+      { transaction: t }
+    );
+
+    return returnRequest.id;
+  });
+
+  return getReturnRequest(id);
+};
+
+/**
+ * Approve or reject a REQUESTED return
+ */
+export const decideReturnRequest = async (
+  id: string,
+  decision: ReturnStatus.APPROVED | ReturnStatus.REJECTED,
+  note?: string | null
+) => {
+  await sequelize.transaction(async (t) => {
+    const returnRequest = await lockReturn(id, t);
+    assertStatus(
+      returnRequest,
+      [ReturnStatus.REQUESTED],
+      decision === ReturnStatus.APPROVED ? "approve" : "reject"
+    );
+
+    await returnRequest.update(
+      {
+        status: decision,
+        adminNote: note ?? returnRequest.adminNote,
+        ...(decision === ReturnStatus.APPROVED
+          ? { approvedAt: new Date() }
+          : { rejectedAt: new Date() }),
+      },
+      { transaction: t }
+    );
+  });
+
+  return getReturnRequest(id);
+};
+
+/**
+ * Record the goods of an APPROVED return as back with the shop. Restocked
+ * items go back on sale through the stock ledger; written-off items stay
+ * out of stock.
+ */
+export const receiveReturnRequest = async (
+  id: string,
+  input: ReceiveReturnInput,
+  adminId: string | null
+) => {
+  await sequelize.transaction(async (t) => {
+    const returnRequest = await lockReturn(id, t);
+    assertStatus(returnRequest, [ReturnStatus.APPROVED], "receive");
+
+    const items = await ReturnRequestItem.findAll({
+      where: { returnRequestId: id },
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+    const overrides = new Map(
+      (input.items ?? []).map((item) => [item.returnItemId, item.disposition])
+    );
+    const unknown = [...overrides.keys()].filter(
+      (itemId) => !items.some((item) => item.id === itemId)
+    );
+    if (unknown.length > 0) {
+      throw returnError(400, "RETURN_ITEM_NOT_FOUND", "Item is not part of this return", {
+        returnItemIds: unknown,
+      });
+    }
+
+    // Lock products in a stable order to avoid deadlocks with orders
+    const restocked = items
+      .filter((item) => (overrides.get(item.id) ?? input.disposition) === ReturnDisposition.RESTOCK)
+      .sort((a, b) => a.productId.localeCompare(b.productId));
+
+    for (const item of restocked) {
+      const product = await Product.findByPk(item.productId, {
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
+      if (!product) continue;
+
+      await adjustStock(product, item.quantity, {
+        reason: StockMovementReason.RETURN,
+        referenceId: returnRequest.id,
+        adminId,
+        note: input.note ?? null,
+        transaction: t,
+      });
+    }
+
+    for (const item of items) {
+      await item.update(
+        { disposition: overrides.get(item.id) ?? input.disposition },
+        { transaction: t }
+      );
+    }
+
+    await returnRequest.update(
+      {
+        status: ReturnStatus.RECEIVED,
+        receivedAt: new Date(),
+        adminNote: input.note ?? returnRequest.adminNote,
+      },
+      { transaction: t }
+    );
+  });
+
+  return getReturnRequest(id);
+};
+
+/**
+ * Refund a return as a REFUND payment on its order. Returns that need no
+ * goods back, such as a cup broken in transit, can be refunded once
+ * approved.
+ */
+export const refundReturnRequest = async (
+  id: string,
+  input: RefundReturnInput,
+  adminId: string | null
+) => {
+  await sequelize.transaction(async (t) => {
+    const returnRequest = await lockReturn(id, t);
+    assertStatus(returnRequest, [ReturnStatus.APPROVED, ReturnStatus.RECEIVED], "refund");
+
+    const items = await ReturnRequestItem.findAll({
+      where: { returnRequestId: id },
+      transaction: t,
+    });
+    const itemsValue = items.reduce(
+      (sum, item) => sum + Number(item.unitPrice) * item.quantity,
+      0
+    );
+    const amount = input.amount ?? itemsValue;
+
+    if (amount <= 0) {
+      throw returnError(409, "NOTHING_TO_REFUND", "Return has no value to refund");
+    }
+
+    const { payment } = await recordOrderPayment(
+      returnRequest.orderId,
+      {
+        type: PaymentType.REFUND,
+        method: input.method,
+        amount,
+        referenceCode: input.referenceCode,
+        note: input.note,
+      },
+      adminId,
+      { transaction: t }
+    );
+
+    await returnRequest.update(
+      {
+        status: ReturnStatus.REFUNDED,
+        refundAmount: Number(payment.amount),
+        refundPaymentId: payment.id,
+        refundedAt: new Date(),
+      },
+      { transaction: t }
+    );
+  });
+
+  return getReturnRequest(id);
+};
+
+/**
+ * Total refunded through returns on DELIVERED orders placed in a period,
+ * to net off against revenue
+ */
+export const getRefundedAmount = async (
+  range: { dateFrom?: Date; dateTo?: Date } = {}
+): Promise<number> => {
+  const row = await sequelize.query<{ total: string | null }>(
+    `
+      SELECT COALESCE(SUM(r.refund_amount), 0) AS total
+      FROM return_requests r
+      INNER JOIN orders o ON r.order_id = o.id
+      WHERE r.status = 'REFUNDED'
+        AND o.status = 'DELIVERED'
+        ${range.dateFrom ? "AND o.created_at >= :dateFrom" : ""}
+        ${range.dateTo ? "AND o.created_at < :dateTo" : ""}
+    `,
+    {
+      replacements: {
+        ...(range.dateFrom && { dateFrom: range.dateFrom }),
+        ...(range.dateTo && { dateTo: range.dateTo }),
+      },
+      type: QueryTypes.SELECT,
+      plain: true,
+    }
+  );
+
+  return Number(row?.total || 0);
+};
+
+/**
+ * Units of each order item already put back in stock by received returns,
+ * keyed by order item id
+ */
+export const getRestockedQuantities = async (
+  orderId: string,
+  t?: Transaction
+): Promise<Map<string, number>> => {
+  const items = await ReturnRequestItem.findAll({
+    where: { disposition: ReturnDisposition.RESTOCK },
+    attributes: ["orderItemId", "quantity"],
+    include: [
+      {
+        model: ReturnRequest,
+        as: "returnRequest",
+        attributes: [],
+        where: { orderId },
+      },
+    ],
+    transaction: t,
+  });
+
+  const restocked = new Map<string, number>();
+  for (const item of items) {
+    restocked.set(item.orderItemId, (restocked.get(item.orderItemId) ?? 0) + item.quantity);
+  }
+  return restocked;
+};
+
+/**
+ * Whether an order has returns that are open or already received
+ */
+export const hasActiveReturns = async (orderId: string, t?: Transaction): Promise<boolean> =>
+  (await ReturnRequest.count({
+    where: { orderId, status: { [Op.in]: OPEN_RETURN_STATUSES } },
+    transaction: t,
+  })) > 0;
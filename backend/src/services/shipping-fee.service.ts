@@ -0,0 +1,293 @@
+import { Transaction } from "sequelize";
+import { Customer, Setting } from "../models";
+import { removeVietnameseDiacritics } from "../utils/vietnamese-slug";
+
+const SHIPPING_FEE_RULES_KEY = "shippingFeeRules";
+const CACHE_TTL_MS = 30_000;
+const MAX_ZONES = 200;
+
+export interface ShippingZoneRule {
+  city: string;
+  /** Leave empty to cover the whole city */
+  district?: string | null;
+  fee: number;
+}
+
+export interface ShippingFeeRulesDto {
+  enabled: boolean;
+  /** Fee for addresses no zone covers */
+  defaultFee: number;
+  zones: ShippingZoneRule[];
+  /** Cups shipped for the base fee before the surcharge applies */
+  includedCups: number;
+  surchargePerCup: number;
+  /** Merchandise subtotal from which shipping is free; null disables it */
+  freeShippingThreshold: number | null;
+  /** Percentage of the shipping fee waived for VIP customers */
+  vipDiscountPercent: number;
+}
+
+export interface ShippingFeeInput {
+  city?: string | null;
+  district?: string | null;
+  /** Total number of cups in the order */
+  itemQuantity: number;
+  /** Merchandise subtotal, shipping excluded */
+  subtotal: number;
+  isVip?: boolean;
+  /** Admin-entered fee, used instead of the zone fee and surcharge */
+  originalShippingCost?: number;
+}
+
+export interface ShippingFeeBreakdown {
+  zone: { city: string; district: string | null } | null;
+  baseFee: number;
+  surchargeCups: number;
+  weightSurcharge: number;
+  originalShippingCost: number;
+  freeShipping: boolean;
+  vipDiscount: number;
+  shippingDiscount: number;
+  shippingCost: number;
+  /** True when originalShippingCost came from the admin, not the rules */
+  overridden: boolean;
+}
+
+const DEFAULT_SHIPPING_FEE_RULES: ShippingFeeRulesDto = {
+  enabled: false,
+  defaultFee: 30_000,
+  zones: [],
+  includedCups: 2,
+  surchargePerCup: 5_000,
+  freeShippingThreshold: null,
+  vipDiscountPercent: 0,
+};
+
+let shippingFeeRulesCache:
+  | { value: ShippingFeeRulesDto; expiresAt: number }
+  | null = null;
+
+const clamp = (value: number, min: number, max: number): number => {
+  if (!Number.isFinite(value)) return min;
+  if (value < min) return min;
+  if (value > max) return max;
+  return value;
+};
+
+const money = (value: unknown, fallback: number): number =>
+  value !== undefined && value !== null && value !== ""
+    ? Math.round(clamp(Number(value), 0, 100_000_000))
+    : fallback;
+
+/**
+ * Compare place names without diacritics or administrative prefixes,
+ * so "TP. Hồ Chí Minh" matches "Hồ Chí Minh" and "Q.1" matches "Quận 1"
+ */
+const normalizePlace = (value: string | null | undefined): string =>
+  removeVietnameseDiacritics(value || "")
+    .toLowerCase()
+    .replace(/[.,]/g, " ")
+    .replace(/^\s*(thanh pho|tp|tinh|quan|q|huyen|thi xa|tx)\s+/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const parseStoredValue = (raw: unknown): Partial<ShippingFeeRulesDto> => {
+  if (!raw) return {};
+
+  let parsed: unknown = raw;
+  if (typeof parsed === "string") {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return {};
+    }
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return {};
+  }
+
+  return parsed as Partial<ShippingFeeRulesDto>;
+};
+
+const sanitizeShippingFeeRules = (
+  input: Partial<ShippingFeeRulesDto>
+): ShippingFeeRulesDto => {
+  const zones = Array.isArray(input.zones) ? input.zones : [];
+
+  return {
+    enabled:
+      typeof input.enabled === "boolean"
+        ? input.enabled
+        : DEFAULT_SHIPPING_FEE_RULES.enabled,
+    defaultFee: money(input.defaultFee, DEFAULT_SHIPPING_FEE_RULES.defaultFee),
+    zones: zones
+      .filter((zone) => zone && typeof zone.city === "string" && zone.city.trim())
+      .slice(0, MAX_ZONES)
+      .map((zone) => ({
+        city: zone.city.trim(),
+        district:
+          typeof zone.district === "string" && zone.district.trim()
+            ? zone.district.trim()
+            : null,
+        fee: money(zone.fee, DEFAULT_SHIPPING_FEE_RULES.defaultFee),
+      })),
+    includedCups:
+      input.includedCups !== undefined
+        ? Math.round(clamp(Number(input.includedCups), 0, 1000))
+        : DEFAULT_SHIPPING_FEE_RULES.includedCups,
+    surchargePerCup: money(
+      input.surchargePerCup,
+      DEFAULT_SHIPPING_FEE_RULES.surchargePerCup
+    ),
+    freeShippingThreshold:
+      input.freeShippingThreshold !== undefined && input.freeShippingThreshold !== null
+        ? money(input.freeShippingThreshold, 0)
+        : DEFAULT_SHIPPING_FEE_RULES.freeShippingThreshold,
+    vipDiscountPercent:
+      input.vipDiscountPercent !== undefined
+        ? clamp(Number(input.vipDiscountPercent), 0, 100)
+        : DEFAULT_SHIPPING_FEE_RULES.vipDiscountPercent,
+  };
+};
+
+export const getShippingFeeRules = async (): Promise<ShippingFeeRulesDto> => {
+  const now = Date.now();
+  if (shippingFeeRulesCache && shippingFeeRulesCache.expiresAt > now) {
+    return { ...shippingFeeRulesCache.value };
+  }
+
+  const setting = await Setting.findOne({
+    where: { key: SHIPPING_FEE_RULES_KEY },
+  });
+
+  const value = sanitizeShippingFeeRules(
+    setting ? parseStoredValue(setting.value) : {}
+  );
+
+  shippingFeeRulesCache = {
+    value,
+    expiresAt: now + CACHE_TTL_MS,
+  };
+
+  return { ...value };
+};
+
+export const updateShippingFeeRules = async (
+  payload: Partial<ShippingFeeRulesDto>
+): Promise<ShippingFeeRulesDto> => {
+  const current = await getShippingFeeRules();
+  const next = sanitizeShippingFeeRules({
+    ...current,
+    ...payload,
+  });
+
+  const [setting] = await Setting.findOrCreate({
+    where: { key: SHIPPING_FEE_RULES_KEY },
+    defaults: {
+      key: SHIPPING_FEE_RULES_KEY,
+      value: next,
+      description: "Shipping fee rules",
+    },
+  });
+
+  setting.value = next;
+  setting.changed("value", true);
+  if (!setting.description) {
+    setting.description = "Shipping fee rules";
+  }
+  await setting.save();
+
+  shippingFeeRulesCache = {
+    value: next,
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  };
+
+  return { ...next };
+};
+
+/**
+ * Most specific zone for an address: a city + district zone wins over a
+ * whole-city zone
+ */
+const findZone = (
+  zones: ShippingZoneRule[],
+  city: string | null | undefined,
+  district: string | null | undefined
+): ShippingZoneRule | null => {
+  const cityKey = normalizePlace(city);
+  if (!cityKey) return null;
+
+  const districtKey = normalizePlace(district);
+  const cityZones = zones.filter((zone) => normalizePlace(zone.city) === cityKey);
+
+  return (
+    (districtKey &&
+      cityZones.find((zone) => normalizePlace(zone.district) === districtKey)) ||
+    cityZones.find((zone) => !zone.district) ||
+    null
+  );
+};
+
+/**
+ * Apply the rules to an order. Free shipping above the threshold takes
+ * precedence over the VIP discount; the two never stack.
+ */
+export const calculateShippingFee = (
+  rules: ShippingFeeRulesDto,
+  input: ShippingFeeInput
+): ShippingFeeBreakdown => {
+  const zone = findZone(rules.zones, input.city, input.district);
+  const baseFee = zone ? zone.fee : rules.defaultFee;
+  const surchargeCups = Math.max(0, input.itemQuantity - rules.includedCups);
+  const weightSurcharge = surchargeCups * rules.surchargePerCup;
+
+  const overridden = input.originalShippingCost !== undefined;
+  const originalShippingCost = overridden
+    ? (input.originalShippingCost as number)
+    : baseFee + weightSurcharge;
+
+  const freeShipping =
+    rules.freeShippingThreshold !== null &&
+    input.subtotal >= rules.freeShippingThreshold;
+  const vipDiscount =
+    !freeShipping && input.isVip
+      ? Math.round((originalShippingCost * rules.vipDiscountPercent) / 100)
+      : 0;
+  const shippingDiscount = Math.min(
+    originalShippingCost,
+    freeShipping ? originalShippingCost : vipDiscount
+  );
+
+  return {
+    zone: zone ? { city: zone.city, district: zone.district ?? null } : null,
+    baseFee,
+    surchargeCups,
+    weightSurcharge,
+    originalShippingCost,
+    freeShipping,
+    vipDiscount,
+    shippingDiscount,
+    shippingCost: Math.max(0, originalShippingCost - shippingDiscount),
+    overridden,
+  };
+};
+
+/**
+ * Suggested shipping fee for an order, or null when the rules are disabled
+ */
+export const suggestShippingFee = async (
+  customerId: string,
+  input: Omit<ShippingFeeInput, "isVip">,
+  transaction?: Transaction
+): Promise<ShippingFeeBreakdown | null> => {
+  const rules = await getShippingFeeRules();
+  if (!rules.enabled) return null;
+
+  const customer = await Customer.findByPk(customerId, {
+    attributes: ["id", "isVip"],
+    transaction,
+  });
+
+  return calculateShippingFee(rules, { ...input, isVip: !!customer?.isVip });
+};
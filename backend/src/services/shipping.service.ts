@@ -0,0 +1,343 @@
+import { sequelize } from "../config/database";
+import {
+  Customer,
+  CustomerPhone,
+  Order,
+  OrderItem,
+  OrderStatus,
+  Payment,
+} from "../models";
+import { logger } from "@/utils/logger";
+import { changeOrderStatus } from "./order-status.service";
+import { summarizeOrderPayments } from "./payment.service";
+import {
+  getShippingProvider,
+  ShipmentProgress,
+  ShippingAddress,
+  ShippingParcel,
+  ShippingProviderCode,
+} from "./shipping";
+
+const DEFAULT_ITEM_WEIGHT_GRAMS =
+  Number(process.env.SHIPPING_DEFAULT_ITEM_WEIGHT_GRAMS) || 500;
+
+// Default box size in cm
+const DEFAULT_PARCEL_SIZE = { lengthCm: 20, widthCm: 15, heightCm: 15 };
+
+/**
+ * Forward path an order follows while with the carrier. Webhooks only move
+ * orders forward along it and never undo a manual change.
+ */
+const FULFILMENT_FLOW = [
+  OrderStatus.CONFIRMED,
+  OrderStatus.PROCESSING,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+];
+
+const PROGRESS_TARGET_STATUS: Partial<Record<ShipmentProgress, OrderStatus>> = {
+  [ShipmentProgress.PICKED_UP]: OrderStatus.SHIPPED,
+  [ShipmentProgress.IN_TRANSIT]: OrderStatus.SHIPPED,
+  [ShipmentProgress.DELIVERED]: OrderStatus.DELIVERED,
+};
+
+export interface ShippingOptions {
+  /** Parcel weight override, defaults to a per-item estimate */
+  weightGrams?: number;
+}
+
+export interface QuoteShippingOptions extends ShippingOptions {
+  /** Store the fee as the order's original shipping cost */
+  apply?: boolean;
+}
+
+export interface CreateShipmentOptions extends ShippingOptions {
+  note?: string;
+  adminId?: string | null;
+}
+
+const loadOrder = async (orderId: string) => {
+  const order = await Order.findByPk(orderId, {
+    include: [
+      {
+        model: Customer,
+        as: "customer",
+        attributes: ["id", "fullName"],
+        include: [
+          {
+            model: CustomerPhone,
+            as: "customerPhones",
+            attributes: ["id", "phoneNumber", "isMain"],
+          },
+        ],
+      },
+      {
+        model: OrderItem,
+        as: "items",
+        attributes: ["id", "productId", "quantity", "productSnapshot"],
+      },
+      {
+        model: Payment,
+        as: "payments",
+        attributes: ["id", "type", "amount", "status"],
+      },
+    ],
+  });
+
+  if (!order) {
+    throw { status: 404, code: "ORDER_NOT_FOUND", message: "Order not found" };
+  }
+
+  return order;
+};
+
+/**
+ * Receiver address from the order's delivery address, falling back to the
+ * customer's name and main phone
+ */
+const toShippingAddress = (order: Order): ShippingAddress => {
+  const address = order.deliveryAddress || {};
+  const phones: any[] = order.customer?.customerPhones || [];
+
+  const receiver: ShippingAddress = {
+    fullName: address.fullName || order.customer?.fullName || "",
+    phoneNumber:
+      address.phoneNumber ||
+      order.customerMainPhone ||
+      phones.find((phone) => phone.isMain)?.phoneNumber ||
+      phones[0]?.phoneNumber ||
+      "",
+    addressLine: [address.addressLine ?? address.addressLine1, address.addressLine2]
+      .filter((part) => typeof part === "string" && part.trim())
+      .join(", "),
+    ward: address.ward || undefined,
+    district: address.district || undefined,
+    city: address.city || "",
+  };
+
+  const missing = (["fullName", "phoneNumber", "addressLine", "city"] as const).filter(
+    (key) => !receiver[key]
+  );
+  if (missing.length > 0) {
+    throw {
+      status: 400,
+      code: "SHIPPING_ADDRESS_INCOMPLETE",
+      message: "Order delivery address is incomplete",
+      details: { missing },
+    };
+  }
+
+  return receiver;
+};
+
+const toParcel = (order: Order, options: ShippingOptions): ShippingParcel => {
+  const items = order.items || [];
+  const quantity = items.reduce((sum, item) => sum + item.quantity, 0) || 1;
+  const summary = summarizeOrderPayments(order.totalAmount, order.payments || []);
+
+  return {
+    weightGrams: options.weightGrams ?? quantity * DEFAULT_ITEM_WEIGHT_GRAMS,
+    ...DEFAULT_PARCEL_SIZE,
+    valueAmount: Number(order.totalAmount) - Number(order.shippingCost || 0),
+    codAmount: summary.balanceDue,
+  };
+};
+
+const toShipmentItems = (order: Order) =>
+  (order.items || []).map((item) => {
+    const snapshot = item.productSnapshot || {};
+    return {
+      name: snapshot.name || "Sản phẩm",
+      quantity: item.quantity,
+      priceAmount: Number(snapshot.unitPrice ?? 0),
+    };
+  });
+
+/**
+ * Quote the carrier fee for an order. With `apply`, the fee becomes the
+ * order's original shipping cost and the total is recalculated, keeping
+ * the existing shipping discount.
+ */
+export const quoteOrderShipping = async (
+  orderId: string,
+  providerCode: string,
+  options: QuoteShippingOptions = {}
+) => {
+  const provider = getShippingProvider(providerCode);
+  const order = await loadOrder(orderId);
+
+  const quote = await provider.quote({
+    to: toShippingAddress(order),
+    parcel: toParcel(order, options),
+  });
+
+  if (!options.apply) {
+    return { quote, order: null };
+  }
+
+  const updated = await sequelize.transaction(async (t) => {
+    const locked = await Order.findByPk(orderId, {
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+
+    if (!locked) {
+      throw { status: 404, code: "ORDER_NOT_FOUND", message: "Order not found" };
+    }
+
+    if (
+      locked.status === OrderStatus.CANCELLED ||
+      locked.status === OrderStatus.DELIVERED
+    ) {
+      throw {
+        status: 409,
+        code: "ORDER_NOT_EDITABLE",
+        message: `Cannot change shipping cost of a ${locked.status} order`,
+      };
+    }
+
+    const shippingCost = Math.max(0, quote.fee - Number(locked.shippingDiscount || 0));
+    const totalAmount =
+      Number(locked.totalAmount) - Number(locked.shippingCost || 0) + shippingCost;
+
+    return locked.update(
+      { originalShippingCost: quote.fee, shippingCost, totalAmount },
+      { transaction: t }
+    );
+  });
+
+  return { quote, order: updated };
+};
+
+/**
+ * Book a shipment with the carrier and store its tracking code and label.
+ * A CONFIRMED order moves to PROCESSING once the shipment exists.
+ */
+export const createOrderShipment = async (
+  orderId: string,
+  providerCode: string,
+  options: CreateShipmentOptions = {}
+) => {
+  const provider = getShippingProvider(providerCode);
+  const order = await loadOrder(orderId);
+
+  if (order.trackingCode) {
+    throw {
+      status: 409,
+      code: "SHIPMENT_EXISTS",
+      message: `Order already has shipment ${order.trackingCode}`,
+      details: {
+        provider: order.shippingProvider,
+        trackingCode: order.trackingCode,
+      },
+    };
+  }
+
+  if (
+    order.status !== OrderStatus.CONFIRMED &&
+    order.status !== OrderStatus.PROCESSING
+  ) {
+    throw {
+      status: 409,
+      code: "ORDER_NOT_READY_TO_SHIP",
+      message: `Cannot ship an order with status ${order.status}`,
+    };
+  }
+
+  const shipment = await provider.createShipment({
+    orderNumber: order.orderNumber,
+    to: toShippingAddress(order),
+    parcel: toParcel(order, options),
+    items: toShipmentItems(order),
+    note: options.note,
+  });
+
+  // The carrier already holds the shipment, so from here only record it
+  return sequelize.transaction(async (t) => {
+    const locked = await Order.findByPk(orderId, {
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+
+    if (!locked) {
+      throw { status: 404, code: "ORDER_NOT_FOUND", message: "Order not found" };
+    }
+
+    await locked.update(
+      {
+        shippingProvider: provider.code,
+        trackingCode: shipment.trackingCode,
+        shippingLabelUrl: shipment.labelUrl,
+        shippingStatus: ShipmentProgress.READY_TO_PICK,
+      },
+      { transaction: t }
+    );
+
+    if (locked.status === OrderStatus.CONFIRMED) {
+      const { order: processing } = await changeOrderStatus(
+        orderId,
+        OrderStatus.PROCESSING,
+        {
+          notes: `Shipment ${shipment.trackingCode} created with ${provider.name}`,
+          adminId: options.adminId ?? null,
+          transaction: t,
+        }
+      );
+      return { order: processing, shipment };
+    }
+
+    return { order: locked, shipment };
+  });
+};
+
+/**
+ * Apply a carrier webhook. Unknown tracking codes are ignored so carriers
+ * do not keep retrying them.
+ */
+export const handleShippingWebhook = async (
+  providerCode: ShippingProviderCode,
+  body: any
+): Promise<{ handled: boolean; orderId?: string; status?: OrderStatus }> => {
+  const provider = getShippingProvider(providerCode);
+  const update = provider.parseWebhook(body);
+
+  if (!update) {
+    return { handled: false };
+  }
+
+  return sequelize.transaction(async (t) => {
+    const order = await Order.findOne({
+      where: { trackingCode: update.trackingCode, shippingProvider: provider.code },
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+
+    if (!order) {
+      logger.warn(
+        `Shipping webhook from ${provider.name} for unknown tracking code ${update.trackingCode}`
+      );
+      return { handled: false };
+    }
+
+    await order.update({ shippingStatus: update.rawStatus }, { transaction: t });
+
+    const target = PROGRESS_TARGET_STATUS[update.progress];
+    const fromIndex = FULFILMENT_FLOW.indexOf(order.status);
+    const targetIndex = target ? FULFILMENT_FLOW.indexOf(target) : -1;
+
+    // PENDING and CANCELLED orders, and orders already past the target, stay put
+    if (fromIndex === -1 || targetIndex <= fromIndex) {
+      return { handled: true, orderId: order.id, status: order.status };
+    }
+
+    for (const status of FULFILMENT_FLOW.slice(fromIndex + 1, targetIndex + 1)) {
+      await changeOrderStatus(order.id, status, {
+        notes: `${provider.name}: ${update.rawStatus}`,
+        adminId: null,
+        transaction: t,
+      });
+    }
+
+    return { handled: true, orderId: order.id, status: target };
+  });
+};
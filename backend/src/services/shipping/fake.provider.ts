@@ -0,0 +1,68 @@
+import { randomBytes } from "crypto";
+import {
+  CreatedShipment,
+  CreateShipmentRequest,
+  ShipmentProgress,
+  ShipmentStatusUpdate,
+  ShippingProvider,
+  ShippingProviderCode,
+  ShippingQuote,
+  ShippingQuoteRequest,
+} from "./shipping-provider";
+
+const BASE_FEE = 20_000;
+const FEE_PER_EXTRA_500G = 5_000;
+
+/**
+ * Local provider for development and tests: deterministic fees, no network.
+ * Webhooks take `{ trackingCode, status }` with a ShipmentProgress value.
+ */
+class FakeShippingProvider implements ShippingProvider {
+  readonly code = ShippingProviderCode.FAKE;
+  readonly name = "Fake carrier";
+
+  isConfigured(): boolean {
+    return (
+      process.env.NODE_ENV !== "production" ||
+      process.env.SHIPPING_FAKE_ENABLED === "true"
+    );
+  }
+
+  async quote({ parcel }: ShippingQuoteRequest): Promise<ShippingQuote> {
+    const extraSteps = Math.max(0, Math.ceil((parcel.weightGrams - 500) / 500));
+    return {
+      provider: this.code,
+      fee: BASE_FEE + extraSteps * FEE_PER_EXTRA_500G,
+      estimatedDeliveryAt: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000),
+    };
+  }
+
+  async createShipment(request: CreateShipmentRequest): Promise<CreatedShipment> {
+    const quote = await this.quote(request);
+    return {
+      trackingCode: `FAKE${randomBytes(5).toString("hex").toUpperCase()}`,
+      labelUrl: null,
+      fee: quote.fee,
+      estimatedDeliveryAt: quote.estimatedDeliveryAt,
+    };
+  }
+
+  parseWebhook(body: any): ShipmentStatusUpdate | null {
+    if (!body?.trackingCode || !body?.status) return null;
+
+    const status = String(body.status).toUpperCase();
+    const progress = Object.values(ShipmentProgress).includes(status as ShipmentProgress)
+      ? (status as ShipmentProgress)
+      : ShipmentProgress.UNKNOWN;
+
+    return {
+      trackingCode: String(body.trackingCode),
+      orderNumber: body.orderNumber || null,
+      progress,
+      rawStatus: status,
+      occurredAt: null,
+    };
+  }
+}
+
+export const fakeShippingProvider = new FakeShippingProvider();
@@ -0,0 +1,165 @@
+import {
+  carrierRequest,
+  CreatedShipment,
+  CreateShipmentRequest,
+  ShipmentProgress,
+  ShipmentStatusUpdate,
+  ShippingProvider,
+  ShippingProviderCode,
+  ShippingQuote,
+  ShippingQuoteRequest,
+} from "./shipping-provider";
+
+const GHN_API_URL =
+  process.env.GHN_API_URL || "https://online-gateway.ghn.vn/shiip/public-api";
+const GHN_PRINT_URL =
+  process.env.GHN_PRINT_URL || "https://online-gateway.ghn.vn/a5/public-api/printA5";
+
+// Standard e-commerce delivery
+const GHN_SERVICE_TYPE_ID = 2;
+
+const STATUS_MAP: Record<string, ShipmentProgress> = {
+  ready_to_pick: ShipmentProgress.READY_TO_PICK,
+  picking: ShipmentProgress.READY_TO_PICK,
+  money_collect_picking: ShipmentProgress.READY_TO_PICK,
+  picked: ShipmentProgress.PICKED_UP,
+  storing: ShipmentProgress.IN_TRANSIT,
+  transporting: ShipmentProgress.IN_TRANSIT,
+  sorting: ShipmentProgress.IN_TRANSIT,
+  delivering: ShipmentProgress.IN_TRANSIT,
+  money_collect_delivering: ShipmentProgress.IN_TRANSIT,
+  delivered: ShipmentProgress.DELIVERED,
+  delivery_fail: ShipmentProgress.DELIVERY_FAILED,
+  waiting_to_return: ShipmentProgress.DELIVERY_FAILED,
+  return: ShipmentProgress.RETURNED,
+  return_transporting: ShipmentProgress.RETURNED,
+  return_sorting: ShipmentProgress.RETURNED,
+  returning: ShipmentProgress.RETURNED,
+  returned: ShipmentProgress.RETURNED,
+  cancel: ShipmentProgress.CANCELLED,
+};
+
+/**
+ * Giao Hàng Nhanh (GHN). The sender address is configured on the GHN shop,
+ * receivers are sent by name (ward/district/province).
+ */
+class GhnProvider implements ShippingProvider {
+  readonly code = ShippingProviderCode.GHN;
+  readonly name = "Giao Hàng Nhanh";
+
+  private get headers() {
+    return {
+      Token: process.env.GHN_API_TOKEN || "",
+      ShopId: process.env.GHN_SHOP_ID || "",
+    };
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.GHN_API_TOKEN && !!process.env.GHN_SHOP_ID;
+  }
+
+  private parcelFields({ parcel }: ShippingQuoteRequest) {
+    return {
+      weight: Math.round(parcel.weightGrams),
+      length: Math.round(parcel.lengthCm),
+      width: Math.round(parcel.widthCm),
+      height: Math.round(parcel.heightCm),
+      insurance_value: Math.round(parcel.valueAmount),
+      cod_value: Math.round(parcel.codAmount),
+    };
+  }
+
+  private receiverFields({ to }: ShippingQuoteRequest) {
+    return {
+      to_ward_name: to.ward || undefined,
+      to_district_name: to.district || undefined,
+      to_province_name: to.city,
+    };
+  }
+
+  async quote(request: ShippingQuoteRequest): Promise<ShippingQuote> {
+    const response = await carrierRequest(this.name, `${GHN_API_URL}/v2/shipping-order/fee`, {
+      method: "POST",
+      headers: this.headers,
+      body: {
+        service_type_id: GHN_SERVICE_TYPE_ID,
+        ...this.receiverFields(request),
+        ...this.parcelFields(request),
+      },
+    });
+
+    return { provider: this.code, fee: Number(response.data?.total ?? 0) };
+  }
+
+  async createShipment(request: CreateShipmentRequest): Promise<CreatedShipment> {
+    const { to, parcel } = request;
+    const response = await carrierRequest(this.name, `${GHN_API_URL}/v2/shipping-order/create`, {
+      method: "POST",
+      headers: this.headers,
+      body: {
+        payment_type_id: 1, // Shop pays the carrier fee
+        required_note: "CHOXEMHANGKHONGTHU",
+        client_order_code: request.orderNumber,
+        to_name: to.fullName,
+        to_phone: to.phoneNumber,
+        to_address: to.addressLine,
+        ...this.receiverFields(request),
+        ...this.parcelFields(request),
+        cod_amount: Math.round(parcel.codAmount),
+        service_type_id: GHN_SERVICE_TYPE_ID,
+        note: request.note,
+        items: request.items.map((item) => ({
+          name: item.name,
+          quantity: item.quantity,
+          price: Math.round(item.priceAmount),
+        })),
+      },
+    });
+
+    const orderCode: string = response.data?.order_code;
+    if (!orderCode) {
+      throw {
+        status: 502,
+        code: "SHIPPING_PROVIDER_ERROR",
+        message: response.message || "GHN did not return an order code",
+      };
+    }
+
+    // Print tokens are short-lived, so the label URL is best effort
+    let labelUrl: string | null = null;
+    try {
+      const token = await carrierRequest(this.name, `${GHN_API_URL}/v2/a5/gen-token`, {
+        method: "POST",
+        headers: this.headers,
+        body: { order_codes: [orderCode] },
+      });
+      if (token.data?.token) labelUrl = `${GHN_PRINT_URL}?token=${token.data.token}`;
+    } catch {
+      labelUrl = null;
+    }
+
+    return {
+      trackingCode: orderCode,
+      labelUrl,
+      fee: Number(response.data?.total_fee ?? 0),
+      estimatedDeliveryAt: response.data?.expected_delivery_time
+        ? new Date(response.data.expected_delivery_time)
+        : null,
+    };
+  }
+
+  parseWebhook(body: any): ShipmentStatusUpdate | null {
+    if (!body?.OrderCode || !body?.Status) return null;
+
+    const status = String(body.Status).toLowerCase();
+    return {
+      trackingCode: String(body.OrderCode),
+      orderNumber: body.ClientOrderCode || null,
+      progress: STATUS_MAP[status] ?? ShipmentProgress.UNKNOWN,
+      rawStatus: status,
+      occurredAt: body.Time ? new Date(body.Time) : null,
+    };
+  }
+}
+
+export const ghnProvider = new GhnProvider();
@@ -0,0 +1,152 @@
+import {
+  carrierRequest,
+  CreatedShipment,
+  CreateShipmentRequest,
+  getSenderAddress,
+  ShipmentProgress,
+  ShipmentStatusUpdate,
+  ShippingProvider,
+  ShippingProviderCode,
+  ShippingQuote,
+  ShippingQuoteRequest,
+} from "./shipping-provider";
+
+const GHTK_API_URL =
+  process.env.GHTK_API_URL || "https://services.giaohangtietkiem.vn";
+
+const STATUS_MAP: Record<number, ShipmentProgress> = {
+  [-1]: ShipmentProgress.CANCELLED,
+  1: ShipmentProgress.READY_TO_PICK,
+  2: ShipmentProgress.READY_TO_PICK,
+  12: ShipmentProgress.READY_TO_PICK,
+  3: ShipmentProgress.PICKED_UP,
+  4: ShipmentProgress.IN_TRANSIT,
+  10: ShipmentProgress.IN_TRANSIT,
+  5: ShipmentProgress.DELIVERED,
+  6: ShipmentProgress.DELIVERED,
+  45: ShipmentProgress.DELIVERED,
+  9: ShipmentProgress.DELIVERY_FAILED,
+  49: ShipmentProgress.DELIVERY_FAILED,
+  20: ShipmentProgress.RETURNED,
+  21: ShipmentProgress.RETURNED,
+  11: ShipmentProgress.RETURNED,
+};
+
+/**
+ * Giao Hàng Tiết Kiệm (GHTK). Pickup address comes from SHIPPING_SENDER_*.
+ */
+class GhtkProvider implements ShippingProvider {
+  readonly code = ShippingProviderCode.GHTK;
+  readonly name = "Giao Hàng Tiết Kiệm";
+
+  private get headers() {
+    return { Token: process.env.GHTK_API_TOKEN || "" };
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.GHTK_API_TOKEN;
+  }
+
+  async quote({ to, parcel }: ShippingQuoteRequest): Promise<ShippingQuote> {
+    const sender = getSenderAddress();
+    const params = new URLSearchParams({
+      pick_province: sender.city,
+      pick_district: sender.district,
+      province: to.city,
+      district: to.district || "",
+      address: to.addressLine,
+      weight: String(Math.round(parcel.weightGrams)),
+      value: String(Math.round(parcel.valueAmount)),
+      transport: "road",
+      deliver_option: "none",
+    });
+
+    const response = await carrierRequest(
+      this.name,
+      `${GHTK_API_URL}/services/shipment/fee?${params.toString()}`,
+      { headers: this.headers }
+    );
+
+    if (!response.success) {
+      throw {
+        status: 502,
+        code: "SHIPPING_PROVIDER_ERROR",
+        message: response.message || "GHTK could not quote this address",
+      };
+    }
+
+    return { provider: this.code, fee: Number(response.fee?.fee ?? 0) };
+  }
+
+  async createShipment(request: CreateShipmentRequest): Promise<CreatedShipment> {
+    const { to, parcel } = request;
+    const sender = getSenderAddress();
+    const totalQuantity = request.items.reduce((sum, item) => sum + item.quantity, 0) || 1;
+
+    const response = await carrierRequest(this.name, `${GHTK_API_URL}/services/shipment/order`, {
+      method: "POST",
+      headers: this.headers,
+      body: {
+        // GHTK expects product weights in kilograms
+        products: request.items.map((item) => ({
+          name: item.name,
+          quantity: item.quantity,
+          price: Math.round(item.priceAmount),
+          weight: Number(((parcel.weightGrams / totalQuantity) / 1000).toFixed(3)),
+        })),
+        order: {
+          id: request.orderNumber,
+          pick_name: sender.fullName,
+          pick_tel: sender.phoneNumber,
+          pick_address: sender.addressLine,
+          pick_ward: sender.ward,
+          pick_district: sender.district,
+          pick_province: sender.city,
+          name: to.fullName,
+          tel: to.phoneNumber,
+          address: to.addressLine,
+          ward: to.ward || undefined,
+          district: to.district || "",
+          province: to.city,
+          hamlet: "Khác",
+          is_freeship: "1", // Shop pays the carrier fee
+          pick_money: Math.round(parcel.codAmount),
+          value: Math.round(parcel.valueAmount),
+          note: request.note,
+        },
+      },
+    });
+
+    if (!response.success || !response.order?.label) {
+      throw {
+        status: 502,
+        code: "SHIPPING_PROVIDER_ERROR",
+        message: response.message || "GHTK did not return a label",
+      };
+    }
+
+    const label: string = response.order.label;
+    return {
+      trackingCode: label,
+      // Requires the shop token when opened
+      labelUrl: `${GHTK_API_URL}/services/label/${label}`,
+      fee: Number(response.order.fee ?? 0),
+      estimatedDeliveryAt: null,
+    };
+  }
+
+  parseWebhook(body: any): ShipmentStatusUpdate | null {
+    if (!body?.label_id || body?.status_id === undefined) return null;
+
+    const statusId = Number(body.status_id);
+    return {
+      trackingCode: String(body.label_id),
+      orderNumber: body.partner_id || null,
+      progress: STATUS_MAP[statusId] ?? ShipmentProgress.UNKNOWN,
+      rawStatus: String(statusId),
+      occurredAt: body.action_time ? new Date(body.action_time) : null,
+    };
+  }
+}
+
+export const ghtkProvider = new GhtkProvider();
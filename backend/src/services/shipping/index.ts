@@ -0,0 +1,46 @@
+import { fakeShippingProvider } from "./fake.provider";
+import { ghnProvider } from "./ghn.provider";
+import { ghtkProvider } from "./ghtk.provider";
+import { ShippingProvider, ShippingProviderCode } from "./shipping-provider";
+import { viettelPostProvider } from "./viettel-post.provider";
+
+export * from "./shipping-provider";
+
+const providers: Record<ShippingProviderCode, ShippingProvider> = {
+  [ShippingProviderCode.GHN]: ghnProvider,
+  [ShippingProviderCode.GHTK]: ghtkProvider,
+  [ShippingProviderCode.VIETTEL_POST]: viettelPostProvider,
+  [ShippingProviderCode.FAKE]: fakeShippingProvider,
+};
+
+export const listShippingProviders = () =>
+  Object.values(providers).map((provider) => ({
+    code: provider.code,
+    name: provider.name,
+    configured: provider.isConfigured(),
+  }));
+
+/**
+ * Resolve a configured provider, thrown as `{ status, code, message }` otherwise
+ */
+export const getShippingProvider = (code: string): ShippingProvider => {
+  const provider = providers[code as ShippingProviderCode];
+
+  if (!provider) {
+    throw {
+      status: 400,
+      code: "UNKNOWN_SHIPPING_PROVIDER",
+      message: `Unknown shipping provider: ${code}`,
+    };
+  }
+
+  if (!provider.isConfigured()) {
+    throw {
+      status: 409,
+      code: "SHIPPING_PROVIDER_NOT_CONFIGURED",
+      message: `${provider.name} is not configured`,
+    };
+  }
+
+  return provider;
+};
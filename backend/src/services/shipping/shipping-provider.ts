@@ -0,0 +1,146 @@
+/**
+ * Shipping provider abstraction
+ * Every carrier adapter implements ShippingProvider so orders can be
+ * quoted, shipped and tracked without knowing which carrier is used.
+ */
+
+export enum ShippingProviderCode {
+  GHN = "ghn",
+  GHTK = "ghtk",
+  VIETTEL_POST = "viettel_post",
+  FAKE = "fake",
+}
+
+/**
+ * Carrier progress normalized across providers
+ */
+export enum ShipmentProgress {
+  READY_TO_PICK = "READY_TO_PICK",
+  PICKED_UP = "PICKED_UP",
+  IN_TRANSIT = "IN_TRANSIT",
+  DELIVERED = "DELIVERED",
+  DELIVERY_FAILED = "DELIVERY_FAILED",
+  RETURNED = "RETURNED",
+  CANCELLED = "CANCELLED",
+  UNKNOWN = "UNKNOWN",
+}
+
+export interface ShippingAddress {
+  fullName: string;
+  phoneNumber: string;
+  addressLine: string;
+  ward?: string;
+  district?: string;
+  city: string;
+}
+
+export interface ShippingParcel {
+  weightGrams: number;
+  lengthCm: number;
+  widthCm: number;
+  heightCm: number;
+  /** Declared value for insurance */
+  valueAmount: number;
+  /** Amount the carrier collects on delivery (COD) */
+  codAmount: number;
+}
+
+export interface ShippingQuoteRequest {
+  to: ShippingAddress;
+  parcel: ShippingParcel;
+}
+
+export interface ShippingQuote {
+  provider: ShippingProviderCode;
+  fee: number;
+  estimatedDeliveryAt?: Date | null;
+}
+
+export interface CreateShipmentRequest extends ShippingQuoteRequest {
+  orderNumber: string;
+  items: { name: string; quantity: number; priceAmount: number }[];
+  note?: string;
+}
+
+export interface CreatedShipment {
+  trackingCode: string;
+  labelUrl: string | null;
+  fee: number;
+  estimatedDeliveryAt?: Date | null;
+}
+
+export interface ShipmentStatusUpdate {
+  trackingCode: string;
+  /** Our order number when the carrier echoes it back */
+  orderNumber?: string | null;
+  progress: ShipmentProgress;
+  /** Carrier status as received, stored on the order for reference */
+  rawStatus: string;
+  occurredAt?: Date | null;
+}
+
+export interface ShippingProvider {
+  readonly code: ShippingProviderCode;
+  readonly name: string;
+  /** Whether credentials are present in the environment */
+  isConfigured(): boolean;
+  quote(request: ShippingQuoteRequest): Promise<ShippingQuote>;
+  createShipment(request: CreateShipmentRequest): Promise<CreatedShipment>;
+  /** Normalize a webhook body; null when it carries no status update */
+  parseWebhook(body: any): ShipmentStatusUpdate | null;
+}
+
+/**
+ * Sender (pickup) address shared by carriers that need it per request
+ */
+export const getSenderAddress = () => ({
+  fullName: process.env.SHIPPING_SENDER_NAME || "",
+  phoneNumber: process.env.SHIPPING_SENDER_PHONE || "",
+  addressLine: process.env.SHIPPING_SENDER_ADDRESS || "",
+  ward: process.env.SHIPPING_SENDER_WARD || "",
+  district: process.env.SHIPPING_SENDER_DISTRICT || "",
+  city: process.env.SHIPPING_SENDER_PROVINCE || "",
+});
+
+export const formatFullAddress = (address: ShippingAddress): string =>
+  [address.addressLine, address.ward, address.district, address.city]
+    .filter((part) => part && part.trim())
+    .join(", ");
+
+/**
+ * Call a carrier JSON API. Failures are thrown as `{ status, code, message }`
+ * objects so controllers can pass them through.
+ */
+export const carrierRequest = async <T = any>(
+  provider: string,
+  url: string,
+  init: { method?: string; headers?: Record<string, string>; body?: unknown } = {}
+): Promise<T> => {
+  let response: Awaited<ReturnType<typeof fetch>>;
+  try {
+    response = await fetch(url, {
+      method: init.method || "GET",
+      headers: { "Content-Type": "application/json", ...init.headers },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+      signal: AbortSignal.timeout(15_000),
+    });
+  } catch (error: any) {
+    throw {
+      status: 502,
+      code: "SHIPPING_PROVIDER_UNAVAILABLE",
+      message: `${provider} is unreachable: ${error?.message || "request failed"}`,
+    };
+  }
+
+  const payload: any = await response.json().catch(() => null);
+  if (!response.ok || payload === null) {
+    throw {
+      status: 502,
+      code: "SHIPPING_PROVIDER_ERROR",
+      message: `${provider} request failed (${response.status})`,
+      details: payload,
+    };
+  }
+
+  return payload as T;
+};
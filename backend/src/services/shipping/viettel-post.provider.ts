@@ -0,0 +1,192 @@
+import {
+  carrierRequest,
+  CreatedShipment,
+  CreateShipmentRequest,
+  formatFullAddress,
+  getSenderAddress,
+  ShipmentProgress,
+  ShipmentStatusUpdate,
+  ShippingProvider,
+  ShippingProviderCode,
+  ShippingQuote,
+  ShippingQuoteRequest,
+} from "./shipping-provider";
+
+const VIETTEL_POST_API_URL =
+  process.env.VIETTEL_POST_API_URL || "https://partner.viettelpost.vn/v2";
+const VIETTEL_POST_PRINT_URL =
+  process.env.VIETTEL_POST_PRINT_URL ||
+  "https://digitalize.viettelpost.vn/DigitalizePrint/report.do";
+const VIETTEL_POST_SERVICE = process.env.VIETTEL_POST_SERVICE || "VCN";
+
+/**
+ * Viettel Post order status codes grouped by meaning
+ */
+const toProgress = (status: number): ShipmentProgress => {
+  if (status === 501) return ShipmentProgress.DELIVERED;
+  if (status === 107 || status === 201 || status === 503) {
+    return ShipmentProgress.CANCELLED;
+  }
+  if (status === 502 || status === 504 || status === 505) {
+    return ShipmentProgress.RETURNED;
+  }
+  if (status === 506 || status === 507 || status === 508) {
+    return ShipmentProgress.DELIVERY_FAILED;
+  }
+  if (status >= 100 && status <= 104) return ShipmentProgress.READY_TO_PICK;
+  if (status === 105) return ShipmentProgress.PICKED_UP;
+  if (status >= 200 && status <= 500) return ShipmentProgress.IN_TRANSIT;
+  return ShipmentProgress.UNKNOWN;
+};
+
+/**
+ * Viettel Post, using the address-text (NLP) endpoints so no province or
+ * district ids are needed.
+ */
+class ViettelPostProvider implements ShippingProvider {
+  readonly code = ShippingProviderCode.VIETTEL_POST;
+  readonly name = "Viettel Post";
+
+  private get headers() {
+    return { Token: process.env.VIETTEL_POST_TOKEN || "" };
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.VIETTEL_POST_TOKEN;
+  }
+
+  private assertOk(response: any, fallback: string) {
+    if (response?.error || (response?.status && response.status !== 200)) {
+      throw {
+        status: 502,
+        code: "SHIPPING_PROVIDER_ERROR",
+        message: response?.message || fallback,
+      };
+    }
+  }
+
+  async quote({ to, parcel }: ShippingQuoteRequest): Promise<ShippingQuote> {
+    const response = await carrierRequest(
+      this.name,
+      `${VIETTEL_POST_API_URL}/order/getPriceAllNlp`,
+      {
+        method: "POST",
+        headers: this.headers,
+        body: {
+          SENDER_ADDRESS: formatFullAddress(getSenderAddress()),
+          RECEIVER_ADDRESS: formatFullAddress(to),
+          PRODUCT_TYPE: "HH",
+          PRODUCT_WEIGHT: Math.round(parcel.weightGrams),
+          PRODUCT_PRICE: Math.round(parcel.valueAmount),
+          MONEY_COLLECTION: Math.round(parcel.codAmount),
+          TYPE: 1,
+        },
+      }
+    );
+    this.assertOk(response, "Viettel Post could not quote this address");
+
+    const services: any[] = Array.isArray(response) ? response : response.data || [];
+    const service =
+      services.find((s) => s.MA_DV_CHINH === VIETTEL_POST_SERVICE) || services[0];
+    if (!service) {
+      throw {
+        status: 502,
+        code: "SHIPPING_PROVIDER_ERROR",
+        message: "Viettel Post returned no service for this address",
+      };
+    }
+
+    return { provider: this.code, fee: Number(service.GIA_CUOC ?? 0) };
+  }
+
+  async createShipment(request: CreateShipmentRequest): Promise<CreatedShipment> {
+    const { to, parcel } = request;
+    const sender = getSenderAddress();
+
+    const response = await carrierRequest(
+      this.name,
+      `${VIETTEL_POST_API_URL}/order/createOrderNlp`,
+      {
+        method: "POST",
+        headers: this.headers,
+        body: {
+          ORDER_NUMBER: request.orderNumber,
+          SENDER_FULLNAME: sender.fullName,
+          SENDER_PHONE: sender.phoneNumber,
+          SENDER_ADDRESS: formatFullAddress(sender),
+          RECEIVER_FULLNAME: to.fullName,
+          RECEIVER_PHONE: to.phoneNumber,
+          RECEIVER_ADDRESS: formatFullAddress(to),
+          PRODUCT_NAME: request.items.map((item) => item.name).join(", ").slice(0, 200),
+          PRODUCT_QUANTITY: request.items.reduce((sum, item) => sum + item.quantity, 0),
+          PRODUCT_PRICE: Math.round(parcel.valueAmount),
+          PRODUCT_WEIGHT: Math.round(parcel.weightGrams),
+          PRODUCT_LENGTH: Math.round(parcel.lengthCm),
+          PRODUCT_WIDTH: Math.round(parcel.widthCm),
+          PRODUCT_HEIGHT: Math.round(parcel.heightCm),
+          PRODUCT_TYPE: "HH",
+          // 3: collect goods value only, 1: collect nothing
+          ORDER_PAYMENT: parcel.codAmount > 0 ? 3 : 1,
+          ORDER_SERVICE: VIETTEL_POST_SERVICE,
+          ORDER_NOTE: request.note,
+          MONEY_COLLECTION: Math.round(parcel.codAmount),
+          LIST_ITEM: request.items.map((item) => ({
+            PRODUCT_NAME: item.name,
+            PRODUCT_PRICE: Math.round(item.priceAmount),
+            PRODUCT_QUANTITY: item.quantity,
+          })),
+        },
+      }
+    );
+    this.assertOk(response, "Viettel Post could not create the shipment");
+
+    const trackingCode: string = response.data?.ORDER_NUMBER;
+    if (!trackingCode) {
+      throw {
+        status: 502,
+        code: "SHIPPING_PROVIDER_ERROR",
+        message: "Viettel Post did not return a tracking code",
+      };
+    }
+
+    let labelUrl: string | null = null;
+    try {
+      const print = await carrierRequest(this.name, `${VIETTEL_POST_API_URL}/order/printing-code`, {
+        method: "POST",
+        headers: this.headers,
+        body: {
+          EXPIRY_TIME: Date.now() + 7 * 24 * 60 * 60 * 1000,
+          ORDER_ARRAY: [trackingCode],
+        },
+      });
+      if (print.message) {
+        labelUrl = `${VIETTEL_POST_PRINT_URL}?type=1&bill=${print.message}&showPostage=1`;
+      }
+    } catch {
+      labelUrl = null;
+    }
+
+    return {
+      trackingCode,
+      labelUrl,
+      fee: Number(response.data?.MONEY_TOTAL ?? 0),
+      estimatedDeliveryAt: null,
+    };
+  }
+
+  parseWebhook(body: any): ShipmentStatusUpdate | null {
+    const data = body?.DATA ?? body?.data;
+    if (!data?.ORDER_NUMBER || data?.ORDER_STATUS === undefined) return null;
+
+    const status = Number(data.ORDER_STATUS);
+    return {
+      trackingCode: String(data.ORDER_NUMBER),
+      orderNumber: data.ORDER_REFERENCE || null,
+      progress: toProgress(status),
+      rawStatus: data.STATUS_NAME ? `${status} ${data.STATUS_NAME}` : String(status),
+      occurredAt: null,
+    };
+  }
+}
+
+export const viettelPostProvider = new ViettelPostProvider();
@@ -20,6 +20,12 @@ import {
   SystemNotification,
   PaymentNotification,
   InventoryNotification,
+  WaitlistData,
+  WaitlistNotification,
+  BulkOrderData,
+  BulkOrderNotification,
+  PreOrderData,
+  PreOrderNotification,
 } from "../types/socket.types";
 import { getAllowedOrigins, isAllowedOrigin } from "../config/cors";
 
@@ -325,6 +331,7 @@ class SocketService {
   // Emit payment notification
   public emitPaymentNotification(paymentData: {
     orderId: string;
+    orderNumber?: string;
     amount: number;
     status: "success" | "failed" | "pending";
     customerName: string;
@@ -338,9 +345,10 @@ class SocketService {
       id: `payment_${paymentData.orderId}_${Date.now()}`,
       type: "payment",
       title: "Thanh toán",
-      message: `Thanh toán ${paymentData.status === "success" ? "thành công" : paymentData.status === "failed" ? "thất bại" : "đang xử lý"} cho đơn hàng ${paymentData.orderId}`,
+      message: `Thanh toán ${paymentData.status === "success" ? "thành công" : paymentData.status === "failed" ? "thất bại" : "đang xử lý"} cho đơn hàng ${paymentData.orderNumber || paymentData.orderId}`,
       data: {
         orderId: paymentData.orderId,
+        orderNumber: paymentData.orderNumber,
         amount: paymentData.amount,
         status: paymentData.status,
         customerName: paymentData.customerName,
@@ -395,6 +403,78 @@ class SocketService {
     );
     this.sendNotificationCount();
   }
+
+  // Emit back-in-stock waitlist report
+  public emitWaitlistNotification(waitlistData: WaitlistData): void {
+    if (!this.io) {
+      logger.error("Socket.IO not initialized");
+      return;
+    }
+
+    const notification: WaitlistNotification = {
+      id: `waitlist_${waitlistData.productId}_${Date.now()}`,
+      type: "waitlist",
+      title: "Danh sách chờ hàng",
+      message: `Sản phẩm "${waitlistData.productName}" đã có hàng lại, ${waitlistData.contacts.length} khách đang chờ`,
+      data: waitlistData,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.io.to("admin-room").emit("notification:new", notification);
+    this.info(
+      `📋 Waitlist notification sent: ${waitlistData.contacts.length} contacts for ${waitlistData.productId}`
+    );
+    this.sendNotificationCount();
+  }
+
+  // Emit one summary for a bulk order update
+  public emitBulkOrderNotification(bulkData: BulkOrderData): void {
+    if (!this.io) {
+      logger.error("Socket.IO not initialized");
+      return;
+    }
+
+    const notification: BulkOrderNotification = {
+      id: `bulk_order_${Date.now()}`,
+      type: "bulk_order",
+      title: "Cập nhật hàng loạt",
+      message: bulkData.status
+        ? `${bulkData.succeeded.length} đơn hàng đã chuyển sang ${bulkData.status}`
+        : `Đã thêm ghi chú cho ${bulkData.succeeded.length} đơn hàng`,
+      data: bulkData,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.io.to("admin-room").emit("notification:new", notification);
+    this.info(
+      `📦 Bulk order notification sent: ${bulkData.succeeded.length} updated, ${bulkData.failedCount} failed`
+    );
+    this.sendNotificationCount();
+  }
+
+  // Emit stock allocated to waiting pre-orders
+  public emitPreOrderNotification(preOrderData: PreOrderData): void {
+    if (!this.io) {
+      logger.error("Socket.IO not initialized");
+      return;
+    }
+
+    const notification: PreOrderNotification = {
+      id: `pre_order_${preOrderData.productId}_${Date.now()}`,
+      type: "pre_order",
+      title: "Phân bổ hàng đặt trước",
+      message: `Sản phẩm "${preOrderData.productName}" đã về, phân bổ cho ${preOrderData.allocations.length} đơn đặt trước`,
+      data: preOrderData,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.io.to("admin-room").emit("notification:new", notification);
+    this.info(
+      `📦 Pre-order notification sent: ${preOrderData.allocations.length} allocations for ${preOrderData.productId}`
+    );
+    this.sendNotificationCount();
+  }
+
   // Emit settings update
   public emitSettingsUpdate(settings: any): void {
     if (!this.io) {
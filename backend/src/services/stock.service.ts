@@ -0,0 +1,141 @@
+import { QueryTypes, Transaction } from "sequelize";
+import { sequelize } from "../config/database";
+import { AdminUser, Product, StockMovement, StockMovementReason } from "../models";
+import { checkStockAlert } from "./inventory-alert.service";
+
+export interface StockChangeOptions {
+  reason: StockMovementReason;
+  referenceId?: string | null;
+  adminId?: string | null;
+  note?: string | null;
+  transaction?: Transaction;
+}
+
+export interface StockDiscrepancy {
+  productId: string;
+  name: string;
+  stockQuantity: number;
+  ledgerQuantity: number;
+  difference: number;
+}
+
+/**
+ * Change a product's stock by `delta` and write the movement to the ledger.
+ * The product row should already be locked by the caller's transaction;
+ * availability checks stay with the caller. Low-stock alerts follow from
+ * here, so every stock change is covered.
+ */
+export const adjustStock = async (
+  product: Product,
+  delta: number,
+  options: StockChangeOptions
+): Promise<StockMovement | null> => {
+  if (delta === 0) return null;
+
+  const quantityAfter = product.stockQuantity + delta;
+  await product.update(
+    { stockQuantity: quantityAfter },
+    { transaction: options.transaction }
+  );
+
+  const movement = await StockMovement.create(
+    {
+      productId: product.id,
+      delta,
+      quantityAfter,
+      reason: options.reason,
+      referenceId: options.referenceId ?? null,
+      note: options.note ?? null,
+      createdByAdminId: options.adminId ?? null,
+    },
+    { transaction: options.transaction }
+  );
+
+  await checkStockAlert(product, options.transaction);
+
+  return movement;
+};
+
+/**
+ * Set a product's stock to an absolute quantity, recording the difference
+ */
+export const setStock = async (
+  product: Product,
+  quantity: number,
+  options: StockChangeOptions
+): Promise<StockMovement | null> =>
+  adjustStock(product, quantity - product.stockQuantity, options);
+
+/**
+ * Record stock a product was created with, its row already holding it
+ */
+export const recordOpeningStock = async (
+  product: Product,
+  options: Omit<StockChangeOptions, "reason">
+): Promise<StockMovement | null> => {
+  if (product.stockQuantity === 0) return null;
+
+  return StockMovement.create(
+    {
+      productId: product.id,
+      delta: product.stockQuantity,
+      quantityAfter: product.stockQuantity,
+      reason: StockMovementReason.RESTOCK,
+      referenceId: options.referenceId ?? null,
+      note: options.note ?? null,
+      createdByAdminId: options.adminId ?? null,
+    },
+    { transaction: options.transaction }
+  );
+};
+
+export const getStockMovements = async (
+  productId: string,
+  { page, limit, reason }: { page: number; limit: number; reason?: StockMovementReason }
+) =>
+  StockMovement.findAndCountAll({
+    where: { productId, ...(reason && { reason }) },
+    include: [
+      {
+        model: AdminUser,
+        as: "createdByAdmin",
+        attributes: ["id", "username", "email"],
+      },
+    ],
+    order: [["createdAt", "DESC"]],
+    limit,
+    offset: (page - 1) * limit,
+  });
+
+/**
+ * Products whose ledger does not add up to their stockQuantity, meaning
+ * stock was changed somewhere that bypassed the ledger
+ */
+export const findStockDiscrepancies = async (): Promise<StockDiscrepancy[]> => {
+  const rows = await sequelize.query<{
+    product_id: string;
+    name: string;
+    stock_quantity: number;
+    ledger_quantity: string;
+  }>(
+    `
+      SELECT p.id AS product_id, p.name, p.stock_quantity,
+             COALESCE(SUM(m.delta), 0) AS ledger_quantity
+      FROM products p
+      LEFT JOIN stock_movements m ON m.product_id = p.id
+      WHERE p.is_deleted = false
+      GROUP BY p.id, p.name, p.stock_quantity
+      HAVING p.stock_quantity <> COALESCE(SUM(m.delta), 0)
+      ORDER BY p.name ASC
+    `,
+    { type: QueryTypes.SELECT }
+  );
+
+  return rows.map((row) => ({
+    productId: row.product_id,
+    name: row.name,
+    stockQuantity: Number(row.stock_quantity),
+    ledgerQuantity: Number(row.ledger_quantity),
+    difference: Number(row.stock_quantity) - Number(row.ledger_quantity),
+  }));
+};
@@ -0,0 +1,226 @@
+import sharp from "sharp";
+import { Setting } from "../models";
+import { encodeQrCode } from "../utils/qr-code";
+import { removeVietnameseDiacritics } from "../utils/vietnamese-slug";
+
+const BANK_TRANSFER_SETTINGS_KEY = "bankTransferSettings";
+const CACHE_TTL_MS = 30_000;
+
+// NAPAS 247 identifiers from the VietQR specification
+const NAPAS_GUID = "A000000727";
+const NAPAS_SERVICE_ACCOUNT_TRANSFER = "QRIBFTTA";
+const CURRENCY_VND = "704";
+const COUNTRY_VN = "VN";
+const MAX_MEMO_LENGTH = 25;
+
+export interface BankTransferSettingsDto {
+  /** 6-digit NAPAS acquirer BIN of the receiving bank, e.g. 970436 (Vietcombank) */
+  bankBin: string;
+  bankName: string;
+  accountNumber: string;
+  accountName: string;
+}
+
+export interface VietQrPayloadInput {
+  bankBin: string;
+  accountNumber: string;
+  amount: number;
+  memo: string;
+}
+
+const DEFAULT_BANK_TRANSFER_SETTINGS: BankTransferSettingsDto = {
+  bankBin: "",
+  bankName: "",
+  accountNumber: "",
+  accountName: "",
+};
+
+let bankTransferCache:
+  | { value: BankTransferSettingsDto; expiresAt: number }
+  | null = null;
+
+const parseStoredValue = (raw: unknown): Partial<BankTransferSettingsDto> => {
+  if (!raw) return {};
+
+  let parsed: unknown = raw;
+  if (typeof parsed === "string") {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return {};
+    }
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return {};
+  }
+
+  return parsed as Partial<BankTransferSettingsDto>;
+};
+
+const sanitizeBankTransferSettings = (
+  input: Partial<BankTransferSettingsDto>
+): BankTransferSettingsDto => {
+  const text = (value: unknown) =>
+    typeof value === "string" ? value.trim() : "";
+
+  return {
+    bankBin: text(input.bankBin).replace(/\D/g, ""),
+    bankName: text(input.bankName),
+    accountNumber: text(input.accountNumber).replace(/\s/g, ""),
+    // Banks print beneficiary names in upper case without diacritics
+    accountName: removeVietnameseDiacritics(text(input.accountName)).toUpperCase(),
+  };
+};
+
+export const isBankTransferConfigured = (
+  settings: BankTransferSettingsDto
+): boolean => /^\d{6}$/.test(settings.bankBin) && !!settings.accountNumber;
+
+export const getBankTransferSettings =
+  async (): Promise<BankTransferSettingsDto> => {
+    const now = Date.now();
+    if (bankTransferCache && bankTransferCache.expiresAt > now) {
+      return { ...bankTransferCache.value };
+    }
+
+    const setting = await Setting.findOne({
+      where: { key: BANK_TRANSFER_SETTINGS_KEY },
+    });
+
+    const sanitized = setting
+      ? sanitizeBankTransferSettings(parseStoredValue(setting.value))
+      : { ...DEFAULT_BANK_TRANSFER_SETTINGS };
+
+    bankTransferCache = {
+      value: sanitized,
+      expiresAt: now + CACHE_TTL_MS,
+    };
+
+    return { ...sanitized };
+  };
+
+export const updateBankTransferSettings = async (
+  payload: Partial<BankTransferSettingsDto>
+): Promise<BankTransferSettingsDto> => {
+  const current = await getBankTransferSettings();
+  const next = sanitizeBankTransferSettings({
+    ...current,
+    ...payload,
+  });
+
+  const [setting] = await Setting.findOrCreate({
+    where: { key: BANK_TRANSFER_SETTINGS_KEY },
+    defaults: {
+      key: BANK_TRANSFER_SETTINGS_KEY,
+      value: next,
+      description: "Bank account used for VietQR transfer instructions",
+    },
+  });
+
+  setting.value = next;
+  setting.changed("value", true);
+  if (!setting.description) {
+    setting.description = "Bank account used for VietQR transfer instructions";
+  }
+  await setting.save();
+
+  bankTransferCache = {
+    value: next,
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  };
+
+  return { ...next };
+};
+
+/**
+ * EMVCo TLV field: 2-digit id, 2-digit length, value
+ */
+const tlv = (id: string, value: string): string =>
+  `${id}${value.length.toString().padStart(2, "0")}${value}`;
+
+/**
+ * CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF) as required by EMVCo
+ */
+const crc16 = (input: string): string => {
+  let crc = 0xffff;
+  for (const byte of Buffer.from(input, "utf8")) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+};
+
+/**
+ * Transfer memos only survive interbank transfers as plain ASCII
+ */
+export const toTransferMemo = (text: string): string =>
+  removeVietnameseDiacritics(text)
+    .replace(/[^A-Za-z0-9 ]/g, "")
+    .trim()
+    .slice(0, MAX_MEMO_LENGTH);
+
+/**
+ * Build a dynamic VietQR (NAPAS 247) EMV payload for an account transfer
+ */
+export const buildVietQrPayload = ({
+  bankBin,
+  accountNumber,
+  amount,
+  memo,
+}: VietQrPayloadInput): string => {
+  const beneficiary = tlv("00", bankBin) + tlv("01", accountNumber);
+  const merchantAccount =
+    tlv("00", NAPAS_GUID) +
+    tlv("01", beneficiary) +
+    tlv("02", NAPAS_SERVICE_ACCOUNT_TRANSFER);
+
+  const payload =
+    tlv("00", "01") +
+    tlv("01", "12") + // Dynamic QR: single use with a fixed amount
+    tlv("38", merchantAccount) +
+    tlv("53", CURRENCY_VND) +
+    tlv("54", Math.round(amount).toString()) +
+    tlv("58", COUNTRY_VN) +
+    (memo ? tlv("62", tlv("08", memo)) : "") +
+    "6304";
+
+  return payload + crc16(payload);
+};
+
+/**
+ * Render a QR payload as a black-on-white PNG with the standard quiet zone
+ */
+export const renderQrPng = async (
+  payload: string,
+  { scale = 8, margin = 4 }: { scale?: number; margin?: number } = {}
+): Promise<Buffer> => {
+  const modules = encodeQrCode(payload);
+  const dimension = (modules.length + margin * 2) * scale;
+  const pixels = Buffer.alloc(dimension * dimension, 0xff);
+
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (!dark) return;
+      const top = (y + margin) * scale;
+      const left = (x + margin) * scale;
+      for (let dy = 0; dy < scale; dy++) {
+        pixels.fill(
+          0x00,
+          (top + dy) * dimension + left,
+          (top + dy) * dimension + left + scale
+        );
+      }
+    });
+  });
+
+  return sharp(pixels, {
+    raw: { width: dimension, height: dimension, channels: 1 },
+  })
+    .toColourspace("b-w")
+    .png()
+    .toBuffer();
+};
@@ -0,0 +1,124 @@
+import { Op, Transaction } from "sequelize";
+import { logger } from "@/utils/logger";
+import { Product, ProductWaitlistEntry, WaitlistContactType } from "../models";
+import { cleanPhoneNumber } from "../utils/phoneValidation";
+import { socketService } from "./socket.service";
+
+export interface WaitlistSignup {
+  contactType: WaitlistContactType;
+  contactValue: string;
+  customerName?: string | null;
+}
+
+const normalizeContact = (type: WaitlistContactType, value: string): string =>
+  type === WaitlistContactType.PHONE ? cleanPhoneNumber(value) : value.trim();
+
+/**
+ * Add a shopper to a sold-out product's waitlist. Signing up twice with the
+ * same contact returns the pending entry instead of adding another.
+ * Failures are thrown as `{ status, code, message }` objects.
+ */
+export const joinWaitlist = async (
+  productId: string,
+  signup: WaitlistSignup
+): Promise<{ entry: ProductWaitlistEntry; created: boolean }> => {
+  const product = await Product.findByPk(productId, {
+    attributes: ["id", "stockQuantity", "isActive", "isDeleted"],
+  });
+
+  if (!product || !product.isActive || product.isDeleted) {
+    throw { status: 404, code: "PRODUCT_NOT_FOUND", message: "Product not found" };
+  }
+
+  if (product.stockQuantity > 0) {
+    throw {
+      status: 409,
+      code: "PRODUCT_IN_STOCK",
+      message: "Product is in stock and can be ordered now",
+    };
+  }
+
+  const contactValue = normalizeContact(signup.contactType, signup.contactValue);
+
+  const [entry, created] = await ProductWaitlistEntry.findOrCreate({
+    where: {
+      productId,
+      contactType: signup.contactType,
+      contactValue,
+      notifiedAt: null,
+    },
+    defaults: {
+      productId,
+      contactType: signup.contactType,
+      contactValue,
+      customerName: signup.customerName ?? null,
+    },
+  });
+
+  return { entry, created };
+};
+
+/**
+ * Mark a restocked product's pending waitlist as notified and send admins
+ * the list of contacts to reach, once the transaction commits
+ */
+export const releaseWaitlist = async (
+  product: Product,
+  transaction?: Transaction
+): Promise<ProductWaitlistEntry[]> => {
+  const entries = await ProductWaitlistEntry.findAll({
+    where: { productId: product.id, notifiedAt: null },
+    order: [["createdAt", "ASC"]],
+    transaction,
+  });
+
+  if (entries.length === 0) return entries;
+
+  const notifiedAt = new Date();
+  await ProductWaitlistEntry.update(
+    { notifiedAt },
+    {
+      where: { id: { [Op.in]: entries.map((entry) => entry.id) } },
+      transaction,
+    }
+  );
+  entries.forEach((entry) => entry.set("notifiedAt", notifiedAt));
+
+  const emit = () => {
+    try {
+      socketService.emitWaitlistNotification({
+        productId: product.id,
+        productName: product.name,
+        currentStock: product.stockQuantity,
+        contacts: entries.map((entry) => ({
+          contactType: entry.contactType,
+          contactValue: entry.contactValue,
+          customerName: entry.customerName,
+        })),
+      });
+    } catch (error) {
+      logger.error("Error emitting waitlist notification:", error);
+    }
+  };
+
+  if (transaction) {
+    transaction.afterCommit(emit);
+  } else {
+    emit();
+  }
+
+  return entries;
+};
+
+export const listWaitlist = async (
+  productId: string,
+  status: "pending" | "notified" | "all" = "pending"
+) =>
+  ProductWaitlistEntry.findAll({
+    where: {
+      productId,
+      ...(status === "pending" && { notifiedAt: null }),
+      ...(status === "notified" && { notifiedAt: { [Op.ne]: null } }),
+    },
+    order: [["createdAt", "ASC"]],
+  });
@@ -7,7 +7,16 @@ export interface SocketUser {
 
 export interface NotificationData {
   id: string;
-  type: "consultation" | "order" | "user" | "system" | "payment" | "inventory";
+  type:
+    | "consultation"
+    | "order"
+    | "user"
+    | "system"
+    | "payment"
+    | "inventory"
+    | "waitlist"
+    | "bulk_order"
+    | "pre_order";
   title: string;
   message: string;
   data?:
@@ -16,7 +25,10 @@ export interface NotificationData {
     | UserData
     | SystemData
     | PaymentData
-    | InventoryData;
+    | InventoryData
+    | WaitlistData
+    | BulkOrderData
+    | PreOrderData;
   timestamp: string;
 }
 
@@ -46,6 +58,7 @@ export interface SystemData {
 
 export interface PaymentData {
   orderId: string;
+  orderNumber?: string;
   amount: number;
   status: "success" | "failed" | "pending";
   customerName: string;
@@ -59,6 +72,39 @@ export interface InventoryData {
   action: "low_stock" | "out_of_stock" | "restocked";
 }
 
+export interface WaitlistData {
+  productId: string;
+  productName: string;
+  currentStock: number;
+  contacts: {
+    contactType: string;
+    contactValue: string;
+    customerName: string | null;
+  }[];
+}
+
+export interface BulkOrderData {
+  /** Target status, null when only a note was added */
+  status: string | null;
+  note: string | null;
+  succeeded: { orderId: string; orderNumber: string }[];
+  failedCount: number;
+}
+
+export interface PreOrderData {
+  productId: string;
+  productName: string;
+  /** Stock left after allocation */
+  currentStock: number;
+  allocations: {
+    orderId: string;
+    orderNumber: string;
+    quantity: number;
+    /** Units the order still waits for */
+    outstanding: number;
+  }[];
+}
+
 export interface ConsultationNotification extends NotificationData {
   type: "consultation";
   data: ConsultationData;
@@ -89,13 +135,31 @@ export interface InventoryNotification extends NotificationData {
   data: InventoryData;
 }
 
+export interface WaitlistNotification extends NotificationData {
+  type: "waitlist";
+  data: WaitlistData;
+}
+
+export interface BulkOrderNotification extends NotificationData {
+  type: "bulk_order";
+  data: BulkOrderData;
+}
+
+export interface PreOrderNotification extends NotificationData {
+  type: "pre_order";
+  data: PreOrderData;
+}
+
 export type NotificationPayload =
   | ConsultationNotification
   | OrderNotification
   | UserNotification
   | SystemNotification
   | PaymentNotification
-  | InventoryNotification;
+  | InventoryNotification
+  | WaitlistNotification
+  | BulkOrderNotification
+  | PreOrderNotification;
 
 export interface ServerToClientEvents {
   "notification:new": (notification: NotificationPayload) => void;
@@ -0,0 +1,102 @@
+/**
+ * CSV utilities
+ * Small RFC 4180 parser with delimiter detection, for spreadsheet exports
+ * that use commas, semicolons or tabs, and a row formatter for exports.
+ */
+
+const CANDIDATE_DELIMITERS = [",", ";", "\t"];
+
+/**
+ * Guess the delimiter from the first few lines (quoted text is ignored)
+ */
+export const detectCsvDelimiter = (text: string): string => {
+  const sample = text
+    .split(/\r?\n/)
+    .slice(0, 10)
+    .join("\n")
+    .replace(/"[^"]*"/g, "");
+
+  let best = ",";
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = sample.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+/**
+ * Parse CSV text into rows of trimmed cells. Blank lines are dropped.
+ */
+export const parseCsv = (input: string, delimiter?: string): string[][] => {
+  const text = input.replace(/^\uFEFF/, "");
+  const sep = delimiter ?? detectCsvDelimiter(text);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell.trim());
+    if (row.some((value) => value !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === sep) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) endRow();
+
+  return rows;
+};
+
+/**
+ * Format one CSV line (CRLF-terminated). Text that a spreadsheet would
+ * read as a formula is prefixed with a quote.
+ */
+export const formatCsvRow = (
+  cells: (string | number | Date | null | undefined)[],
+  delimiter = ","
+): string =>
+  cells
+    .map((cell) => {
+      if (cell === null || cell === undefined) return "";
+      if (typeof cell === "number") return Number.isFinite(cell) ? String(cell) : "";
+      if (cell instanceof Date) return Number.isNaN(cell.getTime()) ? "" : cell.toISOString();
+
+      const text = /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+      return /["\r\n]/.test(text) || text.includes(delimiter)
+        ? `"${text.replace(/"/g, '""')}"`
+        : text;
+    })
+    .join(delimiter) + "\r\n";
@@ -0,0 +1,95 @@
+/**
+ * PDF utilities
+ * Writes a PDF whose pages are full-page JPEG images. Pages are rendered
+ * with sharp beforehand, which keeps Unicode text (Vietnamese diacritics)
+ * out of the PDF font machinery entirely.
+ */
+
+export interface PdfImagePage {
+  /** Baseline JPEG data */
+  jpeg: Buffer;
+  /** Pixel size of the JPEG */
+  width: number;
+  height: number;
+  /** Number of color channels in the JPEG: 1 (gray) or 3 (RGB) */
+  channels: 1 | 3;
+}
+
+// A4 in PDF points (1/72 inch)
+export const A4_WIDTH_PT = 595.28;
+export const A4_HEIGHT_PT = 841.89;
+
+/**
+ * Build a PDF with one A4 page per image, each image stretched to the page
+ */
+export const buildImagePdf = (pages: PdfImagePage[]): Buffer => {
+  const chunks: Buffer[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Buffer) => {
+    const buffer = typeof data === "string" ? Buffer.from(data, "latin1") : data;
+    chunks.push(buffer);
+    length += buffer.length;
+  };
+
+  const writeObject = (id: number, body: string | Buffer[]) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    if (typeof body === "string") {
+      write(body);
+    } else {
+      body.forEach(write);
+    }
+    write("\nendobj\n");
+  };
+
+  // Object layout: 1 catalog, 2 page tree, then page/content/image per page
+  const pageIds = pages.map((_, i) => 3 + i * 3);
+
+  write("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n");
+  writeObject(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  writeObject(
+    2,
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`
+  );
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i];
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+    const content = `q ${A4_WIDTH_PT} 0 0 ${A4_HEIGHT_PT} 0 0 cm /Im${i} Do Q`;
+
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH_PT} ${A4_HEIGHT_PT}] ` +
+        `/Resources << /XObject << /Im${i} ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+    writeObject(
+      contentId,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+    writeObject(imageId, [
+      Buffer.from(
+        `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+          `/ColorSpace /${page.channels === 1 ? "DeviceGray" : "DeviceRGB"} /BitsPerComponent 8 ` +
+          `/Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`,
+        "latin1"
+      ),
+      page.jpeg,
+      Buffer.from("\nendstream", "latin1"),
+    ]);
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${offsets[id].toString().padStart(10, "0")} 00000 n \n`);
+  }
+  write(
+    `trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+  );
+
+  return Buffer.concat(chunks);
+};
@@ -33,6 +33,25 @@ export const cleanPhoneNumber = (phone: string): string => {
   return phone.replace(/[^\d\+]/g, '');
 };
 
+/**
+ * Digits of a Vietnamese phone in national form, so "+84 912 345 678",
+ * "84912345678" and "0912345678" compare equal
+ * @param phone Phone number string
+ * @returns Normalized phone digits
+ */
+export const normalizePhoneNumber = (phone: string): string => {
+  const digits = cleanPhoneNumber(phone).replace(/\D/g, '');
+  return digits.startsWith('84') && digits.length >= 11 ? `0${digits.slice(2)}` : digits;
+};
+
+/**
+ * normalizePhoneNumber as a Postgres expression, for matching phones in queries
+ * @param column Column to normalize, e.g. "o.customer_main_phone"
+ * @returns SQL expression
+ */
+export const normalizedPhoneSql = (column: string): string =>
+  `regexp_replace(regexp_replace(${column}, '[^0-9]', '', 'g'), '^84([0-9]{9,})$', '0\\1')`;
+
 /**
  * Get phone validation error message
  * @returns Error message string
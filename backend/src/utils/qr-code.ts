@@ -0,0 +1,401 @@
+/**
+ * QR code utilities
+ * Minimal QR Code Model 2 encoder (byte mode, error correction level M,
+ * versions 1-10). Enough for payment payloads such as VietQR strings,
+ * which stay well under the 213 byte limit of version 10.
+ */
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 10;
+
+// Error correction level M, indexed by version
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const NUM_ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+
+// Format bits for level M
+const ECC_FORMAT_BITS = 0;
+
+export type QrMatrix = boolean[][];
+
+const getBit = (value: number, index: number): boolean =>
+  ((value >>> index) & 1) !== 0;
+
+const getNumRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getNumDataCodewords = (version: number): number =>
+  Math.floor(getNumRawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version];
+
+const getAlignmentPatternPositions = (version: number): number[] => {
+  if (version === 1) return [];
+
+  const size = version * 4 + 17;
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+};
+
+/**
+ * Reed-Solomon arithmetic over GF(2^8) with the QR polynomial 0x11D
+ */
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => (result[i] ^= gfMultiply(coef, factor)));
+  }
+  return result;
+};
+
+/**
+ * Build the data codewords: mode, length, payload, terminator and padding
+ */
+const encodeDataCodewords = (bytes: Uint8Array, version: number): number[] => {
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  appendBits(0b0100, 4); // Byte mode
+  appendBits(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach((b) => appendBits(b, 8));
+
+  const capacityBits = getNumDataCodewords(version) * 8;
+  appendBits(0, Math.min(4, capacityBits - bits.length));
+  appendBits(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(pad, 8);
+  }
+
+  const codewords: number[] = new Array(bits.length / 8).fill(0);
+  bits.forEach((bit, i) => (codewords[i >>> 3] |= bit << (7 - (i & 7))));
+  return codewords;
+};
+
+/**
+ * Split data into blocks, append error correction and interleave
+ */
+const addEccAndInterleave = (data: number[], version: number): number[] => {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dataLen = shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1);
+    const block = data.slice(k, k + dataLen);
+    k += dataLen;
+    const ecc = reedSolomonRemainder(block, divisor);
+    // Short blocks get a placeholder so every block has the same layout
+    if (i < numShortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+};
+
+class QrBuilder {
+  readonly size: number;
+  readonly modules: QrMatrix;
+  private readonly isFunction: boolean[][];
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+    this.isFunction = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+  }
+
+  private setFunctionModule(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFinderPattern(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(
+          x + dx,
+          y + dy,
+          Math.max(Math.abs(dx), Math.abs(dy)) !== 1
+        );
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (ECC_FORMAT_BITS << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, getBit(bits, i));
+    this.setFunctionModule(8, 7, getBit(bits, 6));
+    this.setFunctionModule(8, 8, getBit(bits, 7));
+    this.setFunctionModule(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunctionModule(14 - i, 8, getBit(bits, i));
+    }
+
+    for (let i = 0; i < 8; i++) {
+      this.setFunctionModule(this.size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunctionModule(8, this.size - 15 + i, getBit(bits, i));
+    }
+    this.setFunctionModule(8, this.size - 8, true); // Dark module
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, dark);
+      this.setFunctionModule(b, a, dark);
+    }
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    const positions = getAlignmentPatternPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // Skip the three corners occupied by finder patterns
+        if (
+          !(i === 0 && j === 0) &&
+          !(i === 0 && j === last) &&
+          !(i === last && j === 0)
+        ) {
+          this.drawAlignmentPattern(x, y);
+        }
+      });
+    });
+
+    // Reserve format areas; real bits are drawn once the mask is chosen
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  drawCodewords(codewords: number[]) {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.isFunction[y][x]) continue;
+
+        let invert: boolean;
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+        }
+
+        if (invert) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  /**
+   * Penalty score from the spec's four rules; lower is easier to scan
+   */
+  getPenaltyScore(): number {
+    const size = this.size;
+    const at = (x: number, y: number, vertical: boolean) =>
+      vertical ? this.modules[x][y] : this.modules[y][x];
+    const finderLike = [true, false, true, true, true, false, true];
+    let result = 0;
+
+    for (const vertical of [false, true]) {
+      for (let y = 0; y < size; y++) {
+        // Rule 1: runs of five or more same-colored modules
+        let runLength = 1;
+        for (let x = 1; x <= size; x++) {
+          if (x < size && at(x, y, vertical) === at(x - 1, y, vertical)) {
+            runLength++;
+            continue;
+          }
+          if (runLength >= 5) result += runLength - 2;
+          runLength = 1;
+        }
+
+        // Rule 3: finder-like patterns with four light modules on one side
+        for (let x = 0; x + 7 <= size; x++) {
+          if (!finderLike.every((dark, k) => at(x + k, y, vertical) === dark)) {
+            continue;
+          }
+          const lightBefore = [1, 2, 3, 4].every(
+            (k) => x - k < 0 || !at(x - k, y, vertical)
+          );
+          const lightAfter = [0, 1, 2, 3].every(
+            (k) => x + 7 + k >= size || !at(x + 7 + k, y, vertical)
+          );
+          if (lightBefore || lightAfter) result += 40;
+        }
+      }
+    }
+
+    // Rule 2: 2x2 blocks of the same color
+    let dark = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (this.modules[y][x]) dark++;
+        if (
+          x + 1 < size &&
+          y + 1 < size &&
+          this.modules[y][x] === this.modules[y][x + 1] &&
+          this.modules[y][x] === this.modules[y + 1][x] &&
+          this.modules[y][x] === this.modules[y + 1][x + 1]
+        ) {
+          result += 3;
+        }
+      }
+    }
+
+    // Rule 4: balance of dark and light modules
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    result += Math.max(k, 0) * 10;
+
+    return result;
+  }
+}
+
+/**
+ * Encode text into a QR module matrix (true = dark module)
+ */
+export const encodeQrCode = (text: string): QrMatrix => {
+  const bytes = new TextEncoder().encode(text);
+
+  let version = MIN_VERSION;
+  const fits = (v: number) =>
+    4 + (v <= 9 ? 8 : 16) + bytes.length * 8 <= getNumDataCodewords(v) * 8;
+  while (version <= MAX_VERSION && !fits(version)) version++;
+
+  if (version > MAX_VERSION) {
+    throw new Error(`QR payload too long (${bytes.length} bytes)`);
+  }
+
+  const codewords = addEccAndInterleave(
+    encodeDataCodewords(bytes, version),
+    version
+  );
+
+  let best: QrBuilder | null = null;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    const qr = new QrBuilder(version);
+    qr.drawFunctionPatterns();
+    qr.drawCodewords(codewords);
+    qr.applyMask(mask);
+    qr.drawFormatBits(mask);
+
+    const penalty = qr.getPenaltyScore();
+    if (penalty < bestPenalty) {
+      best = qr;
+      bestPenalty = penalty;
+    }
+  }
+
+  return (best as QrBuilder).modules;
+};
@@ -0,0 +1,34 @@
+import { Op, WhereOptions } from "sequelize";
+
+/**
+ * Validity window utilities
+ * Shared by records with optional `validFrom` / `validUntil` bounds, where
+ * a missing bound means the window is open on that side.
+ */
+
+export interface ValidityWindow {
+  validFrom?: Date | null;
+  validUntil?: Date | null;
+}
+
+/**
+ * Where clause matching records whose window contains `now`
+ */
+export const withinValidityWindow = (now: Date = new Date()): WhereOptions => ({
+  [Op.and]: [
+    { [Op.or]: [{ validFrom: null }, { validFrom: { [Op.lte]: now } }] },
+    { [Op.or]: [{ validUntil: null }, { validUntil: { [Op.gte]: now } }] },
+  ],
+});
+
+/**
+ * Where a date falls relative to a window
+ */
+export const getValidityWindowState = (
+  window: ValidityWindow,
+  now: Date = new Date()
+): "NOT_STARTED" | "ACTIVE" | "EXPIRED" => {
+  if (window.validFrom && new Date(window.validFrom) > now) return "NOT_STARTED";
+  if (window.validUntil && new Date(window.validUntil) < now) return "EXPIRED";
+  return "ACTIVE";
+};
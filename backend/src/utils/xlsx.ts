@@ -0,0 +1,186 @@
+/**
+ * XLSX utilities
+ * Streams a single-sheet workbook. The ZIP container is written with data
+ * descriptors, so rows are deflated and sent as they come and the sheet
+ * never has to fit in memory.
+ */
+
+import { Readable, Transform, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import zlib from "zlib";
+
+export type XlsxCell = string | number | Date | null | undefined;
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+}
+
+// ZIP general purpose flags: sizes follow the data (bit 3), UTF-8 names (bit 11)
+const ZIP_FLAGS = 0x0808;
+const ZIP_DEFLATE = 8;
+const ZIP_VERSION = 20;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+// Style 1 is a date-time format, style 2 bold text for the header
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/></numFmts><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`;
+
+const workbookXml = (sheetName: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+const escapeXml = (value: string): string =>
+  value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Excel serial date: days since 1899-12-30, in local time as shown to users
+const toExcelDate = (date: Date): number =>
+  (date.getTime() - date.getTimezoneOffset() * 60_000) / 86_400_000 + 25569;
+
+const cellXml = (value: XlsxCell, header: boolean): string => {
+  if (value === null || value === undefined || value === "") return "<c/>";
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c><v>${value}</v></c>`;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? "<c/>" : `<c s="1"><v>${toExcelDate(value)}</v></c>`;
+  }
+  return `<c t="inlineStr"${header ? ' s="2"' : ""}><is><t xml:space="preserve">${escapeXml(
+    String(value)
+  )}</t></is></c>`;
+};
+
+// DOS date/time of "now" for the ZIP headers
+const dosDateTime = () => {
+  const now = new Date();
+  return {
+    time: (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2),
+    date: ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate(),
+  };
+};
+
+const write = (out: Writable, data: Buffer): Promise<void> =>
+  new Promise((resolve, reject) =>
+    out.write(data, (error) => (error ? reject(error) : resolve()))
+  );
+
+/**
+ * Write a workbook with one sheet to `out`: a bold header row followed by
+ * the rows as they are produced. `out` is left open.
+ */
+export const writeXlsx = async (
+  out: Writable,
+  options: { sheetName: string; header: string[]; rows: AsyncIterable<XlsxCell[]> }
+): Promise<void> => {
+  const entries: ZipEntry[] = [];
+  const { time, date } = dosDateTime();
+  let offset = 0;
+
+  const addEntry = async (fileName: string, source: AsyncIterable<string> | string) => {
+    const name = Buffer.from(fileName, "utf8");
+    const entry: ZipEntry = { name, offset, crc: 0, compressedSize: 0, size: 0 };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(ZIP_DEFLATE, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt16LE(name.length, 26);
+    await write(out, Buffer.concat([header, name]));
+    offset += header.length + name.length;
+
+    const measureInput = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        entry.crc = zlib.crc32(chunk, entry.crc);
+        entry.size += chunk.length;
+        callback(null, chunk);
+      },
+    });
+
+    await pipeline(
+      typeof source === "string" ? Readable.from([source]) : Readable.from(source),
+      measureInput,
+      zlib.createDeflateRaw(),
+      async (compressed: AsyncIterable<Buffer>) => {
+        for await (const chunk of compressed) {
+          entry.compressedSize += chunk.length;
+          await write(out, chunk);
+        }
+      }
+    );
+    offset += entry.compressedSize;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc >>> 0, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await write(out, descriptor);
+    offset += descriptor.length;
+
+    entries.push(entry);
+  };
+
+  async function* sheetXml(): AsyncIterable<string> {
+    yield `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>`;
+    yield `<row>${options.header.map((cell) => cellXml(cell, true)).join("")}</row>`;
+    for await (const row of options.rows) {
+      yield `<row>${row.map((cell) => cellXml(cell, false)).join("")}</row>`;
+    }
+    yield "</sheetData></worksheet>";
+  }
+
+  await addEntry("[Content_Types].xml", CONTENT_TYPES);
+  await addEntry("_rels/.rels", ROOT_RELS);
+  await addEntry("xl/workbook.xml", workbookXml(options.sheetName));
+  await addEntry("xl/_rels/workbook.xml.rels", WORKBOOK_RELS);
+  await addEntry("xl/styles.xml", STYLES);
+  await addEntry("xl/worksheets/sheet1.xml", sheetXml());
+
+  // Central directory
+  const centralStart = offset;
+  for (const entry of entries) {
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(ZIP_VERSION, 4);
+    record.writeUInt16LE(ZIP_VERSION, 6);
+    record.writeUInt16LE(ZIP_FLAGS, 8);
+    record.writeUInt16LE(ZIP_DEFLATE, 10);
+    record.writeUInt16LE(time, 12);
+    record.writeUInt16LE(date, 14);
+    record.writeUInt32LE(entry.crc >>> 0, 16);
+    record.writeUInt32LE(entry.compressedSize, 20);
+    record.writeUInt32LE(entry.size, 24);
+    record.writeUInt16LE(entry.name.length, 28);
+    record.writeUInt32LE(entry.offset, 42);
+    await write(out, Buffer.concat([record, entry.name]));
+    offset += record.length + entry.name.length;
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(offset - centralStart, 12);
+  end.writeUInt32LE(centralStart, 16);
+  await write(out, end);
+};